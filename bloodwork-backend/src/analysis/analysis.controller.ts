@@ -236,6 +236,8 @@ export class AnalysisController {
         status: job.status,
         progress: job.progress,
         resultId: job.resultId,
+        resultIds: job.resultIds ?? undefined,
+        enrichmentStatus: job.enrichmentStatus ?? undefined,
         errorMessage: job.errorMessage,
         createdAt: job.createdAt.toISOString(),
         updatedAt: job.updatedAt.toISOString(),
@@ -248,6 +250,8 @@ export class AnalysisController {
       status: job.status,
       progress: job.progress,
       resultId: job.resultId,
+      resultIds: job.resultIds ?? undefined,
+      enrichmentStatus: job.enrichmentStatus ?? undefined,
       errorMessage: job.errorMessage,
       createdAt: job.createdAt.toISOString(),
       updatedAt: job.updatedAt.toISOString(),
@@ -285,11 +289,12 @@ export class AnalysisController {
   }> {
     try {
       // Get job counts by status for health monitoring
-      const [queued, running, completed, failed] = await Promise.all([
+      const [queued, running, completed, failed, needsReview] = await Promise.all([
         this.analysisService.getJobsByStatus(JobStatus.QUEUED),
         this.analysisService.getJobsByStatus(JobStatus.RUNNING),
         this.analysisService.getJobsByStatus(JobStatus.COMPLETED),
         this.analysisService.getJobsByStatus(JobStatus.FAILED),
+        this.analysisService.getJobsByStatus(JobStatus.NEEDS_REVIEW),
       ]);
 
       return {
@@ -300,6 +305,7 @@ export class AnalysisController {
           [JobStatus.RUNNING]: running.length,
           [JobStatus.COMPLETED]: completed.length,
           [JobStatus.FAILED]: failed.length,
+          [JobStatus.NEEDS_REVIEW]: needsReview.length,
         },
         timestamp: new Date().toISOString(),
       };
@@ -312,6 +318,7 @@ export class AnalysisController {
           [JobStatus.RUNNING]: 0,
           [JobStatus.COMPLETED]: 0,
           [JobStatus.FAILED]: 0,
+          [JobStatus.NEEDS_REVIEW]: 0,
         },
         timestamp: new Date().toISOString(),
       };
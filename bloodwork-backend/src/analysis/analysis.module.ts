@@ -26,9 +26,12 @@ import { AnalysisController } from './analysis.controller';
 import { AnalysisService } from './analysis.service';
 import { AnalysisProcessor } from './analysis.processor';
 import { PdfParserService } from './pdf-parser.service';
+import { OcrService } from './ocr.service';
+import { LabTemplateRegistry } from './templates/lab-template.registry';
 import { AnalysisJob } from '../common/entities/analysis-job.entity';
 import { UploadsModule } from '../uploads/uploads.module';
 import { ResultsModule } from '../results/results.module';
+import { ProfilesModule } from '../profiles/profiles.module';
 
 @Module({
   /**
@@ -96,6 +99,14 @@ import { ResultsModule } from '../results/results.module';
      * Using direct import instead of forwardRef to avoid circular dependency
      */
     ResultsModule,
+
+    /**
+     * Profiles module import for demographics
+     * 
+     * WHY: AnalysisProcessor passes the user's age, sex and pregnancy
+     * status to the parser so missing reference ranges can be filled in.
+     */
+    ProfilesModule,
   ],
 
   /**
@@ -142,6 +153,22 @@ import { ResultsModule } from '../results/results.module';
      * using mock data. Handles various lab report formats.
      */
     PdfParserService,
+
+    /**
+     * OcrService - Local OCR for scanned pages
+     * 
+     * WHY: Phone-scanned PDFs have no text layer. PdfParserService hands
+     * their image-only pages to this service and parses the OCR text.
+     */
+    OcrService,
+
+    /**
+     * LabTemplateRegistry - Lab-specific extraction templates
+     * 
+     * WHY: Recognises reports from known labs and applies their layout
+     * rules before PdfParserService falls back to generic extraction.
+     */
+    LabTemplateRegistry,
   ],
 
   /**
@@ -10,8 +10,12 @@ import type { Job } from 'bull';
 import { Injectable, Logger } from '@nestjs/common';
 import { AnalysisService } from './analysis.service';
 import { ResultsService } from '../results/results.service';
-import { PdfParserService } from './pdf-parser.service';
-import { JobStatus } from '../common/entities/analysis-job.entity';
+import { ParsedReport, PdfParserService } from './pdf-parser.service';
+import { ProfilesService } from '../profiles/profiles.service';
+import { ENRICHMENT_PROGRESS_START, JobStatus } from '../common/entities/analysis-job.entity';
+import { BloodworkResult } from '../common/entities/bloodwork-result.entity';
+import { UserProfile } from '../common/entities/user-profile.entity';
+import { checkPatientIdentity } from './parsing/patient-info';
 
 /**
  * Job data interface for type safety
@@ -22,6 +26,10 @@ interface BloodworkJobData {
   uploadId: string;
   filePath: string;
   originalName: string;
+  /**
+   * Present for photographed reports - OCR'd instead of read as a PDF
+   */
+  images?: Array<{ path: string; mimetype: string }>;
 }
 
 @Injectable()
@@ -33,6 +41,7 @@ export class AnalysisProcessor {
     private readonly analysisService: AnalysisService,
     private readonly resultsService: ResultsService,
     private readonly pdfParserService: PdfParserService,
+    private readonly profilesService: ProfilesService,
   ) {}
 
   /**
@@ -40,49 +49,54 @@ export class AnalysisProcessor {
    */
   @Process('processBloodwork')
   async handleBloodworkAnalysis(job: Job<BloodworkJobData>): Promise<void> {
-    const { jobId, userId, uploadId, filePath, originalName } = job.data;
+    const { jobId, userId, uploadId, filePath, originalName, images } = job.data;
     
     this.logger.log(`Starting analysis for job ${jobId}, file: ${originalName}`);
 
+    const results: BloodworkResult[] = [];
     try {
       // Phase 1: Initialize
       await this.updateJobProgress(jobId, JobStatus.RUNNING, 10);
       await this.delay(1000);
 
-      // Phase 2: Parse PDF
-      this.logger.log(`Parsing PDF for job ${jobId}`);
-      await this.updateJobProgress(jobId, JobStatus.RUNNING, 30);
-      const parsedData = await this.pdfParserService.parseBloodworkResults(filePath);
+      // Phase 2: Parse PDF (or OCR the report photos)
+      this.logger.log(`Parsing ${images?.length ? `${images.length} image(s)` : 'PDF'} for job ${jobId}`);
+      await this.updateJobProgress(jobId, JobStatus.RUNNING, 25);
+      const profile = await this.profilesService.findByUserId(userId);
+      const parsedReports = images?.length
+        ? await this.pdfParserService.parseBloodworkImages(images, profile)
+        : await this.pdfParserService.parseBloodworkResults(filePath, profile);
       await this.delay(2000);
 
-      // Phase 3: Process results
-      this.logger.log(`Processing results for job ${jobId}`);
+      // Phase 3: Process results (one per report - history exports hold several)
+      this.logger.log(`Processing ${parsedReports.length} report(s) for job ${jobId}`);
+      await this.updateJobProgress(jobId, JobStatus.RUNNING, 55);
+      const reports = [...parsedReports].sort((a, b) => a.testDate.localeCompare(b.testDate));
+
+      // Phase 4: Save results - all reports or none, so a retried job either
+      // reuses everything an earlier attempt saved or saves it all afresh
       await this.updateJobProgress(jobId, JobStatus.RUNNING, 70);
-      
-      const processedResults = {
-        testType: parsedData.testType,
-        testDate: parsedData.testDate,
-        results: parsedData.testResults,
-        doctorNotes: `Analysis complete for ${parsedData.testType}. Please discuss these results with your healthcare provider.`,
-        status: 'completed' as const,
-      };
-
-      // Phase 4: Save results
-      await this.updateJobProgress(jobId, JobStatus.RUNNING, 90);
-      const result = await this.resultsService.createResult({
-        jobId,
-        userId,
-        ...processedResults,
-      });
+      const saved = await this.resultsService.findAllByJobId(jobId);
+      if (saved.length > 0) {
+        this.logger.log(`Job ${jobId}: reusing ${saved.length} result(s) saved by an earlier attempt`);
+        results.push(...saved);
+      } else {
+        results.push(...await this.resultsService.createResults(
+          reports.map(parsedData => ({ jobId, userId, ...this.processReport(jobId, parsedData, profile) })),
+        ));
+      }
 
-      // Phase 5: Complete
+      // Phase 5: Complete (or wait for the user to confirm the values) - results are usable from here
+      const needsReview = results.some(result => result.status === 'needs_review');
       await this.analysisService.updateJobStatus(jobId, {
-        status: JobStatus.COMPLETED,
-        progress: 100,
-        resultId: result.id,
+        status: needsReview ? JobStatus.NEEDS_REVIEW : JobStatus.COMPLETED,
+        progress: ENRICHMENT_PROGRESS_START,
+        resultId: results[0].id,
+        resultIds: results.map(result => result.id),
+        ocrPages: reports[0].ocrPages,
       });
 
-      this.logger.log(`Analysis completed for job ${jobId}, result: ${result.id}`);
+      this.logger.log(`Analysis completed for job ${jobId}, results: ${results.map(result => result.id).join(', ')}`);
 
     } catch (error) {
       this.logger.error(`Analysis failed for job ${jobId}:`, error);
@@ -94,6 +108,57 @@ export class AnalysisProcessor {
       
       throw error;
     }
+
+    // Phase 6: AI notes in their own queued stage - results awaiting review are queued on confirmation.
+    // Outside the try: the job is finished, and failing it here would make Bull retry a completed analysis
+    try {
+      await this.resultsService.queueEnrichment(
+        jobId,
+        results.filter(result => result.status !== 'needs_review').map(result => result.id),
+      );
+    } catch (error) {
+      this.logger.error(`Could not start AI enrichment for job ${jobId} - the results are kept:`, error);
+    }
+  }
+
+  /**
+   * Turns one parsed report into the fields of its BloodworkResult
+   */
+  private processReport(jobId: string, parsedData: ParsedReport, profile: UserProfile | null): Partial<BloodworkResult> {
+    // A report that seems to be someone else's must not silently join this user's history
+    const identityCheck = checkPatientIdentity(parsedData.patientInfo, profile);
+    const identityMismatch = identityCheck.status === 'mismatch';
+    if (identityMismatch) {
+      this.logger.warn(`Job ${jobId}: report patient differs from the user's profile (${identityCheck.mismatchedFields.join(', ')})`);
+    }
+
+    // Nothing extracted, any low-confidence / incomplete row, or someone else's report goes to the user first
+    const reviewCount = parsedData.testResults.filter(test => test.needsReview).length;
+    const needsReview = parsedData.testResults.length === 0 || reviewCount > 0 || identityMismatch;
+    if (needsReview) {
+      this.logger.log(`Job ${jobId} report of ${parsedData.testDate} needs review: ${reviewCount} of ${parsedData.testResults.length} results flagged`);
+    }
+
+    return {
+      testType: parsedData.testType,
+      panels: parsedData.panels,
+      testDate: parsedData.testDate,
+      collectedAt: parsedData.dates.collectedAt ?? undefined,
+      receivedAt: parsedData.dates.receivedAt ?? undefined,
+      reportedAt: parsedData.dates.reportedAt ?? undefined,
+      dateGuessed: parsedData.dates.dateGuessed,
+      results: parsedData.testResults,
+      parserTemplateId: parsedData.templateId,
+      parserTemplateVersion: parsedData.templateVersion,
+      patientInfo: parsedData.patientInfo,
+      identityCheck,
+      doctorNotes: identityMismatch
+        ? 'This report may belong to someone else - the patient details do not match your profile. Please confirm it is yours before reviewing these results.'
+        : needsReview
+        ? 'Some values could not be read reliably. Please check and confirm them before reviewing these results.'
+        : `Analysis complete for ${parsedData.testType}. Please discuss these results with your healthcare provider.`,
+      status: needsReview ? 'needs_review' : 'completed',
+    };
   }
 
   /**
@@ -83,6 +83,8 @@ export class AnalysisService {
       uploadId,
       filePath: upload.path,
       originalName: upload.originalName,
+      // Photographed reports: every page, in order, with its MIME type for decoding
+      images: upload.pages?.map(page => ({ path: page.path, mimetype: page.mimetype })),
     });
 
     // Format response for React Native
@@ -119,7 +121,7 @@ export class AnalysisService {
    * 
    * USAGE:
    * - Background processor updates progress: 10%, 25%, 50%, 75%, 100%
-   * - Status transitions: QUEUED -> RUNNING -> COMPLETED/FAILED
+   * - Status transitions: QUEUED -> RUNNING -> COMPLETED/NEEDS_REVIEW/FAILED
    * - Error handling: Records specific error messages for debugging
    */
   async updateJobStatus(jobId: string, updates: Partial<AnalysisJob>): Promise<void> {
@@ -183,6 +185,10 @@ export class AnalysisService {
       throw new BadRequestException('Cannot cancel failed job');
     }
 
+    if (job.status === JobStatus.NEEDS_REVIEW) {
+      throw new BadRequestException('Cannot cancel job awaiting review - its results are already saved');
+    }
+
     // Remove from queue if still queued
     const queueJob = await this.analysisQueue.getJob(jobId);
     if (queueJob) {
@@ -232,7 +238,10 @@ export class AnalysisService {
       status: job.status,
       progress: job.progress,
       resultId: job.resultId,
+      resultIds: job.resultIds ?? undefined,
+      enrichmentStatus: job.enrichmentStatus ?? undefined,
       errorMessage: job.errorMessage,
+      ocrPages: job.ocrPages ?? undefined,
       createdAt: job.createdAt.toISOString(),
       updatedAt: job.updatedAt.toISOString(),
     };
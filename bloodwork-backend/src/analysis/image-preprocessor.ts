@@ -0,0 +1,56 @@
+/**
+ * Image Preprocessor - Prepares report photos for OCR
+ *
+ * WHY: A phone photo of a lab report is rarely OCR-ready. The pixels are
+ * often stored sideways with an EXIF tag saying how to turn them, iPhones
+ * save HEIC which Tesseract can't read, and colour, shadows and 12MP
+ * resolution slow recognition without improving it.
+ *
+ * FUNCTIONALITY:
+ * - Decodes HEIC/HEIF photos
+ * - Applies the EXIF orientation so text is upright
+ * - Converts to a contrast-stretched greyscale PNG of bounded size
+ * - Straightens skewed photos once OCR has measured the skew
+ *   (see OcrService.recognizePhoto())
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * PdfParserService (photo uploads) -> OcrService -> prepareReportImage()
+ */
+
+import heicConvert from 'heic-convert';
+import sharp from 'sharp';
+import { isHeicMimeType } from '../uploads/upload-file-types';
+
+/**
+ * Longest edge after resizing - about 300 DPI for a letter-size page
+ */
+const MAX_IMAGE_EDGE = 3300;
+
+export async function prepareReportImage(image: Buffer, mimetype: string): Promise<Buffer> {
+  const decoded = isHeicMimeType(mimetype)
+    ? Buffer.from(await heicConvert({ buffer: image, format: 'PNG' }))
+    : image;
+
+  return sharp(decoded)
+    .rotate() // no argument: rotate by the EXIF orientation tag
+    .resize({ width: MAX_IMAGE_EDGE, height: MAX_IMAGE_EDGE, fit: 'inside', withoutEnlargement: true })
+    .grayscale()
+    .normalize()
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Rotates a prepared image so text baselines sloping by skewDegrees are level
+ *
+ * WHY: The corners exposed by rotating are filled with the page's own
+ * dominant colour - white wedges around a grey photo of paper make
+ * Tesseract treat the whole page as a picture and find no text.
+ */
+export async function straightenImage(image: Buffer, skewDegrees: number): Promise<Buffer> {
+  const { dominant } = await sharp(image).stats();
+  return sharp(image)
+    .rotate(-skewDegrees, { background: dominant })
+    .png()
+    .toBuffer();
+}
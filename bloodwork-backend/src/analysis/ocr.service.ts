@@ -0,0 +1,273 @@
+/**
+ * OCR Service - Local text recognition for scanned and photographed reports
+ *
+ * WHY: A report scanned on a phone or office copier is a PDF of pictures.
+ * pdf-parse only reads the text layer, so it returns an empty string and the
+ * job "completes" with zero results. This service renders those pages to
+ * images and reads them with Tesseract, entirely offline - the English
+ * language data ships with the app, so no report image leaves the server.
+ *
+ * FUNCTIONALITY:
+ * - Detects whether a PDF page contains images worth recognising
+ * - Renders PDF pages to bitmaps with pdf.js (@napi-rs/canvas backend)
+ * - Straightens and recognises photographed report pages
+ * - Runs Tesseract and returns text lines with per-word confidence (0-1)
+ * - Keeps one recognition worker alive between jobs
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * PdfParserService (image-only pages, photo uploads) -> This service -> OCR text
+ * -> same template / generic extraction as text PDFs
+ */
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Canvas, createCanvas } from '@napi-rs/canvas';
+import { createWorker, OEM, PSM, Worker } from 'tesseract.js';
+import './pdfjs-globals';
+import { getDocument, OPS, PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf.js';
+import * as path from 'path';
+import { prepareReportImage, straightenImage } from './image-preprocessor';
+
+export interface OcrWord {
+  text: string;
+  confidence: number;
+}
+
+export interface OcrLine {
+  text: string;
+  /**
+   * Lowest word confidence on the line - one misread digit spoils a row
+   */
+  confidence: number;
+  words: OcrWord[];
+}
+
+export interface OcrPage {
+  pageNumber: number;
+  text: string;
+  confidence: number;
+  lines: OcrLine[];
+  /**
+   * Median text baseline angle in degrees (positive = sloping down to the right)
+   */
+  skewDegrees: number;
+}
+
+/**
+ * Skew below this is left alone - Tesseract copes with it
+ */
+const MIN_DESKEW_DEGREES = 0.5;
+
+/**
+ * Canvas factory handed to pdf.js - its built-in one requires node-canvas
+ */
+const canvasFactory = {
+  create(width: number, height: number) {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  },
+  reset(target: { canvas: Canvas }, width: number, height: number) {
+    target.canvas.width = width;
+    target.canvas.height = height;
+  },
+  destroy(target: { canvas: Canvas | null; context: unknown }) {
+    if (target.canvas) {
+      target.canvas.width = 0;
+      target.canvas.height = 0;
+    }
+    target.canvas = null;
+    target.context = null;
+  },
+};
+
+@Injectable()
+export class OcrService implements OnModuleDestroy {
+  private readonly logger = new Logger(OcrService.name);
+  private worker: Promise<Worker> | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Whether OCR is switched on (OCR_ENABLED, default true)
+   */
+  get enabled(): boolean {
+    return this.configService.get<boolean>('ocr.enabled') ?? true;
+  }
+
+  /**
+   * Page numbers (1-based) among the candidates that contain images
+   *
+   * WHY: A page with no text layer is either scanned or blank. Rendering
+   * and recognising a blank page costs seconds for nothing, so only pages
+   * that actually paint an image are returned.
+   */
+  async findImagePages(data: Buffer, candidatePages: number[]): Promise<number[]> {
+    const imageOps = new Set<number>([
+      OPS.paintImageXObject,
+      OPS.paintInlineImageXObject,
+      OPS.paintImageXObjectRepeat,
+      OPS.paintImageMaskXObject,
+    ]);
+
+    return this.withDocument(data, async document => {
+      const imagePages: number[] = [];
+      for (const pageNumber of candidatePages) {
+        const page = await document.getPage(pageNumber);
+        const operators = await page.getOperatorList();
+        if (operators.fnArray.some(fn => imageOps.has(fn))) {
+          imagePages.push(pageNumber);
+        }
+        page.cleanup();
+      }
+      return imagePages;
+    });
+  }
+
+  /**
+   * Renders the given PDF pages and recognises their text
+   */
+  async recognizePdfPages(data: Buffer, pageNumbers: number[]): Promise<OcrPage[]> {
+    const dpi = this.configService.get<number>('ocr.dpi') ?? 300;
+
+    return this.withDocument(data, async document => {
+      const pages: OcrPage[] = [];
+      for (const pageNumber of pageNumbers) {
+        const page = await document.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: dpi / 72 });
+        const target = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+        await page.render({ canvasContext: target.context as unknown as CanvasRenderingContext2D, viewport }).promise;
+        const image = target.canvas.toBuffer('image/png');
+        canvasFactory.destroy(target);
+        page.cleanup();
+
+        pages.push(await this.recognizeStraightened(image, pageNumber));
+      }
+      return pages;
+    });
+  }
+
+  /**
+   * Recognises a photographed report page (JPEG, PNG or HEIC)
+   *
+   * WHY: Photos are upright-corrected and cleaned up first. A page shot a
+   * few degrees off level splits rows across lines and misaligns columns,
+   * so when the first pass shows sloping baselines the image is
+   * straightened and read again.
+   */
+  async recognizePhoto(image: Buffer, mimetype: string, pageNumber = 1): Promise<OcrPage> {
+    return this.recognizeStraightened(await prepareReportImage(image, mimetype), pageNumber);
+  }
+
+  /**
+   * Recognises text in a single page image (PNG or JPEG)
+   */
+  async recognizeImage(image: Buffer, pageNumber = 1): Promise<OcrPage> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+
+    const tesseractLines = (data.blocks ?? [])
+      .flatMap(block => block.paragraphs)
+      .flatMap(paragraph => paragraph.lines);
+
+    const lines: OcrLine[] = tesseractLines
+      .map(line => {
+        const words = line.words.map(word => ({ text: word.text, confidence: toUnitConfidence(word.confidence) }));
+        return {
+          text: line.text.trim(),
+          confidence: words.length > 0 ? Math.min(...words.map(word => word.confidence)) : 0,
+          words,
+        };
+      })
+      .filter(line => line.text.length > 0);
+
+    this.logger.log(`OCR page ${pageNumber}: ${lines.length} lines, confidence ${Math.round(data.confidence)}%`);
+
+    return {
+      pageNumber,
+      text: lines.map(line => line.text).join('\n'),
+      confidence: toUnitConfidence(data.confidence),
+      lines,
+      skewDegrees: medianBaselineAngle(tesseractLines.map(line => line.baseline)),
+    };
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.worker) {
+      const worker = await this.worker;
+      this.worker = null;
+      await worker.terminate();
+    }
+  }
+
+  /**
+   * Recognises an image, straightening and re-reading it when skewed
+   *
+   * WHY: Scans fed crooked through a copier and phone photos both come
+   * out a few degrees off level.
+   */
+  private async recognizeStraightened(prepared: Buffer, pageNumber: number): Promise<OcrPage> {
+    const firstPass = await this.recognizeImage(prepared, pageNumber);
+    if (Math.abs(firstPass.skewDegrees) < MIN_DESKEW_DEGREES) {
+      return firstPass;
+    }
+
+    this.logger.log(`Deskewing page ${pageNumber} by ${firstPass.skewDegrees.toFixed(1)}°`);
+    const straightened = await this.recognizeImage(await straightenImage(prepared, firstPass.skewDegrees), pageNumber);
+    return straightened.confidence >= firstPass.confidence ? straightened : firstPass;
+  }
+
+  /**
+   * Starts the Tesseract worker once and reuses it
+   *
+   * WHY: Loading the language model takes a couple of seconds; paying that
+   * per page would double the time of a multi-page scan. The model is read
+   * from @tesseract.js-data/eng so nothing is downloaded at runtime.
+   */
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      const langPath = path.dirname(require.resolve('@tesseract.js-data/eng/4.0.0/eng.traineddata.gz'));
+      this.worker = createWorker('eng', OEM.LSTM_ONLY, { langPath, cacheMethod: 'none', gzip: true })
+        .then(async worker => {
+          // Lab reports are column layouts, not prose
+          await worker.setParameters({ tessedit_pageseg_mode: PSM.AUTO, preserve_interword_spaces: '1' });
+          return worker;
+        })
+        .catch(error => {
+          this.worker = null;
+          throw error;
+        });
+    }
+    return this.worker;
+  }
+
+  private async withDocument<T>(data: Buffer, work: (document: PDFDocumentProxy) => Promise<T>): Promise<T> {
+    const document = await getDocument({
+      data: new Uint8Array(data),
+      canvasFactory,
+      isEvalSupported: false,
+      verbosity: 0,
+    }).promise;
+
+    try {
+      return await work(document);
+    } finally {
+      await document.destroy();
+    }
+  }
+}
+
+/**
+ * Median slope of the text baselines, ignoring short fragments
+ */
+function medianBaselineAngle(baselines: Array<{ x0: number; y0: number; x1: number; y1: number }>): number {
+  const angles = baselines
+    .filter(baseline => baseline.x1 - baseline.x0 > 100)
+    .map(baseline => (Math.atan2(baseline.y1 - baseline.y0, baseline.x1 - baseline.x0) * 180) / Math.PI)
+    .sort((a, b) => a - b);
+  return angles.length > 0 ? angles[Math.floor(angles.length / 2)] : 0;
+}
+
+function toUnitConfidence(percent: number): number {
+  return Math.round(Math.max(0, Math.min(100, percent))) / 100;
+}
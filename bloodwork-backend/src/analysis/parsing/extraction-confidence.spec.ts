@@ -0,0 +1,67 @@
+import { TestResult } from '../../common/entities/bloodwork-result.entity';
+import { findSourcePage, scoreExtraction } from './extraction-confidence';
+
+function row(overrides: Partial<TestResult> = {}): TestResult {
+  return {
+    id: '1',
+    testName: 'Glucose',
+    canonicalCode: 'GLU',
+    value: 92,
+    unit: 'mg/dL',
+    referenceRange: { min: 70, max: 99 },
+    status: 'normal',
+    ...overrides,
+  };
+}
+
+describe('scoreExtraction', () => {
+  it('should fully trust a clean text-layer row', () => {
+    expect(scoreExtraction(row())).toEqual({ confidence: 1, reviewReasons: [], needsReview: false });
+  });
+
+  it('should apply one penalty per issue and review below the threshold', () => {
+    expect(scoreExtraction(row({ referenceRangeConflict: true }))).toEqual({
+      confidence: 0.8,
+      reviewReasons: ['reference_range_conflict'],
+      needsReview: false,
+    });
+    expect(scoreExtraction(row({ canonicalCode: undefined }))).toMatchObject({ confidence: 0.85, needsReview: false });
+    expect(scoreExtraction(row({ flagDiscrepancy: true }))).toMatchObject({ confidence: 0.7, needsReview: true });
+    // 0.85 x 0.8
+    expect(scoreExtraction(row({ canonicalCode: undefined, referenceRangeConflict: true }))).toEqual({
+      confidence: 0.68,
+      reviewReasons: ['unknown_analyte', 'reference_range_conflict'],
+      needsReview: true,
+    });
+  });
+
+  it('should always review a row missing its value or unit', () => {
+    expect(scoreExtraction(row({ value: null }))).toEqual({ confidence: 0, reviewReasons: ['missing_value'], needsReview: true });
+    expect(scoreExtraction(row({ unit: '' }), 0.5)).toEqual({ confidence: 0.6, reviewReasons: ['missing_unit'], needsReview: true });
+  });
+
+  it('should not expect a unit where the analyte has none', () => {
+    expect(scoreExtraction(row({ canonicalCode: 'U_PH', value: 6, unit: '' }))).toMatchObject({ reviewReasons: [], needsReview: false });
+    expect(scoreExtraction(row({ canonicalCode: 'U_PROT', value: null, qualitativeValue: 'Negative', unit: '' }))).toMatchObject({
+      reviewReasons: [],
+      needsReview: false,
+    });
+  });
+
+  it('should start scanned rows from their OCR confidence', () => {
+    expect(scoreExtraction(row({ ocrConfidence: 0.9 }))).toEqual({ confidence: 0.9, reviewReasons: [], needsReview: false });
+    expect(scoreExtraction(row({ ocrConfidence: 0.75 }))).toEqual({ confidence: 0.75, reviewReasons: ['low_ocr_confidence'], needsReview: true });
+    expect(scoreExtraction(row({ ocrConfidence: 0.75 }), 0.7)).toEqual({ confidence: 0.75, reviewReasons: [], needsReview: false });
+  });
+});
+
+describe('findSourcePage', () => {
+  const pages = ['Glucose 92 mg/dL 70-99\nTest Result Units', 'Test Result Units\nSodium 140 mmol/L 135-145'];
+
+  it('should find the page a row was read from, searching on from the previous row', () => {
+    expect(findSourcePage('Sodium 140 mmol/L 135-145', pages)).toBe(2);
+    expect(findSourcePage('Test Result Units', pages, 2)).toBe(2);
+    expect(findSourcePage('Glucose 92 mg/dL 70-99', pages, 2)).toBe(1);
+    expect(findSourcePage('Potassium 4.1 mmol/L', pages)).toBeUndefined();
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Extraction Confidence - How much to trust each parsed result row
+ *
+ * WHY: A parse either yielded results or it didn't, and a misread "1.5"
+ * as "15" looked exactly as trustworthy as a clean text-layer value. This
+ * module scores every row from the signals we already have - OCR word
+ * confidence, missing fields, and disagreements with the lab's own flag or
+ * range - so low-confidence rows can be confirmed by the user before
+ * anything is built on them.
+ *
+ * FUNCTIONALITY:
+ * - Scores a TestResult between 0 and 1 with the reasons for any penalty
+ * - Marks rows that need review (low score or a required field missing)
+ * - Finds the report page a row was read from
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * PdfParserService -> scoreExtraction() -> TestResult.confidence / needsReview
+ * AnalysisProcessor -> any needsReview -> 'needs_review' job and result
+ */
+
+import { ReviewReason, TestResult } from '../../common/entities/bloodwork-result.entity';
+import { findAnalyteByCode } from '../../common/clinical/analyte-catalogue';
+
+/**
+ * Rows scoring below this are sent for review unless configured otherwise
+ */
+export const DEFAULT_REVIEW_THRESHOLD = 0.8;
+
+/**
+ * Multipliers applied per issue - a text-layer row with no issues scores 1
+ */
+const PENALTIES: Record<ReviewReason, number> = {
+  missing_value: 0,
+  missing_unit: 0.6,
+  flag_discrepancy: 0.7,
+  reference_range_conflict: 0.8,
+  unknown_analyte: 0.85,
+  low_ocr_confidence: 1, // already reflected in the OCR starting score
+};
+
+/**
+ * Reasons that require review whatever the score
+ */
+const REQUIRED_FIELD_REASONS: ReviewReason[] = ['missing_value', 'missing_unit'];
+
+/**
+ * Confidence, reasons and review decision for one parsed row
+ *
+ * SCORING:
+ * - Starts from the OCR confidence for scanned rows, 1 for text-layer rows
+ * - Multiplied down for each issue found (see PENALTIES)
+ */
+export function scoreExtraction(
+  result: TestResult,
+  threshold = DEFAULT_REVIEW_THRESHOLD,
+): Pick<TestResult, 'confidence' | 'reviewReasons' | 'needsReview'> {
+  const reasons: ReviewReason[] = [];
+  const analyte = findAnalyteByCode(result.canonicalCode);
+
+  if (result.value === null && !result.qualitativeValue) {
+    reasons.push('missing_value');
+  }
+  // Titers and unitless analytes (urine pH, specific gravity) have no unit to miss
+  const unitRequired = result.value !== null && (analyte ? analyte.preferredUnit !== '' : true);
+  if (unitRequired && !result.unit) {
+    reasons.push('missing_unit');
+  }
+  if (!analyte) {
+    reasons.push('unknown_analyte');
+  }
+  if (result.flagDiscrepancy) {
+    reasons.push('flag_discrepancy');
+  }
+  if (result.referenceRangeConflict) {
+    reasons.push('reference_range_conflict');
+  }
+  if (result.ocrConfidence !== undefined && result.ocrConfidence < threshold) {
+    reasons.push('low_ocr_confidence');
+  }
+
+  const confidence = reasons.reduce((score, reason) => score * PENALTIES[reason], result.ocrConfidence ?? 1);
+  const rounded = Math.round(confidence * 100) / 100;
+
+  return {
+    confidence: rounded,
+    reviewReasons: reasons,
+    needsReview: rounded < threshold || reasons.some(reason => REQUIRED_FIELD_REASONS.includes(reason)),
+  };
+}
+
+/**
+ * 1-based page whose text contains the row's first source line
+ *
+ * WHY: Rows arrive in document order, so the search starts at the page of
+ * the previous row; a line repeated on several pages (a running header
+ * row) then resolves to the right one.
+ */
+export function findSourcePage(sourceText: string, pageTexts: string[], fromPage = 1): number | undefined {
+  const firstLine = sourceText.split('\n')[0].trim();
+  if (!firstLine) return undefined;
+
+  const containsLine = (pageIndex: number) =>
+    (pageTexts[pageIndex] ?? '').split('\n').some(line => line.trim() === firstLine);
+
+  for (let index = Math.max(fromPage - 1, 0); index < pageTexts.length; index++) {
+    if (containsLine(index)) return index + 1;
+  }
+  for (let index = 0; index < Math.min(fromPage - 1, pageTexts.length); index++) {
+    if (containsLine(index)) return index + 1;
+  }
+  return undefined;
+}
@@ -0,0 +1,91 @@
+import { extractGenericRows, parseLabNumber, parseReferenceRange, parseResultRow, parseResultValue } from './generic-extractor';
+
+function fields(text: string) {
+  const row = parseResultRow(text);
+  return row && { name: row.name, value: row.value, unit: row.unit, referenceRange: row.referenceRange, flag: row.flag };
+}
+
+describe('parseResultRow', () => {
+  it('should parse a single-line row', () => {
+    expect(fields('Glucose 105 mg/dL 70-99 H')).toEqual({
+      name: 'Glucose',
+      value: 105,
+      unit: 'mg/dL',
+      referenceRange: { min: 70, max: 99 },
+      flag: 'H',
+    });
+  });
+
+  it('should keep numbers that belong to the name', () => {
+    expect(fields('Vitamin D, 25-Hydroxy 32 ng/mL 30-100')).toMatchObject({ name: 'Vitamin D, 25-Hydroxy', value: 32, unit: 'ng/mL' });
+    expect(fields('25 OH Vitamin D 32 ng/mL 30-100')).toMatchObject({ name: '25 OH Vitamin D', value: 32 });
+    expect(fields('Omega-3 Index 8.2 % 8.0-12.0')).toMatchObject({ name: 'Omega-3 Index', value: 8.2, unit: '%' });
+  });
+
+  it('should parse vitamin B12 however it is written', () => {
+    for (const name of ['Vitamin B12', 'Vitamin B-12', 'Vitamin B12 (Cobalamin)', 'Cobalamin (B12)']) {
+      expect(fields(`${name} 450 pg/mL 200-900`)).toMatchObject({ name, value: 450, referenceRange: { min: 200, max: 900 } });
+    }
+  });
+
+  it('should not move the value into the name when another number follows', () => {
+    expect(fields('Glucose 105 mg/dL 98 70-99')).toMatchObject({ name: 'Glucose', value: 105 });
+  });
+
+  it('should parse censored values and one-sided ranges', () => {
+    const row = parseResultRow('C-Reactive Protein <0.5 mg/L <3.0');
+
+    expect(row).toMatchObject({ name: 'C-Reactive Protein', value: 0.5, comparator: '<', unit: 'mg/L', referenceRange: { min: null, max: 3 } });
+  });
+
+  it('should parse units with digits', () => {
+    expect(fields('WBC 6.5 x10^3/uL 4.0-11.0')).toMatchObject({ value: 6.5, unit: 'x10^3/uL' });
+    expect(fields('eGFR 95 mL/min/1.73m2 >59')).toMatchObject({ value: 95, unit: 'mL/min/1.73m2', referenceRange: { min: 59, max: null } });
+  });
+
+  it('should parse titers and qualitative rows', () => {
+    expect(parseResultRow('ANA Titer 1:160 <1:40')).toMatchObject({ name: 'ANA Titer', value: 160, valueText: '1:160', unit: 'titer' });
+    expect(parseResultRow('HIV 1/2 Ab Non-Reactive Non-Reactive')).toMatchObject({
+      name: 'HIV 1/2 Ab',
+      value: null,
+      qualitativeValue: 'Non-Reactive',
+      expectedQualitative: 'Non-Reactive',
+    });
+  });
+
+  it('should skip report metadata', () => {
+    expect(parseResultRow('Page 2 of 3')).toBeNull();
+    expect(parseResultRow('Age 45')).toBeNull();
+  });
+});
+
+describe('extractGenericRows', () => {
+  it('should merge rows printed one cell per line', () => {
+    const rows = extractGenericRows('Hemoglobin\n13.2\ng/dL\n12.0-15.5');
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ name: 'Hemoglobin', value: 13.2, unit: 'g/dL', referenceRange: { min: 12, max: 15.5 } });
+  });
+
+  it('should map column tables through their header', () => {
+    const rows = extractGenericRows('Test  Result  Flag  Units  Reference Range\nPotassium  5.6  H  mmol/L  3.5-5.1');
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ name: 'Potassium', value: 5.6, flag: 'H', unit: 'mmol/L', referenceRange: { min: 3.5, max: 5.1 } });
+  });
+});
+
+describe('number and range cells', () => {
+  it('should read numbers as printed', () => {
+    expect(parseLabNumber('1,250')).toBe(1250);
+    expect(parseLabNumber('4,5')).toBe(4.5);
+    expect(parseLabNumber('13.2')).toBe(13.2);
+  });
+
+  it('should read result and range cells', () => {
+    expect(parseResultValue('<0.5')).toMatchObject({ value: 0.5, comparator: '<' });
+    expect(parseResultValue('NEG')).toMatchObject({ value: null, qualitativeValue: 'Negative' });
+    expect(parseReferenceRange('(3.5 - 5.1)')).toEqual({ min: 3.5, max: 5.1 });
+    expect(parseReferenceRange('< 200')).toEqual({ min: null, max: 200 });
+  });
+});
@@ -0,0 +1,516 @@
+/**
+ * Generic Extractor - Layout-agnostic lab result row detection
+ *
+ * WHY: Every lab prints results differently. Some put a whole result on one
+ * line ("Glucose 105 mg/dL 70-99 H"), some emit one table cell per line,
+ * and some use column tables with a header row. Instead of hard-coding each
+ * analyte, this module recognises the *shape* of a result row - a name
+ * followed by a value, unit, reference range and optional flag in any order.
+ *
+ * FUNCTIONALITY:
+ * - Normalises text quirks from pdf-parse (glued tokens, unicode dashes)
+ * - Parses single-line rows with fields in any order
+ * - Keeps censored ("<0.5"), titer ("1:160") and qualitative ("Negative") values
+ * - Merges multi-line rows where each cell sits on its own line
+ * - Maps column tables using their header row when one is present
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * PdfParserService -> extractGenericRows() -> ExtractedRow[] -> TestResult[]
+ */
+
+import { ResultComparator } from '../../common/entities/bloodwork-result.entity';
+import { normalizeQualitative, QUALITATIVE_TOKEN } from '../../common/clinical/qualitative-results';
+
+/**
+ * Identifies rows produced by this extractor when no lab template matched
+ */
+export const GENERIC_EXTRACTOR_ID = 'generic';
+export const GENERIC_EXTRACTOR_VERSION = '1.2.0';
+
+/**
+ * Raw result row as found in the report text, before any status logic
+ */
+export interface ExtractedRow {
+  name: string;
+  /**
+   * Null for qualitative rows - see qualitativeValue
+   */
+  value: number | null;
+  comparator?: ResultComparator;
+  qualitativeValue?: string;
+  expectedQualitative?: string;
+  /**
+   * Printed result when it isn't a plain number ("<0.5", "1:160", "NEG")
+   */
+  valueText?: string;
+  unit: string;
+  referenceRange: { min: number | null; max: number | null } | null;
+  flag?: string;
+  sourceText: string;
+  lineIndex: number;
+}
+
+const NUM = String.raw`[-+]?(?:\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:[.,]\d+)?)`;
+
+const RANGE_PATTERN = new RegExp(
+  String.raw`\(?\s*(${NUM})\s*(?:-|to)\s*(${NUM})\s*\)?`,
+  'i',
+);
+const ONE_SIDED_RANGE_PATTERN = new RegExp(
+  String.raw`\(?\s*(<=|>=|<|>|≤|≥)\s*(${NUM})\s*\)?`,
+);
+const VALUE_PATTERN = new RegExp(String.raw`(?:^|\s)(${NUM})(?=\s|$)`);
+const CENSORED_VALUE_PATTERN = new RegExp(
+  String.raw`^(<=|>=|<|>|≤|≥)\s*(${NUM})(?=\s|$)`,
+);
+/**
+ * Where a row name can end - before something that starts like a value
+ */
+const NAME_END_PATTERN = /\s*:?\s+(?=[(<>≤≥]?\s*[-+]?\d)/g;
+const STANDALONE_NUMBER_PATTERN = new RegExp(String.raw`^[(<>≤≥]?${NUM}\)?$`);
+const TITER_PATTERN = /(^|[\s<>=≤≥(])1\s*:\s*(\d+)(?=[\s)]|$)/g;
+
+const QUALITATIVE_ROW_PATTERN = new RegExp(
+  String.raw`^(.*?[A-Za-z].*?)\s*:?\s+(${QUALITATIVE_TOKEN})(?=\s|$)(.*)$`,
+  'i',
+);
+const QUALITATIVE_CELL_PATTERN = new RegExp(String.raw`(?:^|\s)(${QUALITATIVE_TOKEN})(?=\s|$)`, 'i');
+const QUALITATIVE_ONLY_PATTERN = new RegExp(String.raw`^${QUALITATIVE_TOKEN}$`, 'i');
+const REFERENCE_LABEL_PATTERN = /\b(?:ref(?:erence)?(?:\s+(?:range|interval))?|expected|normal)\s*:?/i;
+
+/**
+ * Units listed explicitly are those that don't fit the "a/b" shape
+ * or contain digits (cell counts, eGFR).
+ */
+const UNIT_PATTERN = new RegExp(
+  [
+    String.raw`x?\s?10\s?[\^*]\s?\d+\s?\/\s?[µμu]?L`,
+    String.raw`mL\/min\/1\.73\s?m2`,
+    String.raw`[a-zA-Zµμ]+\/[a-zA-Zµμ]+(?:\/[a-zA-Zµμ]+)?`,
+    String.raw`%`,
+    String.raw`\b(?:fL|pg|sec|seconds|ratio|IU|U)\b`,
+  ].join('|'),
+);
+
+const FLAG_PATTERN =
+  /(?:^|\s)(HH|LL|H|L|A|\*+|High|Low|Abnormal|Critical)(?=\s|$)/;
+
+/**
+ * Labels that look like "name + number" but are report metadata
+ */
+const METADATA_NAMES =
+  /^(page|date|time|age|dob|birth|phone|tel|fax|patient|name|id|mrn|accession|collected|received|reported|printed|requested|ordered|sample|specimen|doctor|physician|address|zip|postcode|lab|report|ref|no|number|result|results|comment|comments|interpretation|note|notes)\b/i;
+
+const HEADER_KEYWORDS: Record<
+  'name' | 'value' | 'unit' | 'range' | 'flag',
+  RegExp
+> = {
+  name: /^(test|test name|analyte|component|investigation|parameter|examination)$/i,
+  value: /^(result|results|value|your value|observed value)$/i,
+  unit: /^(units?|uom)$/i,
+  range: /^(reference|reference range|ref\.? range|reference interval|normal range|range|reference values?)$/i,
+  flag: /^(flag|flags|abnormal|status|indicator)$/i,
+};
+
+/**
+ * Parses a number as printed on a report ("1,250", "4,5", "13.2")
+ */
+export function parseLabNumber(raw: string): number {
+  const trimmed = raw.trim();
+  if (/^[-+]?\d{1,3}(?:,\d{3})+(?:\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed.replace(/,/g, ''));
+  }
+  return parseFloat(trimmed.replace(',', '.'));
+}
+
+type ParsedValue = Pick<ExtractedRow, 'value' | 'comparator' | 'qualitativeValue' | 'valueText'>;
+type ParsedRow = Omit<ExtractedRow, 'sourceText' | 'lineIndex'>;
+
+/**
+ * Parses a standalone result cell ("13.2", "<0.5", "1:160", "NEG")
+ *
+ * RETURNS: null when the cell isn't a recognisable result
+ */
+export function parseResultValue(raw: string): ParsedValue | null {
+  const { text, isTiter } = stripTiters(normalizeRowText(raw));
+
+  const censored = text.match(CENSORED_VALUE_PATTERN);
+  if (censored && censored[0].length === text.length) {
+    return toParsedValue(censored[2], censored[1], isTiter);
+  }
+  if (new RegExp(String.raw`^${NUM}$`).test(text)) {
+    return toParsedValue(text, undefined, isTiter);
+  }
+
+  const qualitative = normalizeQualitative(text);
+  return qualitative ? { value: null, qualitativeValue: qualitative, valueText: text } : null;
+}
+
+/**
+ * Parses a standalone reference range cell ("70-99", "(3.5 - 5.1)", "< 200")
+ */
+export function parseReferenceRange(text: string): ExtractedRow['referenceRange'] {
+  const normalized = normalizeRowText(text);
+  const twoSided = normalized.match(RANGE_PATTERN);
+  if (twoSided) {
+    return { min: parseLabNumber(twoSided[1]), max: parseLabNumber(twoSided[2]) };
+  }
+  const oneSided = normalized.match(ONE_SIDED_RANGE_PATTERN);
+  return oneSided ? toOneSidedRange(oneSided) : null;
+}
+
+/**
+ * Undoes common pdf-parse artefacts so row patterns can match
+ */
+export function normalizeRowText(text: string): string {
+  return text
+    .replace(/[–—−]/g, '-')
+    .replace(/([<>])\s*OR\s*=/gi, '$1=')
+    .replace(/\s+/g, ' ')
+    .replace(/([A-Za-z)]{4,})(\d+(?:\.\d+)?)(?=\s|$|%|[a-zA-Zµμ]+\/)/g, '$1 $2')
+    .replace(/(\d)([a-zA-Zµμ]+\/[a-zA-Zµμ]+)/g, '$1 $2')
+    .replace(/(\/[a-zA-Zµμ]+)(\d)/g, '$1 $2')
+    .trim();
+}
+
+/**
+ * Parses a single row of text into its result fields
+ *
+ * WHY: The name always comes first on a lab report, but the order of the
+ * value, unit, range and flag varies by lab. We peel off the name, then
+ * pull each field out of the remainder by shape rather than by position.
+ * Rows without a number are tried as qualitative results ("Negative").
+ */
+export function parseResultRow(text: string, lineIndex = 0): ExtractedRow | null {
+  const { text: normalized, isTiter } = stripTiters(normalizeRowText(text));
+  const row = parseNumericRow(normalized, isTiter) ?? parseQualitativeRow(normalized);
+  return row ? { ...row, sourceText: text.trim(), lineIndex } : null;
+}
+
+/**
+ * Extracts every result row found in the report text
+ *
+ * STRATEGY (per line, first match wins):
+ * 1. Column table row, mapped through the most recent header row
+ * 2. Complete single-line row
+ * 3. Name line followed by up to four "field only" lines
+ */
+export function extractGenericRows(text: string): ExtractedRow[] {
+  const lines = text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  const rows: ExtractedRow[] = [];
+  let header: Array<keyof typeof HEADER_KEYWORDS | null> | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const detectedHeader = detectHeader(line);
+    if (detectedHeader) {
+      header = detectedHeader;
+      continue;
+    }
+
+    if (header) {
+      const tableRow = parseTableRow(line, header, i);
+      if (tableRow) {
+        rows.push(tableRow);
+        continue;
+      }
+    }
+
+    const singleLine = parseResultRow(line, i);
+    if (singleLine) {
+      rows.push(singleLine);
+      continue;
+    }
+
+    if (!isNameOnlyLine(line)) continue;
+
+    // Keep absorbing field lines so a trailing unit or flag line is not lost
+    let best: { row: ExtractedRow; span: number } | null = null;
+    for (let span = 1; span <= 4 && i + span < lines.length; span++) {
+      if (!isFieldOnlyLine(lines[i + span])) break;
+
+      const merged = lines.slice(i, i + span + 1).join(' ');
+      const multiLine = parseResultRow(merged, i);
+      if (multiLine) best = { row: multiLine, span };
+    }
+
+    if (best) {
+      rows.push({ ...best.row, sourceText: lines.slice(i, i + best.span + 1).join('\n') });
+      i += best.span;
+    }
+  }
+
+  return dedupeRows(rows);
+}
+
+/**
+ * WHY: Names can hold numbers of their own ("Vitamin D, 25-Hydroxy",
+ * "Omega-3 Index"), so the name can't simply end at the first number.
+ * Every place it could end is tried, latest first, and the first one that
+ * leaves a complete row wins. A name may not contain a standalone number
+ * after its first word, so a value followed by another number (a previous
+ * result column) never becomes part of it.
+ */
+function parseNumericRow(normalized: string, isTiter: boolean): ParsedRow | null {
+  const splits = [...normalized.matchAll(NAME_END_PATTERN)].reverse();
+
+  for (const split of splits) {
+    const name = normalized.slice(0, split.index).replace(/[.:\s]+$/, '').trim();
+    if (!/[A-Za-z]/.test(name) || !isPlausibleName(name)) continue;
+    if (name.split(/\s+/).slice(1).some(word => STANDALONE_NUMBER_PATTERN.test(word))) continue;
+
+    const row = parseNumericFields(name, normalized.slice(split.index + split[0].length), isTiter);
+    if (row) return row;
+  }
+
+  return null;
+}
+
+function parseNumericFields(name: string, rest: string, isTiter: boolean): ParsedRow | null {
+
+  // "<0.5 mg/L" - the value itself is a bound, so any later "<x" is the range
+  let censored: ParsedValue | null = null;
+  const censoredMatch = rest.match(CENSORED_VALUE_PATTERN);
+  if (censoredMatch && isCensoredValue(rest, censoredMatch)) {
+    censored = toParsedValue(censoredMatch[2], censoredMatch[1], isTiter);
+    rest = removeMatch(rest, censoredMatch);
+  }
+
+  let referenceRange: ExtractedRow['referenceRange'] = null;
+  const rangeMatch = rest.match(RANGE_PATTERN);
+  if (rangeMatch && rangeMatch.index !== undefined) {
+    referenceRange = {
+      min: parseLabNumber(rangeMatch[1]),
+      max: parseLabNumber(rangeMatch[2]),
+    };
+    rest = removeMatch(rest, rangeMatch);
+  } else {
+    const oneSided = rest.match(ONE_SIDED_RANGE_PATTERN);
+    if (oneSided && (censored || hasValueOutside(rest, oneSided))) {
+      referenceRange = toOneSidedRange(oneSided);
+      rest = removeMatch(rest, oneSided);
+    }
+  }
+
+  let unit = '';
+  const unitMatch = rest.match(UNIT_PATTERN);
+  if (unitMatch) {
+    unit = unitMatch[0].replace(/\s+/g, '');
+    rest = removeMatch(rest, unitMatch);
+  }
+
+  let flag: string | undefined;
+  const flagMatch = rest.match(FLAG_PATTERN);
+  if (flagMatch) {
+    flag = flagMatch[1];
+    rest = removeMatch(rest, flagMatch);
+  }
+
+  const valueMatch = censored ? null : rest.match(VALUE_PATTERN);
+  const parsedValue = censored ?? (valueMatch ? toParsedValue(valueMatch[1], undefined, isTiter) : null);
+  if (!parsedValue) return null;
+
+  // A bare "name number" line is too ambiguous (ages, page numbers, IDs)
+  if (!unit && !referenceRange && !isTiter) return null;
+
+  return {
+    name,
+    ...parsedValue,
+    unit: unit || (isTiter ? 'titer' : ''),
+    referenceRange,
+    flag,
+  };
+}
+
+/**
+ * Parses "HIV 1/2 Ab  Non-Reactive  Non-Reactive" style rows
+ *
+ * WHY: Qualitative terms also appear in prose ("results were negative"),
+ * so the row is only accepted when nothing but an expected term, flag,
+ * unit or reference label follows the result.
+ */
+function parseQualitativeRow(normalized: string): ParsedRow | null {
+  const match = normalized.match(QUALITATIVE_ROW_PATTERN);
+  if (!match) return null;
+
+  const name = match[1].replace(/[.:\s]+$/, '').trim();
+  if (!isPlausibleName(name)) return null;
+
+  let rest = match[3].replace(REFERENCE_LABEL_PATTERN, ' ').trim();
+
+  let expectedQualitative: string | undefined;
+  const expectedMatch = rest.match(QUALITATIVE_CELL_PATTERN);
+  if (expectedMatch) {
+    expectedQualitative = normalizeQualitative(expectedMatch[1]) ?? undefined;
+    rest = removeMatch(rest, expectedMatch);
+  }
+
+  let flag: string | undefined;
+  const flagMatch = rest.match(FLAG_PATTERN);
+  if (flagMatch) {
+    flag = flagMatch[1];
+    rest = removeMatch(rest, flagMatch);
+  }
+
+  let unit = '';
+  const unitMatch = rest.match(UNIT_PATTERN);
+  if (unitMatch) {
+    unit = unitMatch[0].replace(/\s+/g, '');
+    rest = removeMatch(rest, unitMatch);
+  }
+
+  if (rest.replace(/[()[\]]/g, '').trim()) return null;
+
+  return {
+    name,
+    value: null,
+    qualitativeValue: normalizeQualitative(match[2]) ?? match[2],
+    valueText: match[2],
+    expectedQualitative,
+    unit,
+    referenceRange: null,
+    flag,
+  };
+}
+
+/**
+ * Splits a line into table cells on tabs or runs of 2+ spaces
+ */
+function splitCells(line: string): string[] {
+  return line.split(/\t|\s{2,}/).map(cell => cell.trim()).filter(Boolean);
+}
+
+function detectHeader(line: string): Array<keyof typeof HEADER_KEYWORDS | null> | null {
+  const cells = splitCells(line);
+  if (cells.length < 3) return null;
+
+  const columns = cells.map(cell => {
+    const entry = Object.entries(HEADER_KEYWORDS).find(([, pattern]) => pattern.test(cell));
+    return entry ? (entry[0] as keyof typeof HEADER_KEYWORDS) : null;
+  });
+
+  const recognised = columns.filter(Boolean).length;
+  return recognised >= 3 && columns.includes('name') && columns.includes('value')
+    ? columns
+    : null;
+}
+
+/**
+ * Re-orders table cells to "name value unit range flag" and parses that
+ */
+function parseTableRow(
+  line: string,
+  header: Array<keyof typeof HEADER_KEYWORDS | null>,
+  lineIndex: number,
+): ExtractedRow | null {
+  const cells = splitCells(line);
+  if (cells.length !== header.length) return null;
+
+  const cellFor = (column: keyof typeof HEADER_KEYWORDS) => {
+    const index = header.indexOf(column);
+    return index >= 0 ? cells[index] : '';
+  };
+
+  const ordered = ['name', 'value', 'unit', 'range', 'flag']
+    .map(column => cellFor(column as keyof typeof HEADER_KEYWORDS))
+    .filter(Boolean)
+    .join(' ');
+
+  const row = parseResultRow(ordered, lineIndex);
+  return row ? { ...row, sourceText: line } : null;
+}
+
+function isPlausibleName(name: string): boolean {
+  if (name.length < 2 || name.length > 60) return false;
+  if (name.split(/\s+/).length > 8) return false;
+  if (METADATA_NAMES.test(name)) return false;
+  return /[A-Za-z]{2,}|^[A-Z][a-z]?\d/.test(name);
+}
+
+function isNameOnlyLine(line: string): boolean {
+  const words = line.split(/\s+/);
+  return /^[A-Za-z][A-Za-z0-9 ,()'\-/.]*$/.test(line)
+    && !words.some(word => /^[-+]?\d+(?:[.,]\d+)?$/.test(word))
+    && words.length <= 6
+    && !QUALITATIVE_ONLY_PATTERN.test(line)
+    && isPlausibleName(line);
+}
+
+function isFieldOnlyLine(line: string): boolean {
+  const normalized = normalizeRowText(line);
+  if (/^[(<>≤≥]?\s*[-+]?\d/.test(normalized)) return true;
+  const unitOnly = normalized.match(UNIT_PATTERN);
+  if (unitOnly && unitOnly[0].length === normalized.length) return true;
+  if (QUALITATIVE_ONLY_PATTERN.test(normalized)) return true;
+  return FLAG_PATTERN.test(` ${normalized}`) && normalized.length <= 8;
+}
+
+function toOneSidedRange(match: RegExpMatchArray): ExtractedRow['referenceRange'] {
+  const bound = parseLabNumber(match[2]);
+  return match[1].startsWith('<') || match[1] === '≤'
+    ? { min: null, max: bound }
+    : { min: bound, max: null };
+}
+
+/**
+ * "<0.5 mg/L 0.0-1.0" starts with a censored value; "<200 180 H" starts
+ * with a one-sided range printed before the value. Only the first form
+ * has no other value once the range is set aside.
+ */
+function isCensoredValue(text: string, match: RegExpMatchArray): boolean {
+  const remainder = removeMatch(text, match);
+  const rangeMatch = remainder.match(RANGE_PATTERN);
+  return !VALUE_PATTERN.test(rangeMatch ? removeMatch(remainder, rangeMatch) : remainder);
+}
+
+/**
+ * Rewrites titers ("1:160") as their dilution denominator so the numeric
+ * row logic applies unchanged
+ */
+function stripTiters(text: string): { text: string; isTiter: boolean } {
+  const stripped = text.replace(TITER_PATTERN, '$1$2');
+  return { text: stripped, isTiter: stripped !== text };
+}
+
+function toParsedValue(rawNumber: string, rawComparator: string | undefined, isTiter: boolean): ParsedValue {
+  const value = parseLabNumber(rawNumber);
+  const parsed: ParsedValue = { value };
+
+  const comparator = rawComparator ? toComparator(rawComparator) : undefined;
+  if (comparator) parsed.comparator = comparator;
+  if (comparator || isTiter) {
+    parsed.valueText = `${comparator ?? ''}${isTiter ? `1:${value}` : rawNumber}`;
+  }
+
+  return parsed;
+}
+
+function toComparator(raw: string): ResultComparator {
+  if (raw === '≤') return '<=';
+  if (raw === '≥') return '>=';
+  return raw as ResultComparator;
+}
+
+function hasValueOutside(text: string, match: RegExpMatchArray): boolean {
+  return VALUE_PATTERN.test(removeMatch(text, match));
+}
+
+function removeMatch(text: string, match: RegExpMatchArray): string {
+  const start = match.index ?? 0;
+  return `${text.slice(0, start)} ${text.slice(start + match[0].length)}`.trim();
+}
+
+function dedupeRows(rows: ExtractedRow[]): ExtractedRow[] {
+  const seen = new Set<string>();
+  return rows.filter(row => {
+    const key = `${row.name.toLowerCase()}|${row.comparator ?? ''}${row.value ?? row.qualitativeValue}|${row.unit}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
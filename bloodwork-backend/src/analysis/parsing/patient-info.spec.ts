@@ -0,0 +1,87 @@
+import { PatientInfo } from '../../common/entities/bloodwork-result.entity';
+import { BiologicalSex, UserProfile } from '../../common/entities/user-profile.entity';
+import { checkPatientIdentity, extractPatientInfo } from './patient-info';
+
+const REPORT = [
+  'Riverside Pathology Laboratory',
+  'Patient Name: DOE, JANE A     DOB: 03/15/1985',
+  'Sex: F   MRN: 00123456',
+  'Accession No: A24-998877',
+  'Ordering Physician: SMITH, JOHN MD   Collected: 07/31/2025',
+].join('\n');
+
+function profile(overrides: Partial<UserProfile>): UserProfile {
+  return {
+    userId: 'user',
+    fullName: null,
+    birthDate: null,
+    sex: null,
+    pregnant: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('extractPatientInfo', () => {
+  it('should read the labelled patient block', () => {
+    expect(extractPatientInfo(REPORT, '1985-03-15')).toEqual({
+      name: 'Jane A Doe',
+      birthDate: '1985-03-15',
+      sex: BiologicalSex.FEMALE,
+      mrn: '00123456',
+      accessionNumber: 'A24-998877',
+      orderingPhysician: 'John Smith, MD',
+      labName: 'Riverside Pathology Laboratory',
+    });
+  });
+
+  it('should read the sex from an age/sex field', () => {
+    expect(extractPatientInfo('Age/Sex: 45/M', null).sex).toBe(BiologicalSex.MALE);
+    expect(extractPatientInfo('Age / Gender: 45 Y / Female', null).sex).toBe(BiologicalSex.FEMALE);
+  });
+
+  it('should keep mixed-case names as printed and re-case upper-case ones', () => {
+    expect(extractPatientInfo('Patient: Mary-Ann O\'Brien', null).name).toBe('Mary-Ann O\'Brien');
+    expect(extractPatientInfo('Patient Name: O\'BRIEN, MARY-ANN', null).name).toBe('Mary-Ann O\'Brien');
+  });
+
+  it('should prefer the template lab, then known labs', () => {
+    expect(extractPatientInfo(REPORT, null, 'Labcorp').labName).toBe('Labcorp');
+    expect(extractPatientInfo('Quest Diagnostics Incorporated\nPatient: Doe, Jane', null).labName).toBe('Quest Diagnostics');
+  });
+
+  it('should leave fields that aren\'t printed empty', () => {
+    expect(extractPatientInfo('Glucose 92 mg/dL 70-99', null)).toEqual({
+      name: null,
+      birthDate: null,
+      sex: null,
+      mrn: null,
+      accessionNumber: null,
+      orderingPhysician: null,
+      labName: null,
+    });
+  });
+});
+
+describe('checkPatientIdentity', () => {
+  const patient: PatientInfo = extractPatientInfo(REPORT, '1985-03-15');
+
+  it('should match names regardless of order and middle initials', () => {
+    const owner = profile({ fullName: 'Jane Doe', birthDate: '1985-03-15', sex: BiologicalSex.FEMALE });
+
+    expect(checkPatientIdentity(patient, owner)).toEqual({ status: 'match', mismatchedFields: [] });
+  });
+
+  it('should list the fields that differ', () => {
+    const partner = profile({ fullName: 'Alex Roe', birthDate: '1983-11-02', sex: BiologicalSex.MALE });
+
+    expect(checkPatientIdentity(patient, partner)).toEqual({ status: 'mismatch', mismatchedFields: ['name', 'birthDate', 'sex'] });
+  });
+
+  it('should only compare fields present on both sides', () => {
+    expect(checkPatientIdentity(patient, profile({ fullName: 'Jane Doe' }))).toEqual({ status: 'match', mismatchedFields: [] });
+    expect(checkPatientIdentity(patient, profile({}))).toEqual({ status: 'unverified', mismatchedFields: [] });
+    expect(checkPatientIdentity(patient, null)).toEqual({ status: 'unverified', mismatchedFields: [] });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Patient Info - Structured patient block and identity matching
+ *
+ * WHY: Reports print who the specimen belongs to, who ordered it and which
+ * lab ran it. The parser used to keep only an upper-case name capture (and
+ * the processor threw even that away). These details are now stored on the
+ * result, and the patient is compared with the uploading user's profile so
+ * a report that belongs to someone else - a partner's, a parent's - isn't
+ * silently mixed into the user's own history and reference ranges.
+ *
+ * FUNCTIONALITY:
+ * - Reads name, sex, MRN, accession number, ordering physician and lab name
+ *   from labelled fields (the birth date comes from report-dates.ts)
+ * - Compares name, birth date and sex with the user's profile
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * PdfParserService -> extractPatientInfo() -> BloodworkResult.patientInfo
+ * AnalysisProcessor -> checkPatientIdentity() -> BloodworkResult.identityCheck
+ */
+
+import { IdentityCheck, PatientInfo } from '../../common/entities/bloodwork-result.entity';
+import { BiologicalSex, UserProfile } from '../../common/entities/user-profile.entity';
+
+/**
+ * Any label that can follow a value on the same line - a value stops there
+ */
+const NEXT_LABEL = String.raw`(?=\s{2,}|\s*\||\s+(?:DOB|D\.O\.B|Date\s+of\s+Birth|Birth\s*Date|Sex|Gender|Age|MRN|Patient\s+ID|Accession|Specimen|Physician|Doctor|Ordered|Ordering|Collected|Received|Reported|Phone|Account)\b|$)`;
+
+const NAME_VALUE = String.raw`([A-Za-z][A-Za-z'.\-]*(?:,?\s[A-Za-z][A-Za-z'.\-]*){0,4})`;
+const ID_VALUE = String.raw`([A-Z0-9][A-Z0-9\-]{3,})`;
+
+const FIELD_PATTERNS = {
+  name: [
+    new RegExp(String.raw`\bPatient\s*Name\s*[:\-]?\s*${NAME_VALUE}${NEXT_LABEL}`, 'im'),
+    new RegExp(String.raw`\bPatient\s*:\s*${NAME_VALUE}${NEXT_LABEL}`, 'im'),
+    new RegExp(String.raw`^\s*Name\s*:\s*${NAME_VALUE}${NEXT_LABEL}`, 'im'),
+  ],
+  sex: [
+    /\b(?:Sex|Gender)\s*[:-]?\s*(Male|Female|M|F)\b/i,
+    // "Age/Sex: 45/F", "Age / Gender: 45 Y / Female"
+    /\bAge\s*\/\s*(?:Sex|Gender)\s*[:-]?\s*\d+\s*(?:Y(?:ears?|rs?)?)?\s*\/\s*(Male|Female|M|F)\b/i,
+  ],
+  mrn: [
+    new RegExp(String.raw`\b(?:MRN|Medical\s+Record\s+(?:No\.?|Number|#)|Patient\s+ID|Chart\s+(?:No\.?|#))\s*[:#]?\s*${ID_VALUE}`, 'i'),
+  ],
+  accessionNumber: [
+    new RegExp(String.raw`\b(?:Accession(?:\s+(?:No\.?|Number|#))?|Specimen(?:\s+(?:ID|No\.?|Number|#))?|Requisition(?:\s+(?:No\.?|Number|#))?)\s*[:#]\s*${ID_VALUE}`, 'i'),
+  ],
+  orderingPhysician: [
+    new RegExp(
+      String.raw`\b(?:Ordering\s+(?:Physician|Provider|Doctor)|Ordered\s+By|Referring\s+(?:Physician|Doctor)|Physician|Doctor)\s*[:\-]\s*((?:Dr\.?\s+)?${NAME_VALUE.slice(1, -1)}(?:,?\s*(?:MD|DO|NP|PA|MBBS))?)${NEXT_LABEL}`,
+      'im',
+    ),
+  ],
+};
+
+/**
+ * Lab names recognised anywhere in the report when no template matched
+ */
+const KNOWN_LABS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'Quest Diagnostics', pattern: /Quest\s+Diagnostics/i },
+  { name: 'Labcorp', pattern: /Lab\s*corp|Laboratory\s+Corporation\s+of\s+America/i },
+  { name: 'BioReference', pattern: /BioReference/i },
+  { name: 'ARUP Laboratories', pattern: /\bARUP\b/ },
+  { name: 'Mayo Clinic Laboratories', pattern: /Mayo\s+Clinic\s+Laboratories/i },
+  { name: 'Sonic Healthcare', pattern: /Sonic\s+Healthcare/i },
+];
+
+/**
+ * A line that names a lab: "Riverside Pathology Laboratory", "Acme Diagnostics"
+ */
+const LAB_NAME_LINE = /^\s*([A-Z][A-Za-z&.'\- ]{2,60}\s(?:Laborator(?:y|ies)|Diagnostics|Pathology|Medical\s+Lab(?:oratory)?|Lab))\b/m;
+
+/**
+ * Reads the patient block of a report
+ *
+ * @param birthDate - read by extractReportDates, which knows the report's date order
+ * @param templateLabName - lab name of the matched template, if any
+ */
+export function extractPatientInfo(text: string, birthDate: string | null, templateLabName?: string): PatientInfo {
+  const sex = firstMatch(text, FIELD_PATTERNS.sex);
+
+  return {
+    name: formatPersonName(firstMatch(text, FIELD_PATTERNS.name)),
+    birthDate,
+    sex: sex ? (/^f/i.test(sex) ? BiologicalSex.FEMALE : BiologicalSex.MALE) : null,
+    mrn: firstMatch(text, FIELD_PATTERNS.mrn),
+    accessionNumber: firstMatch(text, FIELD_PATTERNS.accessionNumber),
+    orderingPhysician: formatPersonName(firstMatch(text, FIELD_PATTERNS.orderingPhysician)),
+    labName: templateLabName ?? KNOWN_LABS.find(lab => lab.pattern.test(text))?.name ?? LAB_NAME_LINE.exec(text)?.[1].trim() ?? null,
+  };
+}
+
+/**
+ * Compares the report's patient with the uploading user's profile
+ *
+ * RULES:
+ * - Names match when they share a name token ("SMITH, JOHN A" vs "John
+ *   Smith"), so middle names, initials and name order don't matter
+ * - Birth date and sex must be equal
+ * - Only fields present on both sides are compared
+ */
+export function checkPatientIdentity(patient: PatientInfo, profile: UserProfile | null): IdentityCheck {
+  const compared: Array<{ field: IdentityCheck['mismatchedFields'][number]; matches: boolean }> = [];
+
+  if (patient.name && profile?.fullName) {
+    const profileTokens = new Set(nameTokens(profile.fullName));
+    compared.push({ field: 'name', matches: nameTokens(patient.name).some(token => profileTokens.has(token)) });
+  }
+  if (patient.birthDate && profile?.birthDate) {
+    compared.push({ field: 'birthDate', matches: patient.birthDate === profile.birthDate });
+  }
+  if (patient.sex && profile?.sex) {
+    compared.push({ field: 'sex', matches: patient.sex === profile.sex });
+  }
+
+  const mismatchedFields = compared.filter(comparison => !comparison.matches).map(comparison => comparison.field);
+  const status = compared.length === 0 ? 'unverified' : mismatchedFields.length > 0 ? 'mismatch' : 'match';
+
+  return { status, mismatchedFields };
+}
+
+function firstMatch(text: string, patterns: RegExp[]): string | null {
+  for (const pattern of patterns) {
+    const value = pattern.exec(text)?.[1]?.trim();
+    if (value) return value;
+  }
+  return null;
+}
+
+/**
+ * "DOE, JANE A" -> "Jane A Doe", "SMITH, JOHN MD" -> "John Smith, MD";
+ * mixed-case names are kept as printed
+ */
+function formatPersonName(raw: string | null): string | null {
+  if (!raw) return null;
+
+  const credential = /,?\s*\b(MD|DO|NP|PA|MBBS)\.?$/i.exec(raw);
+  const bare = credential ? raw.slice(0, credential.index) : raw;
+  const [last, first] = bare.split(',').map(part => part.trim());
+  const ordered = (first ? `${first} ${last}` : bare).replace(/\s+/g, ' ').trim();
+  const cased = ordered === ordered.toUpperCase()
+    ? ordered.toLowerCase().replace(/(^|[\s'-])([a-z])/g, (_, separator: string, letter: string) => separator + letter.toUpperCase())
+    : ordered;
+
+  return credential ? `${cased}, ${credential[1].toUpperCase()}` : cased;
+}
+
+/**
+ * Lower-case name parts, ignoring initials and titles
+ */
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .split(/[^a-z'-]+/)
+    .filter(token => token.length > 1 && !['dr', 'mr', 'mrs', 'ms', 'jr', 'sr'].includes(token));
+}
@@ -0,0 +1,78 @@
+import { DateExtractionOptions, extractReportDates } from './report-dates';
+
+const options: DateExtractionOptions = {
+  defaultDateOrder: 'DMY',
+  timeZone: 'UTC',
+  now: new Date('2026-01-10T12:00:00Z'),
+};
+
+describe('extractReportDates', () => {
+  it('should read a US date with a time and zone', () => {
+    const dates = extractReportDates('Collected: 07/31/2025 08:15 AM EDT\nReported: 08/01/2025', options);
+
+    expect(dates.collectedAt).toBe('2025-07-31T12:15:00.000Z');
+    expect(dates.reportedAt).toBe('2025-08-01');
+    expect(dates.testDate).toBe('2025-07-31T12:15:00.000Z');
+    expect(dates.dateGuessed).toBe(false);
+  });
+
+  it('should read a day-first date', () => {
+    const dates = extractReportDates('Date of Collection: 31/07/2025', options);
+
+    expect(dates.collectedAt).toBe('2025-07-31');
+    expect(dates.dateGuessed).toBe(false);
+  });
+
+  it('should read month names and ISO dates', () => {
+    expect(extractReportDates('Collected: 5 Mar 2025', options).collectedAt).toBe('2025-03-05');
+    expect(extractReportDates('Collected: Mar 5, 2025', options).collectedAt).toBe('2025-03-05');
+    expect(extractReportDates('Collected: 2025-03-05', options).collectedAt).toBe('2025-03-05');
+  });
+
+  it('should settle an ambiguous order from another date in the report', () => {
+    expect(extractReportDates('Collected: 03/04/2025\nReported: 03/14/2025', options).collectedAt).toBe('2025-03-04');
+    expect(extractReportDates('Collected: 03/04/2025\nReported: 14/04/2025', options).collectedAt).toBe('2025-04-03');
+  });
+
+  it('should settle an ambiguous order from the lab, chronology or locale', () => {
+    expect(extractReportDates('Collected: 03/04/2025', { ...options, labDateOrder: 'MDY' }).collectedAt).toBe('2025-03-04');
+    // Day-first would put the report before the collection
+    expect(extractReportDates('Collected: 03/04/2025\nReported: 04/03/2025', options).collectedAt).toBe('2025-03-04');
+    expect(extractReportDates('Collected: 03/04/2025\nNHS Trust', { ...options, defaultDateOrder: 'MDY' }).collectedAt).toBe('2025-04-03');
+  });
+
+  it('should flag a date it had to guess', () => {
+    const dates = extractReportDates('Collected: 03/04/2025', options);
+
+    expect(dates.collectedAt).toBe('2025-04-03');
+    expect(dates.dateGuessed).toBe(true);
+  });
+
+  it('should convert wall-clock times in the lab time zone, daylight saving included', () => {
+    const newYork = { ...options, timeZone: 'America/New_York' };
+
+    expect(extractReportDates('Collected: 2025-01-15 08:00', newYork).collectedAt).toBe('2025-01-15T13:00:00.000Z');
+    expect(extractReportDates('Collected: 2025-07-15 08:00', newYork).collectedAt).toBe('2025-07-15T12:00:00.000Z');
+    expect(extractReportDates('Collected: 2025-07-15 17:30', { ...options, timeZone: 'Europe/London' }).collectedAt).toBe('2025-07-15T16:30:00.000Z');
+  });
+
+  it('should keep birth and print dates out of the test date', () => {
+    const dates = extractReportDates('DOB: 01/02/1980\nPrinted: 20/03/2025\nCollected: 15/03/2025', options);
+
+    expect(dates.testDate).toBe('2025-03-15');
+    expect(dates.birthDate).toBe('1980-02-01');
+  });
+
+  it('should label dates printed under a header line', () => {
+    const dates = extractReportDates('Collected      Received      Reported\n07/30/2025     07/31/2025    08/01/2025', options);
+
+    expect(dates).toMatchObject({ collectedAt: '2025-07-30', receivedAt: '2025-07-31', reportedAt: '2025-08-01' });
+  });
+
+  it('should fall back to today when the report has no date', () => {
+    const dates = extractReportDates('Glucose 92 mg/dL 70-99', { ...options, timeZone: 'Pacific/Auckland' });
+
+    expect(dates.testDate).toBe('2026-01-11');
+    expect(dates.dateGuessed).toBe(true);
+  });
+});
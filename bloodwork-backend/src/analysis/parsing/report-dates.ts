@@ -0,0 +1,404 @@
+/**
+ * Report Dates - Labelled collection / received / reported timestamps
+ *
+ * WHY: The parser used to take the first date-like string anywhere in the
+ * report, read it as DD/MM/YYYY and fall back to today. A birth date or
+ * print date often came first, and a US report's 07/31/2025 became a date
+ * in 2027. Trends and age-specific ranges both depend on when the blood was
+ * drawn, so dates are now read from their labels, the day/month order is
+ * worked out from the whole report, and a date we had to guess is flagged.
+ *
+ * FUNCTIONALITY:
+ * - Finds dates next to collected / received / reported labels (same line
+ *   or the line below), keeping birth and print dates out of testDate
+ * - Reads numeric, ISO and month-name dates with an optional time and
+ *   time zone abbreviation
+ * - Resolves MM/DD vs DD/MM from unambiguous dates in the report, the lab's
+ *   locale, chronology (collected before reported, nothing in the future),
+ *   then locale cues in the text, then the configured default
+ * - Converts lab wall-clock times to UTC
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * PdfParserService -> extractReportDates() -> BloodworkResult.testDate,
+ * collectedAt, receivedAt, reportedAt, dateGuessed
+ */
+
+/**
+ * Day/month order of numeric dates (year-first dates are always Y-M-D)
+ */
+export type DateOrder = 'MDY' | 'DMY';
+
+export type ReportDateKind = 'collected' | 'received' | 'reported';
+
+export interface ReportDates {
+  /**
+   * ISO timestamps (UTC) when a time was printed, otherwise ISO dates (YYYY-MM-DD)
+   */
+  collectedAt: string | null;
+  receivedAt: string | null;
+  reportedAt: string | null;
+  /**
+   * Collection date, else received / reported / an unlabelled date, else today
+   */
+  testDate: string;
+  /**
+   * Patient date of birth (YYYY-MM-DD), when printed
+   */
+  birthDate: string | null;
+  /**
+   * True when testDate isn't a labelled collection date read unambiguously
+   */
+  dateGuessed: boolean;
+}
+
+export interface DateExtractionOptions {
+  /**
+   * Order used by the detected lab template, if any
+   */
+  labDateOrder?: DateOrder;
+  /**
+   * Order assumed when nothing in the report decides it
+   */
+  defaultDateOrder: DateOrder;
+  /**
+   * IANA zone for printed times without a zone (e.g. "America/New_York")
+   */
+  timeZone: string;
+  now?: Date;
+}
+
+type DateLabelKind = ReportDateKind | 'birth' | 'excluded';
+
+const LABELS: Array<{ kind: DateLabelKind; pattern: RegExp }> = [
+  // Never the test date
+  { kind: 'birth', pattern: /\b(?:DOB|D\.O\.B\.?|date\s+of\s+birth|birth\s*date|born)\b/gi },
+  { kind: 'excluded', pattern: /\b(?:printed|print\s+date|date\s+printed)\b/gi },
+  {
+    kind: 'collected',
+    pattern: /\b(?:collect(?:ed|ion)(?:\s+date)?|date\s+(?:of\s+)?collection|(?:specimen|sample)\s+(?:date|collected|taken|drawn)|date\s+drawn|drawn|draw\s+date)\b/gi,
+  },
+  { kind: 'received', pattern: /\b(?:received|date\s+received|rec'?d|accessioned)\b/gi },
+  { kind: 'reported', pattern: /\b(?:reported|report(?:ed)?\s+(?:date|on)|date\s+reported|resulted|released)\b/gi },
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = String.raw`(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sept?|Oct|Nov|Dec)[a-z]*\.?`;
+
+const DATE_PATTERNS: Array<{ pattern: RegExp; read: (match: RegExpExecArray) => DateParts }> = [
+  {
+    // 2025-07-31 (checked first so its digits aren't read as D-M-Y)
+    pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})(?!\d)/g,
+    read: match => ({ year: +match[1], first: +match[2], second: +match[3], yearFirst: true }),
+  },
+  {
+    // 31/07/2025, 07-31-25, 31.07.2025
+    // Same separator twice, so a range like "10.5-12.25" isn't read as a date
+    pattern: /(?<![\d.])\b(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})(?![\d/.-]\d)/g,
+    read: match => ({ year: +match[4], first: +match[1], second: +match[3], shortYear: match[4].length === 2 }),
+  },
+  {
+    // 31 Jul 2025, 31-Jul-2025
+    pattern: new RegExp(String.raw`\b(\d{1,2})[\s-]+${MONTH_NAME}[\s-,]+(\d{4})\b`, 'gi'),
+    read: match => ({ year: +match[3], month: monthNumber(match[2]), day: +match[1] }),
+  },
+  {
+    // Jul 31, 2025
+    pattern: new RegExp(String.raw`\b${MONTH_NAME}\s+(\d{1,2}),?\s+(\d{4})\b`, 'gi'),
+    read: match => ({ year: +match[3], month: monthNumber(match[1]), day: +match[2] }),
+  },
+];
+
+const TIME = String.raw`(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp]\.?[Mm]\.?)?(?:\s*\(?(UTC|GMT|[ECMP][SD]T|BST|CES?T|AES?T|AEDT)\)?)?`;
+const TIME_AFTER = new RegExp(String.raw`^\s*(?:at\s+|@\s*)?${TIME}`);
+const TIME_BEFORE = new RegExp(String.raw`${TIME}\s*$`);
+
+/**
+ * Offsets (minutes) for zone abbreviations printed on US, UK, EU and AU reports
+ */
+const ZONE_OFFSETS: Record<string, number> = {
+  UTC: 0, GMT: 0, BST: 60, CET: 60, CEST: 120,
+  EST: -300, EDT: -240, CST: -360, CDT: -300, MST: -420, MDT: -360, PST: -480, PDT: -420,
+  AEST: 600, AEDT: 660,
+};
+
+/**
+ * Mentions that tell us which side of the Atlantic a report is from
+ */
+const MDY_LOCALE_CUES = [/\bUSA\b|\bUnited States\b/, /\b[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/, /\bCLIA\b/];
+const DMY_LOCALE_CUES = [/\bNHS\b|\bUnited Kingdom\b|\bAustralia\b|\bNew Zealand\b|\bIreland\b|\bIndia\b|\bSouth Africa\b/i, /\b[A-Z]{1,2}\d[A-Z\d]?\s+\d[A-Z]{2}\b/];
+
+interface DateParts {
+  year: number;
+  /**
+   * Numeric dates: the two day/month fields in printed order
+   */
+  first?: number;
+  second?: number;
+  yearFirst?: boolean;
+  shortYear?: boolean;
+  month?: number;
+  day?: number;
+}
+
+interface DateCandidate {
+  kind: DateLabelKind | null;
+  /**
+   * 0-based line of the text the date is printed on
+   */
+  line: number;
+  parts: DateParts;
+  time?: { hour: number; minute: number; second: number; offsetMinutes?: number };
+}
+
+/**
+ * Reads the labelled dates of a report
+ */
+export function extractReportDates(text: string, options: DateExtractionOptions): ReportDates {
+  const now = options.now ?? new Date();
+  const timeZone = isValidTimeZone(options.timeZone) ? options.timeZone : 'UTC';
+  const candidates = findDateCandidates(text);
+  const { order, decided } = resolveDateOrder(text, candidates, options, now, timeZone);
+
+  const labelled = (kind: DateLabelKind) => candidates.find(candidate => candidate.kind === kind);
+  const toIso = (candidate: DateCandidate | undefined) => (candidate ? formatCandidate(candidate, order, now, timeZone) : null);
+
+  const collected = labelled('collected');
+  const collectedAt = toIso(collected);
+  const receivedAt = toIso(labelled('received'));
+  const reportedAt = toIso(labelled('reported'));
+  const birth = labelled('birth');
+  const unlabelled = toIso(candidates.find(candidate => candidate.kind === null && formatCandidate(candidate, order, now, timeZone)));
+
+  const testDate = collectedAt ?? receivedAt ?? reportedAt ?? unlabelled ?? localDate(now, timeZone);
+  const ambiguous = collected ? isAmbiguous(collected.parts) && !decided : true;
+
+  return {
+    collectedAt,
+    receivedAt,
+    reportedAt,
+    testDate,
+    birthDate: birth ? toIso({ ...birth, time: undefined }) : null,
+    dateGuessed: !collectedAt || ambiguous,
+  };
+}
+
+/**
+ * Where each collection date is printed - used to split documents that hold several reports
+ *
+ * The key identifies the date as printed (before day/month order is
+ * settled), so the repeated page headers of one report share a key.
+ */
+export function findCollectionDates(text: string): Array<{ line: number; key: string }> {
+  return findDateCandidates(text)
+    .filter(candidate => candidate.kind === 'collected')
+    .map(candidate => ({ line: candidate.line, key: JSON.stringify(candidate.parts) }));
+}
+
+/**
+ * Every date in the report, with the label it belongs to
+ *
+ * A date belongs to the nearest label before it on the same line. A line
+ * of labels alone ("Collected   Received   Reported") labels the dates on
+ * the next line in column order.
+ */
+function findDateCandidates(text: string): DateCandidate[] {
+  const candidates: DateCandidate[] = [];
+  let headerLabels: Array<DateCandidate['kind']> = [];
+
+  for (const [lineIndex, line] of text.split('\n').entries()) {
+    if (!line.trim()) continue;
+
+    const labels = LABELS.flatMap(({ kind, pattern }) =>
+      [...line.matchAll(pattern)].map(match => ({ kind, start: match.index, end: match.index + match[0].length })),
+    ).sort((a, b) => a.start - b.start);
+    const dates = findDatesInLine(line);
+
+    dates.forEach((date, index) => {
+      const label = labels.filter(label => label.end <= date.start).pop();
+      candidates.push({ kind: label?.kind ?? headerLabels[index] ?? null, line: lineIndex, parts: date.parts, time: date.time });
+    });
+
+    // Little besides the labels themselves ("Date Collected:") makes a header line
+    const labelLetters = labels.reduce((sum, label) => sum + line.slice(label.start, label.end).replace(/[^A-Za-z]/g, '').length, 0);
+    const isHeader = dates.length === 0 && labels.length > 0 && line.replace(/[^A-Za-z]/g, '').length - labelLetters <= 8 * labels.length;
+    headerLabels = isHeader ? labels.map(label => label.kind) : [];
+  }
+
+  return candidates;
+}
+
+function findDatesInLine(line: string): Array<{ start: number; parts: DateParts; time?: DateCandidate['time'] }> {
+  const found: Array<{ start: number; end: number; parts: DateParts }> = [];
+
+  for (const { pattern, read } of DATE_PATTERNS) {
+    for (const match of line.matchAll(pattern)) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (found.some(date => start < date.end && end > date.start)) continue;
+      found.push({ start, end, parts: read(match) });
+    }
+  }
+
+  // Times follow their date ("07/31/2025 08:15") or precede it ("17:58 31/07/2025");
+  // a time already taken by the previous date can't also precede the next one
+  let consumed = 0;
+  return found
+    .sort((a, b) => a.start - b.start)
+    .map(date => {
+      const after = TIME_AFTER.exec(line.slice(date.end));
+      const before = after ? null : TIME_BEFORE.exec(line.slice(consumed, date.start));
+      consumed = date.end + (after?.[0].length ?? 0);
+      const time = after ?? before;
+      return { start: date.start, parts: date.parts, time: time ? readTime(time) : undefined };
+    });
+}
+
+function readTime(match: RegExpExecArray): DateCandidate['time'] {
+  let hour = +match[1];
+  const meridiem = match[4]?.replace(/\./g, '').toLowerCase();
+  if (meridiem === 'pm' && hour < 12) hour += 12;
+  if (meridiem === 'am' && hour === 12) hour = 0;
+
+  return {
+    hour,
+    minute: +match[2],
+    second: match[3] ? +match[3] : 0,
+    offsetMinutes: match[5] ? ZONE_OFFSETS[match[5].toUpperCase()] : undefined,
+  };
+}
+
+/**
+ * Picks the day/month order for the report's numeric dates
+ *
+ * `decided` is false when only the configured default chose the order.
+ */
+function resolveDateOrder(
+  text: string,
+  candidates: DateCandidate[],
+  options: DateExtractionOptions,
+  now: Date,
+  timeZone: string,
+): { order: DateOrder; decided: boolean } {
+  // 1) A field above 12 can only be the day - every numeric date in a report shares one order
+  const numeric = candidates.filter(candidate => candidate.parts.first !== undefined && !candidate.parts.yearFirst);
+  const dayFirstVotes = numeric.filter(candidate => candidate.parts.first! > 12 && candidate.parts.second! <= 12).length;
+  const monthFirstVotes = numeric.filter(candidate => candidate.parts.second! > 12 && candidate.parts.first! <= 12).length;
+  if (dayFirstVotes !== monthFirstVotes) {
+    return { order: dayFirstVotes > monthFirstVotes ? 'DMY' : 'MDY', decided: true };
+  }
+
+  // 2) The lab's own convention
+  if (options.labDateOrder) {
+    return { order: options.labDateOrder, decided: true };
+  }
+
+  // 3) Chronology - only one order may give collected <= received <= reported, none in the future
+  const consistent = (['MDY', 'DMY'] as DateOrder[]).filter(order => isChronological(candidates, order, now, timeZone));
+  if (consistent.length === 1) {
+    return { order: consistent[0], decided: true };
+  }
+
+  // 4) Where the report comes from
+  const mdyCues = MDY_LOCALE_CUES.filter(pattern => pattern.test(text)).length;
+  const dmyCues = DMY_LOCALE_CUES.filter(pattern => pattern.test(text)).length;
+  if (mdyCues !== dmyCues) {
+    return { order: mdyCues > dmyCues ? 'MDY' : 'DMY', decided: true };
+  }
+
+  return { order: options.defaultDateOrder, decided: !numeric.some(candidate => isAmbiguous(candidate.parts)) };
+}
+
+function isChronological(candidates: DateCandidate[], order: DateOrder, now: Date, timeZone: string): boolean {
+  const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString();
+  const sequence = (['collected', 'received', 'reported'] as ReportDateKind[])
+    .map(kind => candidates.find(candidate => candidate.kind === kind))
+    .filter((candidate): candidate is DateCandidate => !!candidate)
+    .map(candidate => formatCandidate(candidate, order, now, timeZone));
+
+  if (sequence.some(date => date === null || date > tomorrow)) return false;
+  // Compare dates only - a date-only label and a timestamp on the same day are in order
+  const days = sequence.map(date => date!.slice(0, 10));
+  return days.every((day, index) => index === 0 || day >= days[index - 1]);
+}
+
+function isAmbiguous(parts: DateParts): boolean {
+  return parts.first !== undefined && !parts.yearFirst && parts.first <= 12 && parts.second! <= 12 && parts.first !== parts.second;
+}
+
+/**
+ * ISO timestamp (UTC) when a time is known, ISO date otherwise; null for impossible dates
+ */
+function formatCandidate(candidate: DateCandidate, order: DateOrder, now: Date, timeZone: string): string | null {
+  const { parts, time } = candidate;
+  const month = parts.month ?? (parts.yearFirst || order === 'MDY' ? parts.first! : parts.second!);
+  const day = parts.day ?? (parts.yearFirst || order === 'MDY' ? parts.second! : parts.first!);
+  const year = parts.shortYear ? expandYear(parts.year, now) : parts.year;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || month > 12 || date.getUTCDate() !== day || year < 1900) {
+    return null;
+  }
+
+  if (!time) {
+    return date.toISOString().slice(0, 10);
+  }
+
+  const wallClock = Date.UTC(year, month - 1, day, time.hour, time.minute, time.second);
+  const offset = time.offsetMinutes ?? zoneOffsetMinutes(wallClock, timeZone);
+  return new Date(wallClock - offset * 60 * 1000).toISOString();
+}
+
+/**
+ * "25" -> 2025; years more than a year ahead are last century ("98" -> 1998)
+ */
+function expandYear(shortYear: number, now: Date): number {
+  const century = Math.floor(now.getUTCFullYear() / 100) * 100;
+  return century + shortYear > now.getUTCFullYear() + 1 ? century - 100 + shortYear : century + shortYear;
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+/**
+ * Offset of an IANA zone at a wall-clock time, in minutes
+ *
+ * Computed at the wall-clock instant, then again at the corrected instant,
+ * so times near a daylight-saving change land on the right side of it.
+ */
+function zoneOffsetMinutes(wallClock: number, timeZone: string): number {
+  const offsetAt = (instant: number) => {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      })
+        .formatToParts(new Date(instant))
+        .map(part => [part.type, part.value]),
+    );
+    const local = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+    return Math.round((local - instant) / 60000);
+  };
+
+  const first = offsetAt(wallClock);
+  return offsetAt(wallClock - first * 60 * 1000);
+}
+
+function localDate(now: Date, timeZone: string): string {
+  return new Date(now.getTime() + zoneOffsetMinutes(now.getTime(), timeZone) * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
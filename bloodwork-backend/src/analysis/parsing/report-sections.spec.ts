@@ -0,0 +1,51 @@
+import { splitReportSections } from './report-sections';
+
+const MARCH_REPORT = [
+  'Riverside Pathology',
+  'Patient: Jane Doe',
+  'Collected: 01/03/2025',
+  'Glucose 92 mg/dL 70-99',
+  'Sodium 140 mmol/L 135-145',
+];
+
+const JUNE_REPORT = [
+  'Riverside Pathology',
+  'Patient: Jane Doe',
+  'Collected: 15/06/2025',
+  'Glucose 105 mg/dL 70-99 H',
+  'Sodium 138 mmol/L 135-145',
+];
+
+describe('splitReportSections', () => {
+  it('should split a history export at each collection date, header included', () => {
+    const sections = splitReportSections([...MARCH_REPORT, '', ...JUNE_REPORT].join('\n'));
+
+    expect(sections).toEqual([[...MARCH_REPORT, ''].join('\n'), JUNE_REPORT.join('\n')]);
+  });
+
+  it('should stop the header at the last result row when reports are not spaced', () => {
+    const sections = splitReportSections([...MARCH_REPORT, ...JUNE_REPORT].join('\n'));
+
+    expect(sections).toEqual([MARCH_REPORT.join('\n'), JUNE_REPORT.join('\n')]);
+  });
+
+  it('should not split where a page header repeats the same date', () => {
+    const text = [
+      ...MARCH_REPORT,
+      'Page 1 of 2',
+      'Riverside Pathology',
+      'Patient: Jane Doe',
+      'Collected: 01/03/2025',
+      'Potassium 4.2 mmol/L 3.5-5.1',
+    ].join('\n');
+
+    expect(splitReportSections(text)).toEqual([text]);
+  });
+
+  it('should keep a single report whole', () => {
+    const text = MARCH_REPORT.join('\n');
+
+    expect(splitReportSections(text)).toEqual([text]);
+    expect(splitReportSections('Glucose 92 mg/dL 70-99')).toEqual(['Glucose 92 mg/dL 70-99']);
+  });
+});
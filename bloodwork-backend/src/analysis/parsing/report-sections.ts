@@ -0,0 +1,71 @@
+/**
+ * Report Sections - Splits a document that holds several reports
+ *
+ * WHY: Lab portals let patients download their whole history as one PDF,
+ * one report after another. Parsed as a single report, every draw ends up
+ * under one test date and repeated analytes overwrite each other in trends.
+ * Each collection date now becomes its own section, parsed and stored as
+ * its own result.
+ *
+ * FUNCTIONALITY:
+ * - A new section starts where a different collection date is printed
+ * - The report header just above that date (patient block, lab name) goes
+ *   with the new section
+ * - Repeated page headers of the same report don't start a section
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * PdfParserService -> splitReportSections() -> one ParsedReport per section
+ * -> AnalysisProcessor -> one BloodworkResult per section, all on one job
+ */
+
+import { parseResultRow } from './generic-extractor';
+import { findCollectionDates } from './report-dates';
+
+/**
+ * How far above a collection date the report header may start
+ */
+const MAX_HEADER_LINES = 8;
+
+/**
+ * Splits report text at each change of collection date
+ *
+ * Documents with zero or one collection date come back as one section.
+ */
+export function splitReportSections(text: string): string[] {
+  const lines = text.split('\n');
+  const starts: number[] = [];
+  let currentKey: string | undefined;
+  let previousDateLine = -1;
+
+  for (const { line, key } of findCollectionDates(text)) {
+    if (currentKey !== undefined && key !== currentKey) {
+      starts.push(headerStart(lines, line, previousDateLine));
+    }
+    currentKey = key;
+    previousDateLine = line;
+  }
+
+  if (starts.length === 0) {
+    return [text];
+  }
+
+  return [0, ...starts].map((start, index) => lines.slice(start, starts[index] ?? lines.length).join('\n'));
+}
+
+/**
+ * First line of the header block that ends at a collection date
+ *
+ * Walks up until a blank line, a result row or the previous report's date.
+ */
+function headerStart(lines: string[], dateLine: number, previousDateLine: number): number {
+  let start = dateLine;
+  while (
+    start - 1 > previousDateLine &&
+    dateLine - start < MAX_HEADER_LINES &&
+    lines[start - 1].trim() &&
+    !parseResultRow(lines[start - 1])
+  ) {
+    start--;
+  }
+  return start;
+}
@@ -6,311 +6,440 @@
  */
 
 import { Injectable, Logger } from '@nestjs/common';
-import { TestResult } from '../common/entities/bloodwork-result.entity';
+import { ConfigService } from '@nestjs/config';
+import { PatientInfo, TestResult } from '../common/entities/bloodwork-result.entity';
+import {
+  ExtractedRow,
+  extractGenericRows,
+  GENERIC_EXTRACTOR_ID,
+  GENERIC_EXTRACTOR_VERSION,
+} from './parsing/generic-extractor';
+import { LabTemplateRegistry } from './templates/lab-template.registry';
+import { normalizeAnalyte } from '../common/clinical/analyte-catalogue';
+import { matchPanels, PanelCoverage, testTypeFromPanels } from '../common/clinical/panel-catalogue';
+import { calculateDerivedMarkers } from '../common/clinical/derived-markers';
+import { toCanonicalUnit } from '../common/clinical/unit-conversion';
+import { normalizeLabFlag, resolveTestStatus } from '../common/clinical/result-status';
+import { CriticalLimit } from '../common/clinical/critical-limits';
+import { applyReferenceRange, Demographics, toDemographics } from '../common/clinical/reference-ranges';
+import { UserProfile } from '../common/entities/user-profile.entity';
+import { UploadPage } from '../common/entities/upload.entity';
+import { OcrLine, OcrPage, OcrService } from './ocr.service';
+import { DEFAULT_REVIEW_THRESHOLD, findSourcePage, scoreExtraction } from './parsing/extraction-confidence';
+import { DateOrder, extractReportDates, ReportDates } from './parsing/report-dates';
+import { extractPatientInfo } from './parsing/patient-info';
+import { splitReportSections } from './parsing/report-sections';
+import { LabTemplateMatch } from './templates/lab-template.interface';
 import * as fs from 'fs';
-const pdfParse = require('pdf-parse');
-
-interface ParsedTestResult {
-  testName: string;
-  value: number;
-  unit: string;
-  referenceRange: { min: number; max: number };
-  status: 'normal' | 'high' | 'low' | 'critical';
+import pdfParse, { PageData } from 'pdf-parse';
+
+/**
+ * Report text plus what OCR contributed to it
+ */
+export interface PdfTextContent {
+  text: string;
+  /**
+   * 1-based pages whose text came from OCR
+   */
+  ocrPages: number[];
+  ocrLines: OcrLine[];
+  /**
+   * Text of each page (or photo), in order - used to locate result rows
+   */
+  pageTexts: string[];
+}
+
+/**
+ * Everything the processor needs from one parsed report
+ * 
+ * A document holding several reports (a portal history export) parses
+ * into one of these per collection date.
+ */
+export interface ParsedReport {
+  testResults: TestResult[];
+  testType: string;
+  /**
+   * Standard panels the results cover (testType names the best covered one)
+   */
+  panels: PanelCoverage[];
+  testDate: string;
+  /**
+   * Labelled collection / received / reported dates (testDate is one of them)
+   */
+  dates: ReportDates;
+  templateId: string;
+  templateVersion: string;
+  ocrPages: number[];
+  patientInfo: PatientInfo;
 }
 
 @Injectable()
 export class PdfParserService {
   private readonly logger = new Logger(PdfParserService.name);
 
+  constructor(
+    private readonly labTemplateRegistry: LabTemplateRegistry,
+    private readonly configService: ConfigService,
+    private readonly ocrService: OcrService,
+  ) {}
+
   /**
    * Extract text content from PDF file
+   * 
+   * WHY: Scanned reports have no text layer, so pdf-parse returns nothing
+   * for their pages. Pages that come back (nearly) empty but paint an image
+   * are rendered and read with OCR; their text is slotted back in page
+   * order so templates and the generic extractor see one document.
    */
-  async extractTextFromPdf(filePath: string): Promise<string> {
+  async extractTextFromPdf(filePath: string): Promise<PdfTextContent> {
+    let dataBuffer: Buffer;
+    const pageTexts: string[] = [];
     try {
-      const dataBuffer = fs.readFileSync(filePath);
-      const pdfData = await pdfParse(dataBuffer);
-      return pdfData.text;
+      dataBuffer = fs.readFileSync(filePath);
+      await pdfParse(dataBuffer, {
+        pagerender: async pageData => {
+          const text = await renderPageText(pageData);
+          pageTexts[pageData.pageIndex] = text;
+          return text;
+        },
+      });
     } catch (error) {
       this.logger.error(`Failed to extract PDF text: ${error.message}`);
       throw new Error(`PDF extraction failed: ${error.message}`);
     }
+
+    const ocrPages = await this.recognizeImagePages(dataBuffer, pageTexts);
+    ocrPages.forEach(page => {
+      pageTexts[page.pageNumber - 1] = page.text;
+    });
+
+    return {
+      text: pageTexts.join('\n\n'),
+      ocrPages: ocrPages.map(page => page.pageNumber),
+      ocrLines: ocrPages.flatMap(page => page.lines),
+      pageTexts,
+    };
+  }
+
+  /**
+   * OCRs the pages whose text layer is (nearly) empty
+   * 
+   * WHY: OCR problems shouldn't fail the job outright - a mixed report
+   * still yields its text pages, and the warning explains missing rows.
+   */
+  private async recognizeImagePages(data: Buffer, pageTexts: string[]): Promise<OcrPage[]> {
+    const minPageText = this.configService.get<number>('ocr.minPageText') ?? 20;
+    const maxPages = this.configService.get<number>('ocr.maxPages') ?? 10;
+    const candidates = pageTexts
+      .map((text, index) => ({ pageNumber: index + 1, length: (text ?? '').replace(/\s/g, '').length }))
+      .filter(page => page.length < minPageText)
+      .map(page => page.pageNumber);
+
+    if (candidates.length === 0 || !this.ocrService.enabled) {
+      return [];
+    }
+
+    try {
+      const imagePages = await this.ocrService.findImagePages(data, candidates);
+      if (imagePages.length > maxPages) {
+        this.logger.warn(`Report has ${imagePages.length} image-only pages - OCR limited to the first ${maxPages}`);
+      }
+      if (imagePages.length === 0) {
+        return [];
+      }
+
+      this.logger.log(`Running OCR on image-only pages: ${imagePages.slice(0, maxPages).join(', ')}`);
+      return await this.ocrService.recognizePdfPages(data, imagePages.slice(0, maxPages));
+    } catch (error) {
+      this.logger.warn(`OCR failed, continuing with the text layer only: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
   }
 
   /**
    * Parse bloodwork results from PDF text content
    * Handles various lab report formats including hormone panels
+   * 
+   * The user's profile (when saved) fills in missing reference ranges,
+   * using their age on the test date rather than today.
+   * 
+   * Returns one report per collection date found in the document.
    */
-  async parseBloodworkResults(filePath: string): Promise<{ 
-    testResults: TestResult[], 
-    testType: string, 
-    testDate: string,
-    patientInfo?: any 
-  }> {
-    const text = await this.extractTextFromPdf(filePath);
-    this.logger.log(`Extracted PDF text (${text.length} chars), parsing bloodwork data...`);
-
-    // DEBUG: Log first 500 chars of PDF to see the format
-    this.logger.debug(`PDF text preview: ${text.substring(0, 500).replace(/\n/g, '\\n')}`);
-
-    // Extract patient info
-    const patientName = this.extractPatientName(text);
-    const testDate = this.extractTestDate(text);
-    
-    // Parse test results
-    const testResults = this.parseTestResults(text);
+  async parseBloodworkResults(filePath: string, profile?: UserProfile | null): Promise<ParsedReport[]> {
+    const content = await this.extractTextFromPdf(filePath);
+    this.logger.log(`Extracted PDF text (${content.text.length} chars), parsing bloodwork data...`);
+    return this.parseReportContent(content, profile);
+  }
+
+  /**
+   * Parse bloodwork results from photos of a paper report
+   * 
+   * WHY: Photographed reports take the same path as PDFs once their text
+   * is read - only the text source differs. Images are OCR'd in upload
+   * order, one page each.
+   */
+  async parseBloodworkImages(
+    images: Array<Pick<UploadPage, 'path' | 'mimetype'>>,
+    profile?: UserProfile | null,
+  ): Promise<ParsedReport[]> {
+    const content = await this.extractTextFromImages(images);
+    this.logger.log(`OCR'd ${images.length} report image(s) (${content.text.length} chars), parsing bloodwork data...`);
+    return this.parseReportContent(content, profile);
+  }
+
+  /**
+   * Reads each report photo with OCR
+   */
+  async extractTextFromImages(images: Array<Pick<UploadPage, 'path' | 'mimetype'>>): Promise<PdfTextContent> {
+    const pages: OcrPage[] = [];
+    for (const [index, image] of images.entries()) {
+      try {
+        pages.push(await this.ocrService.recognizePhoto(fs.readFileSync(image.path), image.mimetype, index + 1));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error(`Failed to read report image ${index + 1}: ${message}`);
+        throw new Error(`Image extraction failed: ${message}`);
+      }
+    }
+
+    return {
+      text: pages.map(page => page.text).join('\n\n'),
+      ocrPages: pages.map(page => page.pageNumber),
+      ocrLines: pages.flatMap(page => page.lines),
+      pageTexts: pages.map(page => page.text),
+    };
+  }
+
+  /**
+   * Shared parsing once the report text is known
+   * 
+   * WHY: Portal exports put several reports in one document. The lab is
+   * recognised once for the whole document, then each collection date's
+   * section is parsed on its own so every draw keeps its own date.
+   */
+  private parseReportContent(content: PdfTextContent, profile?: UserProfile | null): ParsedReport[] {
+    const { text } = content;
+    // DEBUG: Log first 500 chars of the report to see the format
+    this.logger.debug(`Report text preview: ${text.substring(0, 500).replace(/\n/g, '\\n')}`);
+
+    const templateMatch = this.labTemplateRegistry.detect(text);
+    const sections = splitReportSections(text);
+    if (sections.length > 1) {
+      this.logger.log(`Document holds ${sections.length} reports with different collection dates`);
+    }
+
+    const reports = sections.map(section => this.parseSection(section, content, templateMatch, profile));
+    fillPatientInfoAcrossReports(reports);
+
+    // A section without rows is a cover page or summary, not a report of its own
+    const withResults = reports.filter(report => report.testResults.length > 0);
+    return withResults.length > 0 ? withResults : reports.slice(0, 1);
+  }
+
+  /**
+   * Parses one report of the document
+   */
+  private parseSection(
+    text: string,
+    content: PdfTextContent,
+    templateMatch: LabTemplateMatch | null,
+    profile?: UserProfile | null,
+  ): ParsedReport {
+    // Parse test results (lab template first, generic extractor as fallback)
+    const { rows, templateId, templateVersion } = this.extractRows(text, templateMatch);
+    // The lab name is kept even when its row patterns miss, but its date order only
+    // when the template read the rows - a false detection mustn't swap day and month
+    const detectedLab = templateMatch?.template;
+    const templateUsed = !!detectedLab && templateId === detectedLab.id;
+
+    const dates = this.extractDates(text, templateUsed ? detectedLab.dateOrder : undefined);
+    const patientInfo = extractPatientInfo(text, dates.birthDate, detectedLab?.labName);
+    const demographics = toDemographics(profile, dates.testDate);
+    const printedResults = this.parseTestResults(rows, content, demographics);
+    // Markers the lab didn't print but the report has the inputs for
+    const criticalLimits = this.configService.get<Record<string, CriticalLimit>>('clinical.criticalLimits');
+    const testResults = [...printedResults, ...calculateDerivedMarkers(printedResults, demographics, { criticalLimits })];
     
-    // Determine test type based on parsed results
-    const testType = this.determineTestType(testResults);
+    // Name the report after the panels its analytes cover
+    const panels = matchPanels(testResults);
+    const testType = testTypeFromPanels(panels);
 
-    this.logger.log(`Parsed ${testResults.length} test results from PDF`);
+    this.logger.log(`Parsed ${testResults.length} test results from report dated ${dates.testDate}`);
     
     return {
       testResults,
       testType,
-      testDate,
-      patientInfo: { name: patientName }
+      panels,
+      testDate: dates.testDate,
+      dates,
+      templateId,
+      templateVersion,
+      ocrPages: content.ocrPages,
+      patientInfo,
     };
   }
 
   /**
-   * Extract patient name from PDF text
+   * Reads the collected / received / reported dates
+   * 
+   * WHY: Only a labelled collection date is trusted as the test date; birth
+   * and print dates are ignored. Ambiguous numeric dates follow the lab's
+   * convention when a template matched, else clues in the report, else the
+   * configured default - and are flagged as guessed.
    */
-  private extractPatientName(text: string): string {
-    const nameMatch = text.match(/Patient[Nn]ame[:\s]+([A-Z\s]+)/i) || 
-                     text.match(/Name[:\s]+([A-Z\s]+)/i);
-    return nameMatch ? nameMatch[1].trim() : 'Unknown Patient';
+  private extractDates(text: string, labDateOrder?: DateOrder): ReportDates {
+    const dates = extractReportDates(text, {
+      labDateOrder,
+      defaultDateOrder: this.configService.get<DateOrder>('reports.dateOrder') ?? 'DMY',
+      timeZone: this.configService.get<string>('reports.timeZone') ?? 'UTC',
+    });
+
+    if (dates.dateGuessed) {
+      this.logger.warn(`No unambiguous collection date found, using ${dates.testDate} as the test date`);
+    }
+
+    return dates;
   }
 
   /**
-   * Extract test date from PDF text
+   * Pick the extraction strategy for this report
+   * 
+   * WHY: A known lab's template is more precise than the generic extractor,
+   * but a template that finds nothing (new layout revision, partial match)
+   * must not leave the user with an empty result.
    */
-  private extractTestDate(text: string): string {
-    // Look for various date formats from your hormone test PDF
-    const datePatterns = [
-      // Format: "31/07/2025" from your PDF
-      /(\d{1,2}\/\d{1,2}\/\d{4})/,
-      // Format: "31-07-2025"
-      /(\d{1,2}-\d{1,2}-\d{4})/,
-      // Format: "2025-07-31" 
-      /(\d{4}-\d{1,2}-\d{1,2})/,
-      // Time format: "17:58:00 31/07/2025" from your PDF
-      /(\d{1,2}:\d{2}:\d{2}\s+\d{1,2}\/\d{1,2}\/\d{4})/,
-    ];
-
-    for (const pattern of datePatterns) {
-      const match = text.match(pattern);
-      if (match) {
-        try {
-          // Try to parse the date, handle DD/MM/YYYY format properly
-          let dateStr = match[1];
-          
-          // If it includes time, extract just the date part
-          if (dateStr.includes(':')) {
-            const parts = dateStr.split(' ');
-            dateStr = parts[parts.length - 1]; // Get the date part
-          }
-          
-          // Handle DD/MM/YYYY format (common in medical reports)
-          if (dateStr.includes('/')) {
-            const [day, month, year] = dateStr.split('/');
-            if (day && month && year) {
-              const parsedDate = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-              if (!isNaN(parsedDate.getTime())) {
-                return parsedDate.toISOString();
-              }
-            }
-          }
-          
-          // Try direct parsing for other formats
-          const parsedDate = new Date(dateStr);
-          if (!isNaN(parsedDate.getTime())) {
-            return parsedDate.toISOString();
-          }
-        } catch (error) {
-          this.logger.warn(`Failed to parse date "${match[1]}": ${error.message}`);
-          continue;
-        }
+  private extractRows(text: string, match: LabTemplateMatch | null): {
+    rows: ExtractedRow[];
+    templateId: string;
+    templateVersion: string;
+  } {
+    if (match) {
+      const rows = this.labTemplateRegistry.extract(match.template, text);
+      if (rows.length > 0) {
+        return { rows, templateId: match.template.id, templateVersion: match.template.version };
       }
+      this.logger.warn(`Template ${match.template.id} matched but found no rows, using generic extractor`);
     }
-    
-    // Fallback to current date if no valid date found
-    this.logger.warn('No valid date found in PDF, using current date');
-    return new Date().toISOString();
+
+    return {
+      rows: extractGenericRows(text),
+      templateId: GENERIC_EXTRACTOR_ID,
+      templateVersion: GENERIC_EXTRACTOR_VERSION,
+    };
   }
 
   /**
-   * Parse individual test results from PDF text
+   * Shape extracted rows into TestResults
+   * 
+   * WHY: Rows come from either a lab template or the generic extractor;
+   * this is the single place they become the TestResult structure the
+   * rest of the pipeline expects. Rows read by OCR carry the lowest word
+   * confidence of their source lines; every row gets an overall extraction
+   * confidence, the page it came from, and a review flag.
    */
-  private parseTestResults(text: string): TestResult[] {
-    const results: TestResult[] = [];
-    
-    // Split text into lines for multi-line parsing
-    const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-    
-    this.logger.debug(`Processing ${lines.length} lines from PDF`);
-    
-    // Look for patterns where test name, reference range, and value are on separate lines
-    for (let i = 0; i < lines.length - 2; i++) {
-      const testNameLine = lines[i];
-      const refRangeLine = lines[i + 1];
-      const valueLine = lines[i + 2];
-      
-      // Pattern: IgG test
-      if (testNameLine.match(/^IgG$/i) && refRangeLine.match(/^\(\d+\s*-\s*\d+\s*mg\/dL\)$/)) {
-        const refMatch = refRangeLine.match(/\((\d+)\s*-\s*(\d+)\s*mg\/dL\)/);
-        const valueMatch = valueLine.match(/^(\d+(?:\.\d+)?)$/);
-        
-        if (refMatch && valueMatch) {
-          const value = parseFloat(valueMatch[1]);
-          const minRef = parseFloat(refMatch[1]);
-          const maxRef = parseFloat(refMatch[2]);
-          
-          results.push({
-            id: (results.length + 1).toString(),
-            testName: 'IgG',
-            value,
-            unit: 'mg/dL',
-            referenceRange: { min: minRef, max: maxRef },
-            status: this.determineTestStatus(value, minRef, maxRef)
-          });
-          
-          this.logger.log(`✅ Parsed IgG: ${value} mg/dL (${minRef}-${maxRef})`);
-        }
-      }
-      
-      // Pattern: Free Testosterone Index  
-      if (testNameLine.match(/Free\s+Testosterone\s+Index/i) && refRangeLine.match(/^\(/)) {
-        const refMatch = refRangeLine.match(/\(.*?(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)/);
-        const valueMatch = valueLine.match(/^(\d+(?:\.\d+)?)$/);
-        
-        if (refMatch && valueMatch) {
-          const value = parseFloat(valueMatch[1]);
-          const minRef = parseFloat(refMatch[1]);
-          const maxRef = parseFloat(refMatch[2]);
-          
-          results.push({
-            id: (results.length + 1).toString(),
-            testName: 'Free Testosterone Index',
-            value,
-            unit: '%',
-            referenceRange: { min: minRef, max: maxRef },
-            status: this.determineTestStatus(value, minRef, maxRef)
-          });
-          
-          this.logger.log(`✅ Parsed Free Testosterone Index: ${value}% (${minRef}-${maxRef})`);
-        }
-      }
-      
-      // Pattern: SHBG
-      if (testNameLine.match(/SHBG/i) && refRangeLine.match(/nmol\/L/)) {
-        const refMatch = refRangeLine.match(/(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)\s*nmol\/L/);
-        const valueMatch = valueLine.match(/^(\d+(?:\.\d+)?)$/);
-        
-        if (refMatch && valueMatch) {
-          const value = parseFloat(valueMatch[1]);
-          const minRef = parseFloat(refMatch[1]);
-          const maxRef = parseFloat(refMatch[2]);
-          
-          results.push({
-            id: (results.length + 1).toString(),
-            testName: 'SHBG',
-            value,
-            unit: 'nmol/L',
-            referenceRange: { min: minRef, max: maxRef },
-            status: this.determineTestStatus(value, minRef, maxRef)
-          });
-          
-          this.logger.log(`✅ Parsed SHBG: ${value} nmol/L (${minRef}-${maxRef})`);
-        }
+  private parseTestResults(
+    rows: ExtractedRow[],
+    { ocrLines, pageTexts }: Pick<PdfTextContent, 'ocrLines' | 'pageTexts'>,
+    demographics: Demographics = {},
+  ): TestResult[] {
+    const ocrLineByText = new Map(ocrLines.map(line => [line.text, line]));
+    const criticalLimits = this.configService.get<Record<string, CriticalLimit>>('clinical.criticalLimits');
+    const reviewThreshold = this.configService.get<number>('review.minConfidence') ?? DEFAULT_REVIEW_THRESHOLD;
+    let currentPage = 1;
+    // On reports that print flags, an unflagged row is the lab saying "normal"
+    const reportUsesFlags = rows.some(row => normalizeLabFlag(row.flag));
+
+    const results: TestResult[] = rows.map((row, index) => {
+      // Store in the analyte's canonical unit so reports from different labs
+      // compare - and so critical limits apply in the unit they're defined in
+      const canonical = toCanonicalUnit({
+        id: (index + 1).toString(),
+        testName: row.name,
+        canonicalCode: normalizeAnalyte(row.name, row.unit)?.code,
+        value: row.value,
+        comparator: row.comparator,
+        qualitativeValue: row.qualitativeValue,
+        expectedQualitative: row.expectedQualitative,
+        valueText: row.valueText,
+        unit: row.unit,
+        referenceRange: row.referenceRange ?? { min: null, max: null },
+        labFlag: normalizeLabFlag(row.flag),
+        ocrConfidence: ocrConfidenceFor(row, ocrLineByText),
+        status: 'normal',
+      });
+      // Lab-printed ranges win; the library only fills gaps (and checks conflicts)
+      const result = applyReferenceRange(canonical, demographics);
+      const resolved = { ...result, ...resolveTestStatus(result, { criticalLimits, reportUsesFlags }) };
+
+      const page = findSourcePage(row.sourceText, pageTexts, currentPage);
+      currentPage = page ?? currentPage;
+
+      return {
+        ...resolved,
+        source: { page, text: row.sourceText },
+        ...scoreExtraction(resolved, reviewThreshold),
+      };
+    });
+
+    results.forEach(result => {
+      this.logger.debug(`✅ Parsed ${result.testName}: ${result.valueText ?? result.value} ${result.unit}`);
+      if (result.flagDiscrepancy) {
+        this.logger.warn(`Flag discrepancy for ${result.testName}: lab ${result.labFlag ?? 'none'}, computed ${result.computedStatus}`);
       }
-      
-      // Pattern: Testosterone
-      if (testNameLine.match(/^Testosterone$/i) && refRangeLine.match(/nmol\/L/)) {
-        const refMatch = refRangeLine.match(/(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)\s*nmol\/L/);
-        const valueMatch = valueLine.match(/^(\d+(?:\.\d+)?)$/);
-        
-        if (refMatch && valueMatch) {
-          const value = parseFloat(valueMatch[1]);
-          const minRef = parseFloat(refMatch[1]);
-          const maxRef = parseFloat(refMatch[2]);
-          
-          results.push({
-            id: (results.length + 1).toString(),
-            testName: 'Testosterone',
-            value,
-            unit: 'nmol/L',
-            referenceRange: { min: minRef, max: maxRef },
-            status: this.determineTestStatus(value, minRef, maxRef)
-          });
-          
-          this.logger.log(`✅ Parsed Testosterone: ${value} nmol/L (${minRef}-${maxRef})`);
-        }
+      if (result.referenceRangeConflict) {
+        this.logger.warn(`Lab range for ${result.testName} doesn't overlap the expected range for this profile`);
       }
-    }
-
-    // Also try to parse any values that appear after "REFERENCE VALUES" and "RESULTS"
-    const resultsIndex = text.indexOf('REFERENCE VALUES');
-    if (resultsIndex !== -1) {
-      const resultsSection = text.substring(resultsIndex);
-      this.logger.debug(`Found REFERENCE VALUES section: ${resultsSection.substring(0, 200)}`);
-      
-      // Look for the IgG value we saw in the debug output
-      const iggMatch = resultsSection.match(/IgG[\s\S]*?\((\d+)\s*-\s*(\d+)\s*mg\/dL\)[\s\S]*?(\d+)/);
-      if (iggMatch && results.length === 0) {
-        const minRef = parseFloat(iggMatch[1]);
-        const maxRef = parseFloat(iggMatch[2]);
-        const value = parseFloat(iggMatch[3]);
-        
-        results.push({
-          id: '1',
-          testName: 'IgG',
-          value,
-          unit: 'mg/dL',
-          referenceRange: { min: minRef, max: maxRef },
-          status: this.determineTestStatus(value, minRef, maxRef)
-        });
-        
-        this.logger.log(`✅ Parsed IgG from REFERENCE VALUES section: ${value} mg/dL (${minRef}-${maxRef})`);
+      if (result.needsReview) {
+        this.logger.warn(`${result.testName} needs review (confidence ${result.confidence}): ${result.reviewReasons?.join(', ')}`);
       }
-    }
+    });
 
     if (results.length === 0) {
-      this.logger.warn('No test patterns matched the PDF format');
-      // Log some lines to help debug
-      this.logger.debug(`Sample lines: ${lines.slice(0, 10).join(' | ')}`);
+      this.logger.warn('No result rows recognised in the PDF text');
     }
 
     return results;
   }
+}
 
-  /**
-   * Determine test status based on value and reference range
-   */
-  private determineTestStatus(value: number, min: number, max: number): 'normal' | 'high' | 'low' | 'critical' {
-    if (value < min) {
-      // Consider very low values as critical
-      return value < (min * 0.5) ? 'critical' : 'low';
-    } else if (value > max) {
-      // Consider very high values as critical  
-      return value > (max * 1.5) ? 'critical' : 'high';
-    }
-    return 'normal';
+/**
+ * Same line assembly pdf-parse uses by default, but per page
+ * 
+ * WHY: pdf-parse only returns the joined document text; OCR needs to know
+ * which pages came back empty.
+ */
+async function renderPageText(pageData: PageData): Promise<string> {
+  const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    text += lastY === item.transform[5] || !lastY ? item.str : '\n' + item.str;
+    lastY = item.transform[5];
   }
+  return text;
+}
 
-  /**
-   * Determine test type based on parsed results
-   */
-  private determineTestType(results: TestResult[]): string {
-    const testNames = results.map(r => r.testName.toLowerCase());
-    
-    if (testNames.some(name => name.includes('testosterone') || name.includes('shbg'))) {
-      return 'Hormone Panel';
-    } else if (testNames.some(name => name.includes('cholesterol') || name.includes('glucose'))) {
-      return 'Metabolic Panel';
-    } else if (testNames.some(name => name.includes('hemoglobin') || name.includes('wbc'))) {
-      return 'Complete Blood Count';
-    }
-    
-    return 'Laboratory Results';
+/**
+ * Reports from one document belong to one patient - a section that doesn't
+ * repeat the patient block (a continuation page) takes it from the others
+ */
+function fillPatientInfoAcrossReports(reports: ParsedReport[]): void {
+  const fields = Object.keys(reports[0]?.patientInfo ?? {}) as Array<keyof PatientInfo>;
+  for (const report of reports) {
+    report.patientInfo = fields.reduce(
+      (info, field) => ({ ...info, [field]: info[field] ?? reports.find(other => other.patientInfo[field])?.patientInfo[field] ?? null }),
+      report.patientInfo,
+    );
   }
 }
+
+/**
+ * Lowest OCR confidence among the lines a row was read from
+ */
+function ocrConfidenceFor(row: ExtractedRow, ocrLineByText: Map<string, OcrLine>): number | undefined {
+  const confidences = row.sourceText
+    .split('\n')
+    .map(line => ocrLineByText.get(line.trim())?.confidence)
+    .filter((confidence): confidence is number => confidence !== undefined);
+  return confidences.length > 0 ? Math.min(...confidences) : undefined;
+}
@@ -0,0 +1,14 @@
+/**
+ * Browser globals pdf.js expects - import before pdf.js
+ *
+ * WHY: pdf.js looks for DOMMatrix and Path2D when the module loads and
+ * warns (then renders badly) without them, so they are provided from
+ * @napi-rs/canvas first.
+ */
+
+import { DOMMatrix, ImageData, Path2D } from '@napi-rs/canvas';
+
+const globals = globalThis as Record<string, unknown>;
+globals.DOMMatrix ??= DOMMatrix;
+globals.Path2D ??= Path2D;
+globals.ImageData ??= ImageData;
@@ -0,0 +1,56 @@
+/**
+ * Lab Template Contract - Describes how to recognise and read one lab's reports
+ *
+ * WHY: A handful of large labs produce most of the reports our users upload.
+ * Their layouts are stable, so a dedicated template is more accurate than the
+ * generic extractor. Templates are plain data so adding a lab is a new file,
+ * not a change to the parser.
+ */
+
+import { DateOrder } from '../parsing/report-dates';
+
+/**
+ * Fingerprint used to detect which lab produced a report
+ *
+ * SCORING: each matching lab name pattern scores 3, each header pattern 2,
+ * each layout marker 1. A template applies when its score reaches minScore.
+ */
+export interface LabTemplateFingerprint {
+  labNamePatterns: RegExp[];
+  headerPatterns: RegExp[];
+  layoutMarkers: RegExp[];
+  minScore: number;
+}
+
+/**
+ * Extraction rules applied line by line
+ *
+ * Row patterns use named groups: name, value, unit, flag and either
+ * range (a whole range cell) or low/high (separate bound cells).
+ */
+export interface LabTemplateRules {
+  rowPatterns: RegExp[];
+  sectionStart?: RegExp;
+  sectionEnd?: RegExp;
+  skipPatterns?: RegExp[];
+}
+
+export interface LabTemplate {
+  id: string;
+  version: string;
+  labName: string;
+  /**
+   * How the lab prints numeric dates - settles 03/04/2025 on its reports
+   */
+  dateOrder?: DateOrder;
+  fingerprint: LabTemplateFingerprint;
+  rules: LabTemplateRules;
+}
+
+/**
+ * Result of fingerprinting a report against the registry
+ */
+export interface LabTemplateMatch {
+  template: LabTemplate;
+  score: number;
+}
@@ -0,0 +1,35 @@
+import { LabTemplateRegistry } from './lab-template.registry';
+
+const LABCORP_REPORT = [
+  'Labcorp',
+  'Tests Ordered: Basic Metabolic Panel',
+  'Test                 Current Result and Flag   Previous Result and Date   Units    Reference Interval',
+  'Glucose 01           105 High                  92 01/15/2025              mg/dL    70-99',
+  'Sodium 01            140                                                  mmol/L   134-144',
+].join('\n');
+
+describe('LabTemplateRegistry', () => {
+  const registry = new LabTemplateRegistry();
+
+  it('should detect a lab from its name and layout', () => {
+    expect(registry.detect(LABCORP_REPORT)?.template.id).toBe('labcorp');
+    expect(registry.detect('Quest Diagnostics\nTEST NAME  IN RANGE  OUT OF RANGE  REFERENCE RANGE  LAB')?.template.id).toBe(
+      'quest-diagnostics',
+    );
+  });
+
+  it('should not detect a lab that is only mentioned', () => {
+    const report = 'Riverside Pathology\nGlucose 92 mg/dL 70-99\nReferred testing performed by Labcorp';
+
+    expect(registry.detect(report)).toBeNull();
+  });
+
+  it('should extract rows with the template patterns', () => {
+    const rows = registry.extract(registry.detect(LABCORP_REPORT)!.template, LABCORP_REPORT);
+
+    expect(rows.map(row => [row.name, row.value, row.unit, row.flag, row.referenceRange])).toEqual([
+      ['Glucose', 105, 'mg/dL', 'High', { min: 70, max: 99 }],
+      ['Sodium', 140, 'mmol/L', undefined, { min: 134, max: 144 }],
+    ]);
+  });
+});
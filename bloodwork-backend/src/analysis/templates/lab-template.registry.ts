@@ -0,0 +1,144 @@
+/**
+ * Lab Template Registry - Detects the issuing lab and applies its template
+ *
+ * WHY: Known labs deserve precise, layout-specific extraction. The registry
+ * fingerprints the extracted report text, picks the best-scoring template
+ * and runs its rules. When nothing matches (or a template finds no rows)
+ * PdfParserService falls back to the generic extractor.
+ *
+ * FUNCTIONALITY:
+ * - Holds the built-in templates and accepts new ones at runtime
+ * - Scores every template against the report text
+ * - Extracts rows using the winning template's row patterns
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * PdfParserService -> detect() -> extract() -> ExtractedRow[]
+ * The template id/version ends up on BloodworkResult for traceability
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ExtractedRow, parseLabNumber, parseReferenceRange, parseResultValue } from '../parsing/generic-extractor';
+import { normalizeQualitative } from '../../common/clinical/qualitative-results';
+import { LabTemplate, LabTemplateMatch } from './lab-template.interface';
+import { QUEST_DIAGNOSTICS_TEMPLATE } from './quest-diagnostics.template';
+import { LABCORP_TEMPLATE } from './labcorp.template';
+
+export const BUILT_IN_LAB_TEMPLATES: LabTemplate[] = [
+  QUEST_DIAGNOSTICS_TEMPLATE,
+  LABCORP_TEMPLATE,
+];
+
+@Injectable()
+export class LabTemplateRegistry {
+  private readonly logger = new Logger(LabTemplateRegistry.name);
+  private readonly templates = new Map<string, LabTemplate>();
+
+  constructor() {
+    BUILT_IN_LAB_TEMPLATES.forEach(template => this.register(template));
+  }
+
+  /**
+   * Adds or replaces a template (keyed by id)
+   */
+  register(template: LabTemplate): void {
+    this.templates.set(template.id, template);
+  }
+
+  /**
+   * Lists registered templates, e.g. for admin/debug endpoints
+   */
+  list(): LabTemplate[] {
+    return [...this.templates.values()];
+  }
+
+  /**
+   * Finds the template that best matches the report text
+   *
+   * WHY: Lab names alone are unreliable (a referring lab can be mentioned
+   * in a footer), so header text and layout markers also contribute to the
+   * score. Ties go to the first registered template.
+   */
+  detect(text: string): LabTemplateMatch | null {
+    let best: LabTemplateMatch | null = null;
+
+    for (const template of this.templates.values()) {
+      const { labNamePatterns, headerPatterns, layoutMarkers, minScore } = template.fingerprint;
+      const score =
+        3 * labNamePatterns.filter(pattern => pattern.test(text)).length +
+        2 * headerPatterns.filter(pattern => pattern.test(text)).length +
+        layoutMarkers.filter(pattern => pattern.test(text)).length;
+
+      if (score >= minScore && (!best || score > best.score)) {
+        best = { template, score };
+      }
+    }
+
+    if (best) {
+      this.logger.log(`Detected lab template ${best.template.id}@${best.template.version} (score ${best.score})`);
+    }
+
+    return best;
+  }
+
+  /**
+   * Applies a template's extraction rules to the report text
+   */
+  extract(template: LabTemplate, text: string): ExtractedRow[] {
+    const { rowPatterns, sectionStart, sectionEnd, skipPatterns = [] } = template.rules;
+    const lines = text.split('\n').map(line => line.trim());
+    const rows: ExtractedRow[] = [];
+
+    // Without a section marker the whole report is in scope
+    let inSection = !sectionStart;
+
+    lines.forEach((line, lineIndex) => {
+      if (!line) return;
+
+      if (sectionStart?.test(line)) {
+        inSection = true;
+        return;
+      }
+      if (sectionEnd?.test(line)) {
+        inSection = false;
+        return;
+      }
+      if (!inSection || skipPatterns.some(pattern => pattern.test(line))) return;
+
+      for (const pattern of rowPatterns) {
+        const groups = line.match(pattern)?.groups;
+        if (!groups?.name || !groups.value) continue;
+
+        const parsedValue = parseResultValue(groups.value);
+        if (!parsedValue) continue;
+
+        rows.push({
+          name: groups.name.trim(),
+          ...parsedValue,
+          unit: groups.unit?.trim() ?? '',
+          referenceRange: this.toReferenceRange(groups),
+          // A qualitative range cell ("NEGATIVE") is the expected finding
+          expectedQualitative: normalizeQualitative(groups.range) ?? undefined,
+          flag: groups.flag,
+          sourceText: line,
+          lineIndex,
+        });
+        break;
+      }
+    });
+
+    return rows;
+  }
+
+  private toReferenceRange(groups: Record<string, string | undefined>): ExtractedRow['referenceRange'] {
+    if (groups.range) {
+      return parseReferenceRange(groups.range);
+    }
+    if (groups.low !== undefined || groups.high !== undefined) {
+      return {
+        min: groups.low !== undefined ? parseLabNumber(groups.low) : null,
+        max: groups.high !== undefined ? parseLabNumber(groups.high) : null,
+      };
+    }
+    return null;
+  }
+}
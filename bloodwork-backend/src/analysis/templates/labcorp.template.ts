@@ -0,0 +1,39 @@
+import { LabTemplate } from './lab-template.interface';
+
+/**
+ * Labcorp patient report
+ *
+ * LAYOUT: "Test  Current Result and Flag  Previous Result and Date  Units
+ * Reference Interval". Names carry a two-digit footnote code ("Glucose 01"),
+ * flags are spelled out ("High", "Low") and the unit precedes the interval.
+ * Qualitative rows print the expected finding as the interval ("Negative").
+ */
+
+const LABCORP_QUALITATIVE = String.raw`Non[- ]Reactive|Reactive|Not Detected|Detected|Negative|Positive|Trace|Equivocal|[1-4]\+`;
+export const LABCORP_TEMPLATE: LabTemplate = {
+  id: 'labcorp',
+  version: '1.1.0',
+  labName: 'Labcorp',
+  dateOrder: 'MDY',
+  fingerprint: {
+    labNamePatterns: [/Lab\s*corp/i, /Laboratory\s+Corporation\s+of\s+America/i],
+    headerPatterns: [/Current\s+Result\s+and\s+Flag/i, /Reference\s+Interval/i],
+    layoutMarkers: [/Previous\s+Result\s+and\s+Date/i, /^\s*0[1-9]\s+[A-Z]{2}\s/m],
+    // The lab name alone (3) isn't enough - a header or layout marker must match too
+    minScore: 4,
+  },
+  rules: {
+    sectionStart: /Current\s+Result\s+and\s+Flag/i,
+    sectionEnd: /^(Disclaimer|Icon\s+Legend|Performing\s+Labs)/i,
+    skipPatterns: [/^Date\s+Created/i, /^Page\s+\d+/i],
+    rowPatterns: [
+      /^(?<name>[A-Za-z][A-Za-z0-9 ,()/%+-]+?)\s+\d{2}\s+(?<value>(?:[<>]=?\s*)?\d+(?:\.\d+)?)\s*(?<flag>High|Low|Critical|Abnormal)?(?:\s+\d+(?:\.\d+)?\s+\d{2}\/\d{2}\/\d{4})?\s+(?<unit>\S+)\s+(?<range>(?:[<>]=?\s*)?\d+(?:\.\d+)?(?:\s*-\s*\d+(?:\.\d+)?)?)$/,
+      // Rows without a footnote code, with the bounds printed as separate cells
+      /^(?<name>[A-Za-z][A-Za-z0-9 ,()/%+-]+?)\s+(?<value>\d+(?:\.\d+)?)\s*(?<flag>High|Low|Critical|Abnormal)?\s+(?<unit>\S+\/\S+)\s+(?<low>\d+(?:\.\d+)?)\s+(?<high>\d+(?:\.\d+)?)$/,
+      new RegExp(
+        String.raw`^(?<name>[A-Za-z][A-Za-z0-9 ,()/%+-]+?)\s+\d{2}\s+(?<value>${LABCORP_QUALITATIVE})\s*(?<flag>Abnormal)?\s+(?<range>${LABCORP_QUALITATIVE})$`,
+        'i',
+      ),
+    ],
+  },
+};
@@ -0,0 +1,38 @@
+import { LabTemplate } from './lab-template.interface';
+
+/**
+ * Quest Diagnostics patient report
+ *
+ * LAYOUT: "TEST NAME  IN RANGE  OUT OF RANGE  REFERENCE RANGE  LAB" with
+ * upper-case names, the flag glued to out-of-range values ("105 H"),
+ * range before unit and a two-letter performing-lab code at the end.
+ * Serology rows print the expected finding in the range column
+ * ("HIV 1/2 AG/AB  NON-REACTIVE  NON-REACTIVE").
+ */
+
+const QUEST_QUALITATIVE = String.raw`NON-REACTIVE|REACTIVE|NOT DETECTED|DETECTED|NEGATIVE|POSITIVE|TRACE|EQUIVOCAL|[1-4]\+`;
+export const QUEST_DIAGNOSTICS_TEMPLATE: LabTemplate = {
+  id: 'quest-diagnostics',
+  version: '1.1.0',
+  labName: 'Quest Diagnostics',
+  dateOrder: 'MDY',
+  fingerprint: {
+    labNamePatterns: [/Quest\s+Diagnostics/i],
+    headerPatterns: [/IN\s+RANGE\s+OUT\s+OF\s+RANGE/i, /REFERENCE\s+RANGE\s+LAB/i],
+    layoutMarkers: [/Performing\s+Laboratory\s+Information/i, /Specimen:\s*[A-Z]{2}\d+/i],
+    // The lab name alone (3) isn't enough - a header or layout marker must match too
+    minScore: 4,
+  },
+  rules: {
+    sectionStart: /TEST\s+NAME/i,
+    sectionEnd: /Performing\s+Laboratory\s+Information/i,
+    skipPatterns: [/^PAGE\s+\d+/i, /^Patient\s+Information/i],
+    rowPatterns: [
+      /^(?<name>[A-Z][A-Z0-9 ,()/%+-]+?)\s+(?<value>(?:[<>]=?\s*)?\d+(?:\.\d+)?)\s*(?<flag>HH|LL|H|L)?\s+(?<range>(?:[<>]\s*(?:OR\s*)?=?\s*)?\d+(?:\.\d+)?(?:\s*-\s*\d+(?:\.\d+)?)?)\s+(?<unit>\S+)(?:\s+[A-Z]{2})?$/,
+      /^(?<name>[A-Z][A-Z0-9 ,()/%+-]+?)\s+(?<value>(?:[<>]=?\s*)?\d+(?:\.\d+)?)\s*(?<flag>HH|LL|H|L)?\s+(?<unit>\S+\/\S+)(?:\s+[A-Z]{2})?$/,
+      new RegExp(
+        String.raw`^(?<name>[A-Z][A-Z0-9 ,()/%+-]+?)\s+(?<value>${QUEST_QUALITATIVE})\s*(?<flag>A)?\s+(?<range>${QUEST_QUALITATIVE})(?:\s+[A-Z]{2})?$`,
+      ),
+    ],
+  },
+};
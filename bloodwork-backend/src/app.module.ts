@@ -37,11 +37,15 @@ import { UploadsModule } from './uploads/uploads.module';
 import { AnalysisModule } from './analysis/analysis.module';
 import { ResultsModule } from './results/results.module';
 import { AuthModule } from './auth/auth.module';
+import { ProfilesModule } from './profiles/profiles.module';
 
 // Import entities for database setup
 import { Upload } from './common/entities/upload.entity';
 import { AnalysisJob } from './common/entities/analysis-job.entity';
 import { BloodworkResult } from './common/entities/bloodwork-result.entity';
+import { UserProfile } from './common/entities/user-profile.entity';
+import { ResultEdit } from './common/entities/result-edit.entity';
+import { ChatExchange } from './common/entities/chat-exchange.entity';
 
 // Basic app controller and service
 import { AppController } from './app.controller';
@@ -79,6 +83,8 @@ import { AppService } from './app.service';
      * - Upload: File metadata and storage paths
      * - AnalysisJob: Background job status and progress
      * - BloodworkResult: Final analysis results and insights
+     * - UserProfile: Demographics used for reference ranges
+     * - ChatExchange: Questions and answers about a result
      * 
      * FEATURES:
      * - Automatic schema creation
@@ -91,7 +97,7 @@ import { AppService } from './app.service';
       useFactory: (configService: ConfigService) => ({
         type: 'sqlite',
         database: configService.get<string>('database.path'),
-        entities: [Upload, AnalysisJob, BloodworkResult],
+        entities: [Upload, AnalysisJob, BloodworkResult, UserProfile, ResultEdit, ChatExchange],
         synchronize: true, // Auto-create tables (disable in production)
         logging: configService.get<string>('app.env') === 'development',
       }),
@@ -219,8 +225,13 @@ import { AppService } from './app.service';
      * - AI-powered recommendations
      * - Enhanced data with statistics and insights
      * - Medical context and safety disclaimers
+     * 
+     * 👤 ProfilesModule:
+     * - GET/PUT /profiles/me - Health profile (birth date, sex, pregnancy)
+     * - Demographics for reference ranges
      */
     AuthModule,
+    ProfilesModule,
     UploadsModule,
     AnalysisModule, // Re-enabled to test
     ResultsModule,
@@ -13,6 +13,7 @@
 
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { IMAGE_MIME_TYPES, PDF_MIME_TYPE } from './uploads/upload-file-types';
 
 @Injectable()
 export class AppService {
@@ -33,7 +34,7 @@ export class AppService {
       timestamp: new Date().toISOString(),
       status: 'operational',
       features: [
-        'PDF file upload and validation',
+        'PDF and photo upload with validation',
         'Background AI analysis processing', 
         'Real-time job progress polling',
         'AI-powered health recommendations',
@@ -104,11 +105,18 @@ export class AppService {
       endpoints: {
         uploads: {
           'POST /uploads': {
-            description: 'Upload PDF bloodwork files',
+            description: 'Upload a PDF or a single photo of a bloodwork report',
             accepts: 'multipart/form-data',
             maxFileSize: this.configService.get<number>('upload.maxFileSize'),
-            allowedTypes: ['application/pdf'],
-            response: 'UploadResponse with uploadId and fileUrl'
+            allowedTypes: [PDF_MIME_TYPE, ...IMAGE_MIME_TYPES],
+            response: 'UploadResponse with uploadId, fileUrl and pageCount'
+          },
+          'POST /uploads/images': {
+            description: 'Upload several photos of one report (repeated "files" fields, in page order)',
+            accepts: 'multipart/form-data',
+            maxImages: this.configService.get<number>('upload.maxImages'),
+            allowedTypes: IMAGE_MIME_TYPES,
+            response: 'UploadResponse with uploadId, fileUrl and pageCount'
           }
         },
         analysis: {
@@ -146,7 +154,7 @@ export class AppService {
       mvpFlow: {
         description: 'Complete bloodwork analysis workflow',
         steps: [
-          '1. Upload PDF file to POST /uploads',
+          '1. Upload PDF or photos to POST /uploads (or /uploads/images)',
           '2. Start analysis with POST /analysis using uploadId',
           '3. Poll progress with GET /analysis/:jobId until completed',
           '4. Fetch results with GET /results/:resultId for AI insights'
@@ -0,0 +1,39 @@
+import { normalizeAnalyte, normalizeLabel } from './analyte-catalogue';
+
+function codeOf(label: string, unit?: string): string | undefined {
+  return normalizeAnalyte(label, unit)?.code;
+}
+
+describe('normalizeLabel', () => {
+  it('should drop punctuation and brackets', () => {
+    expect(normalizeLabel('Haemoglobin (Hb) - Serum:')).toBe('haemoglobin hb serum');
+  });
+});
+
+describe('normalizeAnalyte', () => {
+  it('should match synonyms, qualifiers and bracketed parts', () => {
+    expect(codeOf('HGB')).toBe('HGB');
+    expect(codeOf('Glucose, Serum')).toBe('GLU');
+    expect(codeOf('Packed Cell Volume (HCT)')).toBe('HCT');
+  });
+
+  it('should tell differential percentages from absolute counts by unit', () => {
+    expect(codeOf('Neutrophils', '%')).toBe('NEUT_PCT');
+    expect(codeOf('Neutrophils', 'x10E3/uL')).toBe('NEUT_ABS');
+    expect(codeOf('Lymphocytes', '%')).toBe('LYMPH_PCT');
+    expect(codeOf('Lymphocytes', '10^9/L')).toBe('LYMPH_ABS');
+    expect(codeOf('Eos', '%')).toBeUndefined();
+  });
+
+  it('should not guess a bare differential label without a unit', () => {
+    expect(codeOf('Neutrophils')).toBeUndefined();
+    expect(codeOf('Monocytes', ' ')).toBeUndefined();
+  });
+
+  it('should code labelled differentials whatever the unit', () => {
+    expect(codeOf('Neutrophils (Absolute)', 'x10E3/uL')).toBe('NEUT_ABS');
+    expect(codeOf('Neutrophils (%)')).toBe('NEUT_PCT');
+    expect(codeOf('% Lymphocytes')).toBe('LYMPH_PCT');
+    expect(codeOf('Absolute Basophils')).toBe('BASO_ABS');
+  });
+});
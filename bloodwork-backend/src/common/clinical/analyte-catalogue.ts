@@ -0,0 +1,239 @@
+/**
+ * Analyte Catalogue - Canonical identities for the tests we understand
+ *
+ * WHY: Labs print the same test under many labels ("Hgb", "Hemoglobin",
+ * "HGB", "Haemoglobin"). Everything downstream - test type detection,
+ * default notes, trends, comparisons - needs to know these are one analyte.
+ * This catalogue gives each analyte a stable code, its LOINC code where one
+ * applies, a category and the unit we prefer to store it in.
+ *
+ * FUNCTIONALITY:
+ * - Canonical name, synonyms, LOINC code, category and preferred unit
+ * - Label normalisation that tolerates punctuation, case and qualifiers
+ * - Lookup by canonical code for display and reporting
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * PdfParserService -> normalizeAnalyte(rawLabel) -> TestResult.canonicalCode
+ * The raw label stays in TestResult.testName so users see what their lab printed
+ */
+
+export type AnalyteCategory =
+  | 'hematology'
+  | 'metabolic'
+  | 'electrolyte'
+  | 'renal'
+  | 'liver'
+  | 'lipid'
+  | 'diabetes'
+  | 'thyroid'
+  | 'hormone'
+  | 'iron'
+  | 'vitamin'
+  | 'inflammation'
+  | 'immunology'
+  | 'tumor-marker'
+  | 'urinalysis';
+
+export interface AnalyteDefinition {
+  code: string;
+  name: string;
+  synonyms: string[];
+  loinc?: string;
+  category: AnalyteCategory;
+  preferredUnit: string;
+}
+
+export const ANALYTE_CATALOGUE: AnalyteDefinition[] = [
+  // Hematology
+  { code: 'HGB', name: 'Hemoglobin', synonyms: ['hgb', 'hb', 'haemoglobin', 'hemoglobin'], loinc: '718-7', category: 'hematology', preferredUnit: 'g/dL' },
+  { code: 'HCT', name: 'Hematocrit', synonyms: ['hct', 'haematocrit', 'packed cell volume', 'pcv'], loinc: '4544-3', category: 'hematology', preferredUnit: '%' },
+  { code: 'RBC', name: 'Red Blood Cell Count', synonyms: ['rbc', 'red blood cells', 'red cell count', 'erythrocytes'], loinc: '789-8', category: 'hematology', preferredUnit: '10^12/L' },
+  { code: 'WBC', name: 'White Blood Cell Count', synonyms: ['wbc', 'white blood cells', 'white cell count', 'leukocytes', 'total leucocyte count'], loinc: '6690-2', category: 'hematology', preferredUnit: '10^9/L' },
+  { code: 'PLT', name: 'Platelet Count', synonyms: ['plt', 'platelets', 'thrombocytes'], loinc: '777-3', category: 'hematology', preferredUnit: '10^9/L' },
+  { code: 'MCV', name: 'Mean Corpuscular Volume', synonyms: ['mcv', 'mean cell volume'], loinc: '787-2', category: 'hematology', preferredUnit: 'fL' },
+  { code: 'MCH', name: 'Mean Corpuscular Hemoglobin', synonyms: ['mch', 'mean cell haemoglobin', 'mean cell hemoglobin'], loinc: '785-6', category: 'hematology', preferredUnit: 'pg' },
+  { code: 'MCHC', name: 'Mean Corpuscular Hemoglobin Concentration', synonyms: ['mchc', 'mean cell haemoglobin concentration'], loinc: '786-4', category: 'hematology', preferredUnit: 'g/dL' },
+  { code: 'RDW', name: 'Red Cell Distribution Width', synonyms: ['rdw', 'rdw cv', 'rdw-cv'], loinc: '788-0', category: 'hematology', preferredUnit: '%' },
+  { code: 'NEUT_ABS', name: 'Neutrophils (Absolute)', synonyms: ['absolute neutrophils', 'neutrophils absolute', 'neutrophil count', 'anc'], loinc: '751-8', category: 'hematology', preferredUnit: '10^9/L' },
+  { code: 'LYMPH_ABS', name: 'Lymphocytes (Absolute)', synonyms: ['absolute lymphocytes', 'lymphocytes absolute', 'lymphocyte count'], loinc: '731-0', category: 'hematology', preferredUnit: '10^9/L' },
+  { code: 'MONO_ABS', name: 'Monocytes (Absolute)', synonyms: ['absolute monocytes', 'monocytes absolute', 'monocyte count'], loinc: '742-7', category: 'hematology', preferredUnit: '10^9/L' },
+  { code: 'EOS_ABS', name: 'Eosinophils (Absolute)', synonyms: ['absolute eosinophils', 'eosinophils absolute', 'eosinophil count'], loinc: '711-2', category: 'hematology', preferredUnit: '10^9/L' },
+  { code: 'BASO_ABS', name: 'Basophils (Absolute)', synonyms: ['absolute basophils', 'basophils absolute', 'basophil count'], loinc: '704-7', category: 'hematology', preferredUnit: '10^9/L' },
+  { code: 'NEUT_PCT', name: 'Neutrophils (%)', synonyms: ['neutrophils %', '% neutrophils', 'neutrophil %', 'neutrophils percent', 'neut %'], loinc: '770-8', category: 'hematology', preferredUnit: '%' },
+  { code: 'LYMPH_PCT', name: 'Lymphocytes (%)', synonyms: ['lymphocytes %', '% lymphocytes', 'lymphocyte %', 'lymphocytes percent', 'lymph %'], loinc: '736-9', category: 'hematology', preferredUnit: '%' },
+  { code: 'MONO_PCT', name: 'Monocytes (%)', synonyms: ['monocytes %', '% monocytes', 'monocyte %', 'monocytes percent', 'mono %'], loinc: '5905-5', category: 'hematology', preferredUnit: '%' },
+  { code: 'EOS_PCT', name: 'Eosinophils (%)', synonyms: ['eosinophils %', '% eosinophils', 'eosinophil %', 'eosinophils percent', 'eos %'], loinc: '713-8', category: 'hematology', preferredUnit: '%' },
+  { code: 'BASO_PCT', name: 'Basophils (%)', synonyms: ['basophils %', '% basophils', 'basophil %', 'basophils percent', 'baso %'], loinc: '706-2', category: 'hematology', preferredUnit: '%' },
+  { code: 'ESR', name: 'Erythrocyte Sedimentation Rate', synonyms: ['esr', 'sed rate', 'sedimentation rate'], loinc: '4537-7', category: 'inflammation', preferredUnit: 'mm/h' },
+
+  // Metabolic, electrolytes and renal
+  { code: 'GLU', name: 'Glucose', synonyms: ['glucose', 'blood glucose', 'fasting glucose', 'glucose fasting', 'blood sugar', 'fbs'], loinc: '2345-7', category: 'metabolic', preferredUnit: 'mg/dL' },
+  { code: 'NA', name: 'Sodium', synonyms: ['sodium', 'na', 'na+'], loinc: '2951-2', category: 'electrolyte', preferredUnit: 'mmol/L' },
+  { code: 'K', name: 'Potassium', synonyms: ['potassium', 'k', 'k+'], loinc: '2823-3', category: 'electrolyte', preferredUnit: 'mmol/L' },
+  { code: 'CL', name: 'Chloride', synonyms: ['chloride', 'cl'], loinc: '2075-0', category: 'electrolyte', preferredUnit: 'mmol/L' },
+  { code: 'CO2', name: 'Bicarbonate', synonyms: ['bicarbonate', 'co2', 'carbon dioxide', 'total co2', 'hco3'], loinc: '2028-9', category: 'electrolyte', preferredUnit: 'mmol/L' },
+  { code: 'CA', name: 'Calcium', synonyms: ['calcium', 'ca', 'total calcium'], loinc: '17861-6', category: 'electrolyte', preferredUnit: 'mg/dL' },
+  { code: 'MG', name: 'Magnesium', synonyms: ['magnesium', 'mg'], loinc: '19123-9', category: 'electrolyte', preferredUnit: 'mg/dL' },
+  { code: 'PHOS', name: 'Phosphorus', synonyms: ['phosphorus', 'phosphate', 'inorganic phosphate'], loinc: '2777-1', category: 'electrolyte', preferredUnit: 'mg/dL' },
+  { code: 'ANION_GAP', name: 'Anion Gap', synonyms: ['anion gap', 'anion gap na-(cl+co2)'], loinc: '33037-3', category: 'electrolyte', preferredUnit: 'mmol/L' },
+  { code: 'CA_CORR', name: 'Calcium, Corrected', synonyms: ['corrected calcium', 'calcium corrected', 'adjusted calcium', 'albumin adjusted calcium', 'albumin-adjusted calcium'], loinc: '29265-6', category: 'electrolyte', preferredUnit: 'mg/dL' },
+  { code: 'BUN', name: 'Blood Urea Nitrogen', synonyms: ['bun', 'urea nitrogen', 'blood urea nitrogen'], loinc: '3094-0', category: 'renal', preferredUnit: 'mg/dL' },
+  { code: 'UREA', name: 'Urea', synonyms: ['urea', 'serum urea'], loinc: '3091-6', category: 'renal', preferredUnit: 'mmol/L' },
+  { code: 'CREAT', name: 'Creatinine', synonyms: ['creatinine', 'creat', 'serum creatinine'], loinc: '2160-0', category: 'renal', preferredUnit: 'mg/dL' },
+  { code: 'EGFR', name: 'eGFR', synonyms: ['egfr', 'estimated gfr', 'glomerular filtration rate', 'egfr ckd-epi'], loinc: '98979-8', category: 'renal', preferredUnit: 'mL/min/1.73m2' },
+  { code: 'URIC', name: 'Uric Acid', synonyms: ['uric acid', 'urate'], loinc: '3084-1', category: 'renal', preferredUnit: 'mg/dL' },
+  { code: 'BUN_CREAT_RATIO', name: 'BUN/Creatinine Ratio', synonyms: ['bun/creatinine ratio', 'bun/creat ratio', 'bun creatinine ratio', 'urea nitrogen/creatinine ratio'], loinc: '3097-3', category: 'renal', preferredUnit: '' },
+
+  // Liver and proteins
+  { code: 'ALT', name: 'Alanine Aminotransferase', synonyms: ['alt', 'sgpt', 'alanine transaminase', 'alanine aminotransferase'], loinc: '1742-6', category: 'liver', preferredUnit: 'U/L' },
+  { code: 'AST', name: 'Aspartate Aminotransferase', synonyms: ['ast', 'sgot', 'aspartate transaminase', 'aspartate aminotransferase'], loinc: '1920-8', category: 'liver', preferredUnit: 'U/L' },
+  { code: 'ALP', name: 'Alkaline Phosphatase', synonyms: ['alp', 'alk phos', 'alkaline phosphatase'], loinc: '6768-6', category: 'liver', preferredUnit: 'U/L' },
+  { code: 'GGT', name: 'Gamma-Glutamyl Transferase', synonyms: ['ggt', 'gamma gt', 'gamma glutamyl transferase', 'ggtp'], loinc: '2324-2', category: 'liver', preferredUnit: 'U/L' },
+  { code: 'TBIL', name: 'Bilirubin, Total', synonyms: ['bilirubin', 'total bilirubin', 'bilirubin total', 'tbil'], loinc: '1975-2', category: 'liver', preferredUnit: 'mg/dL' },
+  { code: 'TP', name: 'Total Protein', synonyms: ['total protein', 'protein total', 'protein'], loinc: '2885-2', category: 'liver', preferredUnit: 'g/dL' },
+  { code: 'ALB', name: 'Albumin', synonyms: ['albumin', 'alb', 'serum albumin'], loinc: '1751-7', category: 'liver', preferredUnit: 'g/dL' },
+  { code: 'GLOB', name: 'Globulin', synonyms: ['globulin', 'total globulin'], loinc: '10834-0', category: 'liver', preferredUnit: 'g/dL' },
+
+  // Lipids
+  { code: 'CHOL', name: 'Total Cholesterol', synonyms: ['cholesterol', 'total cholesterol', 'cholesterol total', 'tc'], loinc: '2093-3', category: 'lipid', preferredUnit: 'mg/dL' },
+  { code: 'HDL', name: 'HDL Cholesterol', synonyms: ['hdl', 'hdl cholesterol', 'hdl-c', 'cholesterol hdl'], loinc: '2085-9', category: 'lipid', preferredUnit: 'mg/dL' },
+  { code: 'LDL', name: 'LDL Cholesterol', synonyms: ['ldl', 'ldl cholesterol', 'ldl-c', 'ldl calculated', 'ldl cholesterol calc', 'cholesterol ldl'], loinc: '13457-7', category: 'lipid', preferredUnit: 'mg/dL' },
+  { code: 'TRIG', name: 'Triglycerides', synonyms: ['triglycerides', 'triglyceride', 'trig', 'tg'], loinc: '2571-8', category: 'lipid', preferredUnit: 'mg/dL' },
+  { code: 'NON_HDL', name: 'Non-HDL Cholesterol', synonyms: ['non-hdl', 'non hdl cholesterol', 'non-hdl cholesterol'], loinc: '43396-1', category: 'lipid', preferredUnit: 'mg/dL' },
+  { code: 'CHOL_HDL_RATIO', name: 'Cholesterol/HDL Ratio', synonyms: ['chol/hdl ratio', 'tc/hdl ratio', 'cholesterol/hdl ratio', 'total cholesterol/hdl ratio', 'chol/hdlc ratio'], loinc: '9830-1', category: 'lipid', preferredUnit: '' },
+
+  // Diabetes
+  { code: 'HBA1C', name: 'Hemoglobin A1c', synonyms: ['hba1c', 'a1c', 'hemoglobin a1c', 'haemoglobin a1c', 'glycated hemoglobin', 'glycosylated hemoglobin'], loinc: '4548-4', category: 'diabetes', preferredUnit: '%' },
+  { code: 'INSULIN', name: 'Insulin', synonyms: ['insulin', 'fasting insulin'], loinc: '20448-7', category: 'diabetes', preferredUnit: 'uIU/mL' },
+  { code: 'HOMA_IR', name: 'HOMA-IR', synonyms: ['homa-ir', 'homa ir', 'homa insulin resistance'], category: 'diabetes', preferredUnit: '' },
+
+  // Thyroid
+  { code: 'TSH', name: 'Thyroid Stimulating Hormone', synonyms: ['tsh', 'thyrotropin', 'thyroid stimulating hormone'], loinc: '3016-3', category: 'thyroid', preferredUnit: 'mIU/L' },
+  { code: 'FT4', name: 'Free T4', synonyms: ['free t4', 'ft4', 'free thyroxine', 't4 free'], loinc: '3024-7', category: 'thyroid', preferredUnit: 'ng/dL' },
+  { code: 'FT3', name: 'Free T3', synonyms: ['free t3', 'ft3', 'free triiodothyronine', 't3 free'], loinc: '3051-0', category: 'thyroid', preferredUnit: 'pg/mL' },
+
+  // Hormones
+  { code: 'TESTO', name: 'Testosterone, Total', synonyms: ['testosterone', 'total testosterone', 'testosterone total'], loinc: '2986-8', category: 'hormone', preferredUnit: 'ng/dL' },
+  { code: 'FREE_TESTO', name: 'Testosterone, Free', synonyms: ['free testosterone', 'testosterone free'], loinc: '2991-8', category: 'hormone', preferredUnit: 'pg/mL' },
+  { code: 'FAI', name: 'Free Androgen Index', synonyms: ['free androgen index', 'fai', 'free testosterone index'], category: 'hormone', preferredUnit: '%' },
+  { code: 'SHBG', name: 'Sex Hormone Binding Globulin', synonyms: ['shbg', 'sex hormone binding globulin'], loinc: '13967-5', category: 'hormone', preferredUnit: 'nmol/L' },
+  { code: 'E2', name: 'Estradiol', synonyms: ['estradiol', 'oestradiol', 'e2'], loinc: '2243-4', category: 'hormone', preferredUnit: 'pg/mL' },
+  { code: 'LH', name: 'Luteinizing Hormone', synonyms: ['lh', 'luteinizing hormone', 'luteinising hormone'], loinc: '10501-5', category: 'hormone', preferredUnit: 'mIU/mL' },
+  { code: 'FSH', name: 'Follicle Stimulating Hormone', synonyms: ['fsh', 'follicle stimulating hormone'], loinc: '15067-2', category: 'hormone', preferredUnit: 'mIU/mL' },
+  { code: 'PRL', name: 'Prolactin', synonyms: ['prolactin', 'prl'], loinc: '2842-3', category: 'hormone', preferredUnit: 'ng/mL' },
+  { code: 'CORTISOL', name: 'Cortisol', synonyms: ['cortisol', 'cortisol am', 'morning cortisol'], loinc: '2143-6', category: 'hormone', preferredUnit: 'ug/dL' },
+  { code: 'DHEAS', name: 'DHEA Sulfate', synonyms: ['dhea-s', 'dheas', 'dhea sulfate', 'dhea sulphate'], loinc: '2191-5', category: 'hormone', preferredUnit: 'ug/dL' },
+  { code: 'PROG', name: 'Progesterone', synonyms: ['progesterone'], loinc: '2839-9', category: 'hormone', preferredUnit: 'ng/mL' },
+
+  // Iron studies
+  { code: 'FERR', name: 'Ferritin', synonyms: ['ferritin', 'serum ferritin'], loinc: '2276-4', category: 'iron', preferredUnit: 'ng/mL' },
+  { code: 'IRON', name: 'Iron', synonyms: ['iron', 'serum iron', 'iron total'], loinc: '2498-4', category: 'iron', preferredUnit: 'ug/dL' },
+  { code: 'TIBC', name: 'Total Iron Binding Capacity', synonyms: ['tibc', 'total iron binding capacity', 'iron binding capacity'], loinc: '2500-7', category: 'iron', preferredUnit: 'ug/dL' },
+  { code: 'TSAT', name: 'Transferrin Saturation', synonyms: ['transferrin saturation', 'iron saturation', 'tsat', '% saturation'], loinc: '2502-3', category: 'iron', preferredUnit: '%' },
+  { code: 'TRF', name: 'Transferrin', synonyms: ['transferrin'], loinc: '3034-6', category: 'iron', preferredUnit: 'mg/dL' },
+
+  // Vitamins
+  { code: 'VITD', name: 'Vitamin D, 25-Hydroxy', synonyms: ['vitamin d', '25-oh vitamin d', '25-hydroxy vitamin d', 'vitamin d 25-hydroxy', '25(oh)d', 'vitamin d total'], loinc: '1989-3', category: 'vitamin', preferredUnit: 'ng/mL' },
+  { code: 'B12', name: 'Vitamin B12', synonyms: ['vitamin b12', 'b12', 'cobalamin', 'cyanocobalamin'], loinc: '2132-9', category: 'vitamin', preferredUnit: 'pg/mL' },
+  { code: 'FOLATE', name: 'Folate', synonyms: ['folate', 'folic acid', 'serum folate'], loinc: '2284-8', category: 'vitamin', preferredUnit: 'ng/mL' },
+
+  // Inflammation and immunology
+  { code: 'CRP', name: 'C-Reactive Protein', synonyms: ['crp', 'c-reactive protein', 'c reactive protein'], loinc: '1988-5', category: 'inflammation', preferredUnit: 'mg/L' },
+  { code: 'HSCRP', name: 'hs-CRP', synonyms: ['hs-crp', 'hscrp', 'high sensitivity crp', 'crp high sensitivity'], loinc: '30522-7', category: 'inflammation', preferredUnit: 'mg/L' },
+  { code: 'IGG', name: 'Immunoglobulin G', synonyms: ['igg', 'immunoglobulin g'], loinc: '2465-3', category: 'immunology', preferredUnit: 'mg/dL' },
+  { code: 'IGA', name: 'Immunoglobulin A', synonyms: ['iga', 'immunoglobulin a'], loinc: '2458-8', category: 'immunology', preferredUnit: 'mg/dL' },
+  { code: 'IGM', name: 'Immunoglobulin M', synonyms: ['igm', 'immunoglobulin m'], loinc: '2472-9', category: 'immunology', preferredUnit: 'mg/dL' },
+
+  // Tumour markers
+  { code: 'PSA', name: 'Prostate Specific Antigen', synonyms: ['psa', 'total psa', 'prostate specific antigen'], loinc: '2857-1', category: 'tumor-marker', preferredUnit: 'ng/mL' },
+
+  // Urinalysis
+  { code: 'U_PH', name: 'Urine pH', synonyms: ['urine ph', 'ph urine'], loinc: '2756-5', category: 'urinalysis', preferredUnit: '' },
+  { code: 'U_SG', name: 'Urine Specific Gravity', synonyms: ['specific gravity', 'urine specific gravity', 'sg'], loinc: '2965-2', category: 'urinalysis', preferredUnit: '' },
+  { code: 'U_PROT', name: 'Urine Protein', synonyms: ['urine protein', 'protein urine'], loinc: '2888-6', category: 'urinalysis', preferredUnit: 'mg/dL' },
+  { code: 'U_GLU', name: 'Urine Glucose', synonyms: ['urine glucose', 'glucose urine'], loinc: '2350-7', category: 'urinalysis', preferredUnit: 'mg/dL' },
+];
+
+/**
+ * Words labs add around an analyte name that don't change its identity
+ */
+const QUALIFIER_PATTERN = /\b(serum|plasma|blood|whole blood|level|levels|s|p|b|calc|calculated|direct)\b/g;
+
+/**
+ * Differential labels printed both as a percentage and as an absolute
+ * count - the row's unit decides which analyte it is
+ */
+const DIFFERENTIAL_LABELS: Record<string, { percent: string; absolute: string }> = {
+  neutrophils: { percent: 'NEUT_PCT', absolute: 'NEUT_ABS' },
+  lymphocytes: { percent: 'LYMPH_PCT', absolute: 'LYMPH_ABS' },
+  monocytes: { percent: 'MONO_PCT', absolute: 'MONO_ABS' },
+  eosinophils: { percent: 'EOS_PCT', absolute: 'EOS_ABS' },
+  basophils: { percent: 'BASO_PCT', absolute: 'BASO_ABS' },
+};
+
+const byCode = new Map(ANALYTE_CATALOGUE.map(analyte => [analyte.code, analyte]));
+const bySynonym = new Map<string, AnalyteDefinition>();
+for (const analyte of ANALYTE_CATALOGUE) {
+  for (const label of [analyte.name, analyte.code, ...analyte.synonyms]) {
+    bySynonym.set(normalizeLabel(label), analyte);
+  }
+}
+
+/**
+ * Reduces a printed label to a comparable key
+ * e.g. "Haemoglobin (Hb) - Serum:" -> "haemoglobin hb"
+ */
+export function normalizeLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[,:;*]/g, ' ')
+    .replace(/[()[\]]/g, ' ')
+    .replace(/\s+-\s+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Resolves a raw lab label to its catalogue entry
+ *
+ * WHY: Exact synonym matches are tried first. If that fails, common
+ * qualifiers ("serum", "calc") are dropped, then the label is split on
+ * brackets so "Haemoglobin (Hb)" matches through either part. A bare
+ * differential label ("Neutrophils") needs the unit - without one it
+ * stays uncoded rather than guessing percentage or count.
+ */
+export function normalizeAnalyte(rawLabel: string, unit?: string): AnalyteDefinition | undefined {
+  const key = normalizeLabel(rawLabel);
+  const exact = lookupLabel(key, unit);
+  if (exact) return exact;
+
+  const withoutQualifiers = key.replace(QUALIFIER_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+  const stripped = lookupLabel(withoutQualifiers, unit);
+  if (stripped) return stripped;
+
+  const parts = rawLabel.split(/[()[\]]/).map(normalizeLabel).filter(Boolean);
+  for (const part of parts) {
+    const match = lookupLabel(part, unit);
+    if (match) return match;
+  }
+
+  return undefined;
+}
+
+function lookupLabel(key: string, unit: string | undefined): AnalyteDefinition | undefined {
+  const differential = DIFFERENTIAL_LABELS[key];
+  if (!differential) {
+    return bySynonym.get(key);
+  }
+
+  const printedUnit = unit?.trim();
+  if (!printedUnit) return undefined;
+  return byCode.get(printedUnit === '%' ? differential.percent : differential.absolute);
+}
+
+/**
+ * Looks up an analyte by its canonical code
+ */
+export function findAnalyteByCode(code: string | undefined): AnalyteDefinition | undefined {
+  return code ? byCode.get(code) : undefined;
+}
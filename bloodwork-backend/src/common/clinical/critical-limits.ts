@@ -0,0 +1,64 @@
+/**
+ * Critical Limits - Per-analyte values that need urgent attention
+ *
+ * WHY: "Critical" is a clinical term with published thresholds per analyte
+ * (potassium below 2.8 or above 6.2 mmol/L is a call-the-patient value),
+ * not a fixed percentage beyond the reference range. A percentage rule
+ * flags a glucose of 150 mg/dL as critical and misses a potassium of 6.5.
+ *
+ * FUNCTIONALITY:
+ * - Default critical limits keyed by analyte code, in the catalogue's
+ *   preferred unit
+ * - Lookup that ignores limits when the result is in a different unit
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * configuration.ts merges CRITICAL_LIMITS overrides over these defaults
+ * result-status.ts -> findCriticalLimit() -> 'critical' status
+ */
+
+import { normalizeUnit } from './unit-conversion';
+
+export interface CriticalLimit {
+  low?: number;
+  high?: number;
+  unit: string;
+}
+
+/**
+ * Adult critical (panic) values commonly used by hospital laboratories
+ * Analytes without an entry are never computed as critical
+ */
+export const DEFAULT_CRITICAL_LIMITS: Record<string, CriticalLimit> = {
+  K: { low: 2.8, high: 6.2, unit: 'mmol/L' },
+  NA: { low: 120, high: 160, unit: 'mmol/L' },
+  CL: { low: 80, high: 120, unit: 'mmol/L' },
+  CO2: { low: 10, high: 40, unit: 'mmol/L' },
+  CA: { low: 6.0, high: 13.0, unit: 'mg/dL' },
+  MG: { low: 1.0, high: 4.7, unit: 'mg/dL' },
+  PHOS: { low: 1.0, unit: 'mg/dL' },
+  GLU: { low: 40, high: 500, unit: 'mg/dL' },
+  CREAT: { high: 7.4, unit: 'mg/dL' },
+  TBIL: { high: 15, unit: 'mg/dL' },
+  HGB: { low: 7.0, high: 20.0, unit: 'g/dL' },
+  HCT: { low: 20, high: 60, unit: '%' },
+  WBC: { low: 2.0, high: 30.0, unit: '10^9/L' },
+  NEUT_ABS: { low: 0.5, unit: '10^9/L' },
+  PLT: { low: 20, high: 1000, unit: '10^9/L' },
+};
+
+/**
+ * Critical limit for an analyte, if one applies to the result's unit
+ *
+ * WHY: Results whose unit couldn't be converted to the preferred unit keep
+ * the lab's unit; comparing them against a limit in another unit would
+ * produce nonsense, so no limit is returned.
+ */
+export function findCriticalLimit(
+  analyteCode: string | undefined,
+  unit: string,
+  limits: Record<string, CriticalLimit> = DEFAULT_CRITICAL_LIMITS,
+): CriticalLimit | undefined {
+  const limit = analyteCode ? limits[analyteCode] : undefined;
+  if (!limit || normalizeUnit(limit.unit) !== normalizeUnit(unit)) return undefined;
+  return limit;
+}
@@ -0,0 +1,93 @@
+import { BloodworkResult, TestResult } from '../entities/bloodwork-result.entity';
+import { annotateDeltas, referenceChangeValue } from './delta-checks';
+
+function test(canonicalCode: string, value: number, overrides: Partial<TestResult> = {}): TestResult {
+  return {
+    id: canonicalCode,
+    testName: canonicalCode,
+    canonicalCode,
+    value,
+    unit: 'mg/dL',
+    referenceRange: { min: null, max: 100 },
+    status: 'normal',
+    ...overrides,
+  };
+}
+
+function report(id: string, testDate: string, results: TestResult[]): BloodworkResult {
+  return { id, testDate, results } as BloodworkResult;
+}
+
+function deltaOf(current: TestResult, previous: TestResult) {
+  return annotateDeltas([current], '2025-06-01', [report('previous', '2025-01-15', [previous])])[0].delta;
+}
+
+describe('referenceChangeValue', () => {
+  it('should combine analytical and biological variation', () => {
+    // sqrt(2) x 1.96 x sqrt((CVi / 2)^2 + CVi^2)
+    expect(referenceChangeValue('LDL')).toBe(25.7);
+    expect(referenceChangeValue('NA')).toBe(1.9);
+    expect(referenceChangeValue('CREAT')).toBe(16.4);
+    expect(referenceChangeValue('TRIG')).toBe(64.8);
+    expect(referenceChangeValue('UNKNOWN')).toBeNull();
+    expect(referenceChangeValue(undefined)).toBeNull();
+  });
+});
+
+describe('annotateDeltas', () => {
+  it('should call a change beyond the RCV significant and judge it against the range', () => {
+    expect(deltaOf(test('LDL', 130), test('LDL', 100))).toEqual({
+      previousResultId: 'previous',
+      previousTestId: 'LDL',
+      previousDate: '2025-01-15',
+      previousValue: 100,
+      change: 30,
+      percentChange: 30,
+      referenceChangeValue: 25.7,
+      significant: true,
+      direction: 'increase',
+      assessment: 'worsened',
+    });
+    expect(deltaOf(test('LDL', 100), test('LDL', 140))).toMatchObject({ percentChange: -28.6, significant: true, assessment: 'improved' });
+  });
+
+  it('should not call a change within the RCV significant', () => {
+    expect(deltaOf(test('LDL', 120), test('LDL', 100))).toMatchObject({ percentChange: 20, significant: false, assessment: 'not_significant' });
+  });
+
+  it('should judge small changes of tightly controlled analytes', () => {
+    const sodium = (value: number) => test('NA', value, { unit: 'mmol/L', referenceRange: { min: 135, max: 145 } });
+
+    expect(deltaOf(sodium(137), sodium(140))).toMatchObject({ percentChange: -2.1, significant: true, direction: 'decrease', assessment: 'changed' });
+  });
+
+  it('should compare values printed in different units', () => {
+    const current = test('GLU', 110, { referenceRange: { min: 70, max: 99 } });
+    const previous = test('GLU', 5.0, { unit: 'mmol/L', referenceRange: { min: 3.9, max: 5.5 } });
+
+    expect(deltaOf(current, previous)).toMatchObject({ previousValue: 90.08, percentChange: 22.1, referenceChangeValue: 17.4, significant: true });
+  });
+
+  it('should leave significance open for analytes without variation data', () => {
+    expect(deltaOf(test('VITD', 40, { unit: 'ng/mL' }), test('VITD', 20, { unit: 'ng/mL' }))).toMatchObject({
+      significant: null,
+      assessment: null,
+    });
+  });
+
+  it('should compare with the latest earlier result only', () => {
+    const [annotated] = annotateDeltas([test('LDL', 130)], '2025-06-01', [
+      report('oldest', '2024-01-01', [test('LDL', 90)]),
+      report('latest', '2025-01-15', [test('LDL', 125)]),
+      report('later', '2025-09-01', [test('LDL', 60)]),
+    ]);
+
+    expect(annotated.delta).toMatchObject({ previousResultId: 'latest', previousValue: 125 });
+  });
+
+  it('should skip values that can\'t be compared', () => {
+    expect(deltaOf(test('LDL', 130, { comparator: '>' }), test('LDL', 100))).toBeUndefined();
+    expect(deltaOf(test('LDL', 130), test('LDL', 100, { needsReview: true }))).toBeUndefined();
+    expect(deltaOf(test('ALT', 40, { unit: 'U/L' }), test('ALT', 0.5, { unit: 'ukat/L' }))).toBeUndefined();
+  });
+});
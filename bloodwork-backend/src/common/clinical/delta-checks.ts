@@ -0,0 +1,194 @@
+/**
+ * Delta Checks - Has a value really changed since the user's last test?
+ *
+ * WHY: "Did it get better?" is the question users ask most, and a raw
+ * difference can't answer it: two draws from the same healthy person
+ * differ through assay imprecision and normal day-to-day biology alone.
+ * A change only means something once it exceeds the reference change
+ * value (RCV) - the change those two sources of variation explain 95% of
+ * the time, which differs a lot between analytes (sodium barely moves,
+ * triglycerides swing by a fifth).
+ *
+ * FUNCTIONALITY:
+ * - Within-person biological variation (CVi) per analyte
+ * - Reference change value: sqrt(2) x 1.96 x sqrt(CVa^2 + CVi^2)
+ * - Change since the latest earlier value, its significance, and whether
+ *   it moved toward or away from the reference range
+ *
+ * CVi figures are from the Westgard/Ricos biological variation database.
+ * The lab's own analytical imprecision (CVa) is rarely printed, so it
+ * defaults to the desirable specification of half the CVi.
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * ResultsService.findByIdWithEnhancements() -> annotateDeltas()
+ * React Native ResultSummary shows "up 12% since March - significant"
+ */
+
+import { BloodworkResult, DeltaCheck, TestResult } from '../entities/bloodwork-result.entity';
+import { convertTestResult, normalizeUnit } from './unit-conversion';
+
+interface BiologicalVariation {
+  /**
+   * Within-subject biological variation (%)
+   */
+  cvi: number;
+  /**
+   * Analytical imprecision (%) - defaults to cvi / 2
+   */
+  cva?: number;
+}
+
+/**
+ * z for a two-sided 95% probability
+ */
+const Z_95 = 1.96;
+
+export const BIOLOGICAL_VARIATION: Record<string, BiologicalVariation> = {
+  HGB: { cvi: 2.8 },
+  HCT: { cvi: 2.8 },
+  RBC: { cvi: 3.2 },
+  WBC: { cvi: 10.9 },
+  PLT: { cvi: 9.1 },
+  MCV: { cvi: 1.3 },
+  MCH: { cvi: 1.6 },
+  MCHC: { cvi: 1.7 },
+  RDW: { cvi: 3.5 },
+  NEUT_ABS: { cvi: 16.1 },
+  LYMPH_ABS: { cvi: 10.4 },
+  MONO_ABS: { cvi: 17.8 },
+  EOS_ABS: { cvi: 21.0 },
+  GLU: { cvi: 5.6 },
+  NA: { cvi: 0.6 },
+  K: { cvi: 4.6 },
+  CL: { cvi: 1.2 },
+  CO2: { cvi: 4.8 },
+  CA: { cvi: 2.1 },
+  MG: { cvi: 3.6 },
+  PHOS: { cvi: 8.5 },
+  BUN: { cvi: 12.3 },
+  UREA: { cvi: 12.3 },
+  CREAT: { cvi: 5.3 },
+  EGFR: { cvi: 5.3 },
+  URIC: { cvi: 9.0 },
+  ALT: { cvi: 19.4 },
+  AST: { cvi: 12.3 },
+  ALP: { cvi: 6.4 },
+  GGT: { cvi: 13.8 },
+  TBIL: { cvi: 23.8 },
+  TP: { cvi: 2.7 },
+  ALB: { cvi: 3.1 },
+  CHOL: { cvi: 5.4 },
+  HDL: { cvi: 7.1 },
+  LDL: { cvi: 8.3 },
+  TRIG: { cvi: 20.9 },
+  HBA1C: { cvi: 1.9 },
+  INSULIN: { cvi: 21.1 },
+  TSH: { cvi: 19.3 },
+  FT4: { cvi: 7.6 },
+  FT3: { cvi: 7.9 },
+  TESTO: { cvi: 9.3 },
+  SHBG: { cvi: 12.1 },
+  CORTISOL: { cvi: 20.9 },
+  DHEAS: { cvi: 4.2 },
+  FERR: { cvi: 14.2 },
+  IRON: { cvi: 26.5 },
+  TRF: { cvi: 3.0 },
+  B12: { cvi: 15.0 },
+  FOLATE: { cvi: 24.0 },
+  CRP: { cvi: 42.2 },
+  HSCRP: { cvi: 42.2 },
+  IGG: { cvi: 4.5 },
+  IGA: { cvi: 5.4 },
+  IGM: { cvi: 5.9 },
+  PSA: { cvi: 18.1 },
+};
+
+/**
+ * Reference change value (%) for an analyte, or null without variation data
+ */
+export function referenceChangeValue(canonicalCode: string | undefined): number | null {
+  const variation = canonicalCode ? BIOLOGICAL_VARIATION[canonicalCode] : undefined;
+  if (!variation) return null;
+
+  const cva = variation.cva ?? variation.cvi / 2;
+  return Number((Math.SQRT2 * Z_95 * Math.sqrt(cva ** 2 + variation.cvi ** 2)).toFixed(1));
+}
+
+/**
+ * Adds to each test the change since the latest earlier value of its analyte
+ *
+ * Only exact numbers are compared - censored ("<0.5") and qualitative
+ * values, rows awaiting review, and values whose unit can't be converted
+ * are skipped. Pass the user's other results; later ones are ignored.
+ */
+export function annotateDeltas(tests: TestResult[], testDate: string, otherResults: BloodworkResult[]): TestResult[] {
+  const testTime = Date.parse(testDate);
+  const earlier = otherResults
+    .filter(result => Date.parse(result.testDate) < testTime)
+    .sort((a, b) => Date.parse(b.testDate) - Date.parse(a.testDate));
+
+  return tests.map(test => {
+    if (!isComparable(test)) return test;
+
+    for (const result of earlier) {
+      for (const row of result.results.filter(candidate => candidate.canonicalCode === test.canonicalCode)) {
+        const delta = deltaBetween(test, row, result);
+        if (delta) return { ...test, delta };
+      }
+    }
+    return test;
+  });
+}
+
+/**
+ * Change from an earlier row of the same analyte, in the current test's unit
+ * Undefined when either value can't be compared
+ */
+export function deltaBetween(test: TestResult, previousRow: TestResult, previousResult: BloodworkResult): DeltaCheck | undefined {
+  if (!isComparable(test) || !isComparable(previousRow)) return undefined;
+
+  const previous = convertTestResult(previousRow, test.unit);
+  if (normalizeUnit(previous.unit) !== normalizeUnit(test.unit)) return undefined;
+  return compare(test, previous, previousResult);
+}
+
+function isComparable(test: TestResult): boolean {
+  return !!test.canonicalCode && test.value !== null && test.comparator === undefined && !test.needsReview;
+}
+
+function compare(test: TestResult, previous: TestResult, previousResult: BloodworkResult): DeltaCheck {
+  const current = test.value!;
+  const before = previous.value!;
+  const change = current - before;
+  const percentChange = before === 0 ? null : (change / Math.abs(before)) * 100;
+  const rcv = referenceChangeValue(test.canonicalCode);
+
+  const significant = rcv === null ? null : change !== 0 && (percentChange === null || Math.abs(percentChange) > rcv);
+
+  return {
+    previousResultId: previousResult.id,
+    previousTestId: previous.id,
+    previousDate: previousResult.testDate,
+    previousValue: before,
+    change: Number(change.toPrecision(4)),
+    percentChange: percentChange === null ? null : Number(percentChange.toFixed(1)),
+    referenceChangeValue: rcv,
+    significant,
+    direction: change > 0 ? 'increase' : change < 0 ? 'decrease' : 'unchanged',
+    assessment: significant === null ? null : significant ? assess(test, current, before) : 'not_significant',
+  };
+}
+
+/**
+ * Improved or worsened by distance from the current reference range
+ */
+function assess(test: TestResult, current: number, before: number): DeltaCheck['assessment'] {
+  const { min, max } = test.referenceRange;
+  const distance = (value: number) => (min !== null && value < min ? min - value : max !== null && value > max ? value - max : 0);
+
+  const now = distance(current);
+  const then = distance(before);
+  if (now < then) return 'improved';
+  if (now > then) return 'worsened';
+  return 'changed';
+}
@@ -0,0 +1,118 @@
+import { TestResult } from '../entities/bloodwork-result.entity';
+import { BiologicalSex } from '../entities/user-profile.entity';
+import { calculateDerivedMarkers } from './derived-markers';
+
+const { MALE, FEMALE } = BiologicalSex;
+
+function printed(canonicalCode: string, value: number, unit: string, overrides: Partial<TestResult> = {}): TestResult {
+  return {
+    id: canonicalCode,
+    testName: canonicalCode,
+    canonicalCode,
+    value,
+    unit,
+    referenceRange: { min: null, max: null },
+    status: 'normal',
+    ...overrides,
+  };
+}
+
+function derivedValue(results: TestResult[], code: string, demographics = {}): number | null | undefined {
+  return calculateDerivedMarkers(results, demographics).find(result => result.canonicalCode === code)?.value;
+}
+
+function lipids(triglycerides: number): TestResult[] {
+  return [printed('CHOL', 250, 'mg/dL'), printed('HDL', 40, 'mg/dL'), printed('TRIG', triglycerides, 'mg/dL')];
+}
+
+describe('calculateDerivedMarkers', () => {
+  describe('eGFR (CKD-EPI 2021)', () => {
+    it('should match published values', () => {
+      const creatinine = (value: number) => [printed('CREAT', value, 'mg/dL')];
+
+      expect(derivedValue(creatinine(1.0), 'EGFR', { ageYears: 50, sex: MALE })).toBe(92);
+      expect(derivedValue(creatinine(2.0), 'EGFR', { ageYears: 70, sex: MALE })).toBe(35);
+      expect(derivedValue(creatinine(0.8), 'EGFR', { ageYears: 50, sex: FEMALE })).toBe(90);
+      expect(derivedValue(creatinine(0.6), 'EGFR', { ageYears: 40, sex: FEMALE })).toBe(116);
+    });
+
+    it('should need an adult age and the sex', () => {
+      const creatinine = [printed('CREAT', 1.0, 'mg/dL')];
+
+      expect(derivedValue(creatinine, 'EGFR', { ageYears: 50 })).toBeUndefined();
+      expect(derivedValue(creatinine, 'EGFR', { sex: MALE })).toBeUndefined();
+      expect(derivedValue(creatinine, 'EGFR', { ageYears: 16, sex: MALE })).toBeUndefined();
+    });
+  });
+
+  describe('LDL', () => {
+    it('should use Friedewald up to triglycerides of 400 mg/dL', () => {
+      const [ldl] = calculateDerivedMarkers(lipids(400), {}).filter(result => result.canonicalCode === 'LDL');
+
+      expect(ldl.value).toBe(130);
+      expect(ldl.derivation?.method).toBe('Friedewald');
+    });
+
+    it('should use Sampson above 400 mg/dL and nothing above 800 mg/dL', () => {
+      const [ldl] = calculateDerivedMarkers(lipids(401), {}).filter(result => result.canonicalCode === 'LDL');
+
+      expect(ldl.value).toBe(137);
+      expect(ldl.derivation?.method).toBe('Sampson (NIH equation 2)');
+      expect(derivedValue(lipids(801), 'LDL')).toBeUndefined();
+    });
+
+    it('should not replace an LDL the lab printed', () => {
+      expect(calculateDerivedMarkers([...lipids(150), printed('LDL', 160, 'mg/dL')], {}).some(result => result.canonicalCode === 'LDL')).toBe(false);
+    });
+  });
+
+  describe('free testosterone (Vermeulen)', () => {
+    it('should match the published calculator', () => {
+      // 20 nmol/L total, 40 nmol/L SHBG, 43 g/L albumin -> 0.382 nmol/L free
+      const results = [printed('TESTO', 576.84, 'ng/dL'), printed('SHBG', 40, 'nmol/L'), printed('ALB', 4.3, 'g/dL')];
+
+      expect(derivedValue(results, 'FREE_TESTO')).toBe(110.1);
+    });
+
+    it('should assume an albumin when it isn\'t measured', () => {
+      const [free] = calculateDerivedMarkers([printed('TESTO', 500, 'ng/dL'), printed('SHBG', 40, 'nmol/L')], {});
+
+      expect(free.value).toBe(93.2);
+      expect(free.derivation?.assumptions).toEqual(['Albumin 4.3 g/dL']);
+    });
+  });
+
+  it('should calculate simple markers', () => {
+    const results = [
+      ...lipids(150),
+      printed('NA', 140, 'mmol/L'),
+      printed('CL', 102, 'mmol/L'),
+      printed('CO2', 25, 'mmol/L'),
+      printed('CA', 9.0, 'mg/dL'),
+      printed('ALB', 3.0, 'g/dL'),
+    ];
+
+    expect(derivedValue(results, 'NON_HDL')).toBe(210);
+    expect(derivedValue(results, 'CHOL_HDL_RATIO')).toBe(6.3);
+    expect(derivedValue(results, 'ANION_GAP')).toBe(13);
+    expect(derivedValue(results, 'CA_CORR')).toBe(9.8);
+  });
+
+  it('should skip inputs that are censored or in another unit', () => {
+    expect(derivedValue([printed('CHOL', 250, 'mg/dL'), printed('HDL', 40, 'mg/dL', { comparator: '<' })], 'NON_HDL')).toBeUndefined();
+    expect(derivedValue([printed('CHOL', 6.5, 'mmol/L'), printed('HDL', 1.0, 'mmol/L')], 'NON_HDL')).toBeUndefined();
+  });
+
+  it('should record the formula and inputs of a calculated row', () => {
+    const [nonHdl] = calculateDerivedMarkers([printed('CHOL', 250, 'mg/dL'), printed('HDL', 40, 'mg/dL')], {});
+
+    expect(nonHdl).toMatchObject({ calculated: true, unit: 'mg/dL', status: 'high' });
+    expect(nonHdl.derivation).toMatchObject({
+      formula: 'TC - HDL',
+      inputs: [
+        { name: 'CHOL', testId: 'CHOL', value: 250, unit: 'mg/dL' },
+        { name: 'HDL', testId: 'HDL', value: 40, unit: 'mg/dL' },
+      ],
+    });
+  });
+});
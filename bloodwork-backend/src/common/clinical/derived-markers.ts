@@ -0,0 +1,274 @@
+/**
+ * Derived Markers - Values calculated from a report's printed results
+ *
+ * WHY: Clinicians routinely read values labs don't always print - non-HDL
+ * cholesterol, eGFR, anion gap, corrected calcium. When a report has the
+ * inputs but not the marker, we calculate it so the user sees the same
+ * picture their doctor would. Calculated rows are marked as such and keep
+ * their formula and inputs, so nobody mistakes them for lab measurements.
+ *
+ * FUNCTIONALITY:
+ * - One definition per marker: inputs, formula and any demographics needed
+ * - Skips a marker the lab printed itself, or whose inputs are missing,
+ *   censored ("<0.5") or in an unexpected unit
+ * - Calculated rows get library ranges and a status like parsed rows
+ *
+ * LDL: Friedewald up to triglycerides of 400 mg/dL, the Sampson (NIH)
+ * equation up to 800 mg/dL, nothing above. Martin-Hopkins needs its
+ * 180-cell factor table and is not implemented.
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * PdfParserService -> calculateDerivedMarkers() after parsing
+ * ResultsService -> recalculated whenever the user corrects a row
+ */
+
+import { Derivation, TestResult } from '../entities/bloodwork-result.entity';
+import { BiologicalSex } from '../entities/user-profile.entity';
+import { findAnalyteByCode } from './analyte-catalogue';
+import { applyReferenceRange, Demographics } from './reference-ranges';
+import { resolveTestStatus, StatusOptions } from './result-status';
+import { normalizeUnit } from './unit-conversion';
+
+type InputValues = Record<string, number>;
+
+interface DerivedMarkerDefinition {
+  /**
+   * Analyte code of the calculated result
+   */
+  code: string;
+  method: string;
+  formula: string;
+  /**
+   * Analyte codes the formula reads, in the catalogue's preferred unit
+   */
+  inputs: string[];
+  /**
+   * Analyte codes used when the report has them
+   */
+  optionalInputs?: string[];
+  /**
+   * Demographics the formula needs - the marker is skipped without them
+   */
+  needs?: Array<'age' | 'sex'>;
+  decimals: number;
+  calculate(values: InputValues, demographics: Demographics): { value: number; assumptions?: string[] } | null;
+}
+
+/**
+ * Albumin assumed by Vermeulen when it isn't measured (g/dL)
+ */
+const DEFAULT_ALBUMIN = 4.3;
+
+const TESTOSTERONE_MOLAR_MASS = 288.42;
+const ALBUMIN_MOLAR_MASS = 69000;
+// Association constants (L/mol) of testosterone with albumin and SHBG
+const K_ALBUMIN = 3.6e4;
+const K_SHBG = 1e9;
+
+export const DERIVED_MARKERS: DerivedMarkerDefinition[] = [
+  {
+    code: 'NON_HDL',
+    method: 'Non-HDL cholesterol',
+    formula: 'TC - HDL',
+    inputs: ['CHOL', 'HDL'],
+    decimals: 0,
+    calculate: ({ CHOL, HDL }) => ({ value: CHOL - HDL }),
+  },
+  {
+    code: 'CHOL_HDL_RATIO',
+    method: 'Total cholesterol / HDL',
+    formula: 'TC / HDL',
+    inputs: ['CHOL', 'HDL'],
+    decimals: 1,
+    calculate: ({ CHOL, HDL }) => (HDL > 0 ? { value: CHOL / HDL } : null),
+  },
+  {
+    code: 'LDL',
+    method: 'Friedewald',
+    formula: 'TC - HDL - TG / 5',
+    inputs: ['CHOL', 'HDL', 'TRIG'],
+    decimals: 0,
+    calculate: ({ CHOL, HDL, TRIG }) => (TRIG <= 400 ? { value: CHOL - HDL - TRIG / 5 } : null),
+  },
+  {
+    code: 'LDL',
+    method: 'Sampson (NIH equation 2)',
+    formula: 'TC / 0.948 - HDL / 0.971 - (TG / 8.56 + TG x (TC - HDL) / 2140 - TG^2 / 16100) - 9.44',
+    inputs: ['CHOL', 'HDL', 'TRIG'],
+    decimals: 0,
+    calculate: ({ CHOL, HDL, TRIG }) =>
+      TRIG > 400 && TRIG <= 800
+        ? { value: CHOL / 0.948 - HDL / 0.971 - (TRIG / 8.56 + (TRIG * (CHOL - HDL)) / 2140 - TRIG ** 2 / 16100) - 9.44 }
+        : null,
+  },
+  {
+    code: 'EGFR',
+    method: 'CKD-EPI 2021',
+    formula: '142 x min(Scr/k, 1)^a x max(Scr/k, 1)^-1.200 x 0.9938^age [x 1.012 if female]',
+    inputs: ['CREAT'],
+    needs: ['age', 'sex'],
+    decimals: 0,
+    calculate: ({ CREAT }, { ageYears, sex }) => {
+      if (ageYears === undefined || ageYears < 18 || CREAT <= 0) return null;
+      const female = sex === BiologicalSex.FEMALE;
+      const kappa = female ? 0.7 : 0.9;
+      const alpha = female ? -0.241 : -0.302;
+      const ratio = CREAT / kappa;
+      return {
+        value: 142 * Math.min(ratio, 1) ** alpha * Math.max(ratio, 1) ** -1.2 * 0.9938 ** ageYears * (female ? 1.012 : 1),
+      };
+    },
+  },
+  {
+    code: 'BUN_CREAT_RATIO',
+    method: 'BUN / creatinine',
+    formula: 'BUN / Creatinine',
+    inputs: ['BUN', 'CREAT'],
+    decimals: 0,
+    calculate: ({ BUN, CREAT }) => (CREAT > 0 ? { value: BUN / CREAT } : null),
+  },
+  {
+    code: 'ANION_GAP',
+    method: 'Anion gap',
+    formula: 'Na - (Cl + HCO3)',
+    inputs: ['NA', 'CL', 'CO2'],
+    decimals: 0,
+    calculate: ({ NA, CL, CO2 }) => ({ value: NA - (CL + CO2) }),
+  },
+  {
+    code: 'HOMA_IR',
+    method: 'HOMA-IR',
+    formula: 'Glucose x Insulin / 405',
+    inputs: ['GLU', 'INSULIN'],
+    decimals: 2,
+    calculate: ({ GLU, INSULIN }) => ({ value: (GLU * INSULIN) / 405, assumptions: ['Fasting sample'] }),
+  },
+  {
+    code: 'FREE_TESTO',
+    method: 'Vermeulen',
+    formula: 'FT = (-b + sqrt(b^2 + 4a x TT)) / 2a, a = N x Kt, b = N + Kt x (SHBG - TT), N = 1 + Ka x Alb',
+    inputs: ['TESTO', 'SHBG'],
+    optionalInputs: ['ALB'],
+    decimals: 1,
+    calculate: ({ TESTO, SHBG, ALB }) => {
+      const albumin = ALB ?? DEFAULT_ALBUMIN;
+      // Everything in mol/L
+      const total = (TESTO * 1e-8) / TESTOSTERONE_MOLAR_MASS;
+      const shbg = SHBG * 1e-9;
+      const n = 1 + K_ALBUMIN * ((albumin * 10) / ALBUMIN_MOLAR_MASS);
+      const a = n * K_SHBG;
+      const b = n + K_SHBG * (shbg - total);
+      const free = (-b + Math.sqrt(b ** 2 + 4 * a * total)) / (2 * a);
+      return {
+        // mol/L -> pg/mL
+        value: free * TESTOSTERONE_MOLAR_MASS * 1e9,
+        assumptions: ALB === undefined ? [`Albumin ${DEFAULT_ALBUMIN} g/dL`] : undefined,
+      };
+    },
+  },
+  {
+    code: 'CA_CORR',
+    method: 'Payne',
+    formula: 'Ca + 0.8 x (4.0 - Albumin)',
+    inputs: ['CA', 'ALB'],
+    decimals: 1,
+    calculate: ({ CA, ALB }) => ({ value: CA + 0.8 * (4.0 - ALB) }),
+  },
+];
+
+/**
+ * Calculated rows for the markers a report has the inputs for
+ *
+ * Existing calculated rows are ignored as inputs and replaced - pass the
+ * full result list and store printed rows plus what this returns. Ids of
+ * earlier calculated rows are kept so links to them stay valid.
+ */
+export function calculateDerivedMarkers(
+  results: TestResult[],
+  demographics: Demographics,
+  statusOptions: StatusOptions = {},
+): TestResult[] {
+  const printed = results.filter(result => !result.calculated);
+  const previousIds = new Map(results.filter(result => result.calculated).map(result => [result.canonicalCode, result.id]));
+  let nextId = Math.max(0, ...results.map(result => Number(result.id)).filter(Number.isFinite)) + 1;
+
+  const derived: TestResult[] = [];
+  for (const definition of DERIVED_MARKERS) {
+    const code = definition.code;
+    if (printed.some(result => result.canonicalCode === code) || derived.some(result => result.canonicalCode === code)) {
+      continue;
+    }
+    if (definition.needs?.some(need => (need === 'age' ? demographics.ageYears : demographics.sex) === undefined)) {
+      continue;
+    }
+
+    if (definition.inputs.some(inputCode => !usableInput(printed, inputCode))) {
+      continue;
+    }
+
+    const inputs = [...definition.inputs, ...(definition.optionalInputs ?? [])]
+      .map(inputCode => ({ inputCode, test: usableInput(printed, inputCode) }))
+      .filter((input): input is { inputCode: string; test: TestResult } => input.test !== undefined);
+    const values: InputValues = Object.fromEntries(inputs.map(({ inputCode, test }) => [inputCode, test.value!]));
+    const outcome = definition.calculate(values, demographics);
+    if (!outcome || !Number.isFinite(outcome.value)) {
+      continue;
+    }
+
+    const analyte = findAnalyteByCode(code)!;
+    const derivation: Derivation = {
+      method: definition.method,
+      formula: definition.formula,
+      inputs: [
+        ...inputs.map(({ test }) => ({ name: test.testName, testId: test.id, value: test.value!, unit: test.unit })),
+        ...(definition.needs ?? []).map(need =>
+          need === 'age'
+            ? { name: 'Age', value: demographics.ageYears!, unit: 'years' }
+            : { name: 'Sex', value: demographics.sex!, unit: '' },
+        ),
+      ],
+      assumptions: outcome.assumptions,
+    };
+
+    const row = applyReferenceRange(
+      {
+        id: previousIds.get(code) ?? String(nextId++),
+        testName: analyte.name,
+        canonicalCode: code,
+        value: round(outcome.value, definition.decimals),
+        unit: analyte.preferredUnit,
+        referenceRange: { min: null, max: null },
+        status: 'normal',
+        calculated: true,
+        derivation,
+        // As trustworthy as the least certain input
+        confidence: Math.min(...inputs.map(({ test }) => test.confidence ?? 1)),
+        reviewReasons: [],
+        needsReview: false,
+      },
+      demographics,
+    );
+    derived.push({ ...row, ...resolveTestStatus(row, statusOptions) });
+  }
+
+  return derived;
+}
+
+/**
+ * The printed result for an input, when its value can go into a formula
+ */
+function usableInput(results: TestResult[], code: string): TestResult | undefined {
+  const preferredUnit = findAnalyteByCode(code)?.preferredUnit;
+  return results.find(result =>
+    result.canonicalCode === code &&
+    result.value !== null &&
+    result.comparator === undefined &&
+    preferredUnit !== undefined &&
+    normalizeUnit(result.unit) === normalizeUnit(preferredUnit),
+  );
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,43 @@
+import { matchPanels, panelNameFor, testTypeFromPanels } from './panel-catalogue';
+
+const BMP = ['GLU', 'NA', 'K', 'CL', 'CO2', 'CA', 'BUN', 'CREAT'];
+const CMP = [...BMP, 'TP', 'ALB', 'TBIL', 'ALP', 'ALT', 'AST'];
+
+function rows(...codes: string[]) {
+  return codes.map(canonicalCode => ({ canonicalCode }));
+}
+
+describe('matchPanels', () => {
+  it('should report which members are present and how complete the panel is', () => {
+    expect(matchPanels(rows('CHOL', 'HDL', 'TRIG'))).toEqual([
+      { code: 'LIPID', name: 'Lipid Panel', presentCodes: ['CHOL', 'HDL', 'TRIG'], missingCodes: ['LDL', 'NON_HDL'], completeness: 60 },
+    ]);
+  });
+
+  it('should need a panel\'s minimum members, not counting calculated markers', () => {
+    expect(matchPanels(rows('CHOL'))).toEqual([]);
+    expect(matchPanels([{ canonicalCode: 'CHOL' }, { canonicalCode: 'LDL', calculated: true }])).toEqual([]);
+    expect(matchPanels([{ canonicalCode: undefined }, { canonicalCode: 'TSH' }])).toEqual([]);
+  });
+
+  it('should leave out panels contained in a larger one', () => {
+    expect(matchPanels(rows(...CMP)).map(panel => [panel.code, panel.completeness])).toEqual([['CMP', 100]]);
+
+    // A full BMP is not also a partial renal panel, nor a CMP short of its minimum
+    expect(matchPanels(rows(...BMP)).map(panel => [panel.code, panel.completeness])).toEqual([['BMP', 100]]);
+  });
+
+  it('should list the best covered panel first', () => {
+    const panels = matchPanels(rows('HDL', 'CHOL', ...BMP));
+
+    expect(panels.map(panel => panel.code)).toEqual(['BMP', 'LIPID']);
+    expect(testTypeFromPanels(panels)).toBe('Basic Metabolic Panel');
+    expect(panelNameFor('HDL', panels)).toBe('Lipid Panel');
+    expect(panelNameFor('LDL', panels)).toBe('Lipid Panel');
+    expect(panelNameFor('FERR', panels)).toBe('Other Tests');
+  });
+
+  it('should title a report without panels generically', () => {
+    expect(testTypeFromPanels(matchPanels(rows('FERR')))).toBe('Laboratory Results');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Panel Catalogue - The test panels labs order and the analytes in each
+ *
+ * WHY: A report is usually one or more standard panels (a CBC, a CMP, a
+ * lipid panel). Naming the report after the most common analyte category
+ * called a CMP with a few extra tests a "Metabolic Panel" and couldn't say
+ * that a lipid panel came along with it, or that the CBC was missing half
+ * its rows. Panels are defined by their member analytes, so a report is
+ * described by every panel it covers and how complete each one is.
+ *
+ * FUNCTIONALITY:
+ * - Standard panels with their member analyte codes
+ * - Coverage of each panel by a set of results, with completeness
+ * - The report's test type from the panel it covers best
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * PdfParserService -> matchPanels() -> BloodworkResult.panels / testType
+ * ResultsService -> panel statistics; AI notes are requested panel by panel
+ */
+
+import { TestResult } from '../entities/bloodwork-result.entity';
+
+export interface PanelDefinition {
+  code: string;
+  name: string;
+  /**
+   * Analyte codes from the analyte catalogue
+   */
+  members: string[];
+  /**
+   * Members that must be present for the report to count as covering the panel
+   */
+  minMembers: number;
+}
+
+export const PANEL_CATALOGUE: PanelDefinition[] = [
+  { code: 'CBC', name: 'Complete Blood Count', members: ['HGB', 'HCT', 'RBC', 'WBC', 'PLT', 'MCV', 'MCH', 'MCHC', 'RDW'], minMembers: 3 },
+  { code: 'DIFF', name: 'White Cell Differential', members: ['NEUT_ABS', 'LYMPH_ABS', 'MONO_ABS', 'EOS_ABS', 'BASO_ABS'], minMembers: 3 },
+  { code: 'LYTES', name: 'Electrolyte Panel', members: ['NA', 'K', 'CL', 'CO2'], minMembers: 3 },
+  { code: 'BMP', name: 'Basic Metabolic Panel', members: ['GLU', 'NA', 'K', 'CL', 'CO2', 'CA', 'BUN', 'CREAT'], minMembers: 5 },
+  {
+    code: 'CMP',
+    name: 'Comprehensive Metabolic Panel',
+    members: ['GLU', 'NA', 'K', 'CL', 'CO2', 'CA', 'BUN', 'CREAT', 'TP', 'ALB', 'TBIL', 'ALP', 'ALT', 'AST'],
+    minMembers: 9,
+  },
+  { code: 'RENAL', name: 'Renal Function Panel', members: ['GLU', 'NA', 'K', 'CL', 'CO2', 'CA', 'PHOS', 'BUN', 'CREAT', 'ALB', 'EGFR'], minMembers: 3 },
+  { code: 'LFT', name: 'Liver Panel', members: ['ALT', 'AST', 'ALP', 'GGT', 'TBIL', 'TP', 'ALB'], minMembers: 3 },
+  { code: 'LIPID', name: 'Lipid Panel', members: ['CHOL', 'HDL', 'LDL', 'TRIG', 'NON_HDL'], minMembers: 2 },
+  { code: 'GLYCEMIC', name: 'Diabetes Screen', members: ['GLU', 'HBA1C', 'INSULIN'], minMembers: 2 },
+  { code: 'THYROID', name: 'Thyroid Panel', members: ['TSH', 'FT4', 'FT3'], minMembers: 2 },
+  { code: 'IRON', name: 'Iron Studies', members: ['IRON', 'TIBC', 'TSAT', 'TRF', 'FERR'], minMembers: 2 },
+  { code: 'HORMONE', name: 'Hormone Panel', members: ['TESTO', 'FREE_TESTO', 'SHBG', 'E2', 'LH', 'FSH', 'PRL'], minMembers: 2 },
+  { code: 'ADRENAL', name: 'Adrenal Panel', members: ['CORTISOL', 'DHEAS'], minMembers: 2 },
+  { code: 'VITAMINS', name: 'Vitamin Panel', members: ['VITD', 'B12', 'FOLATE'], minMembers: 2 },
+  { code: 'INFLAMMATION', name: 'Inflammation Markers', members: ['CRP', 'HSCRP', 'ESR'], minMembers: 2 },
+  { code: 'IMMUNOGLOBULINS', name: 'Immunoglobulins', members: ['IGG', 'IGA', 'IGM'], minMembers: 2 },
+  { code: 'UA', name: 'Urinalysis', members: ['U_PH', 'U_SG', 'U_PROT', 'U_GLU'], minMembers: 2 },
+];
+
+/**
+ * How much of a panel a result covers
+ */
+export interface PanelCoverage {
+  code: string;
+  name: string;
+  /**
+   * Member analytes present on the report
+   */
+  presentCodes: string[];
+  /**
+   * Member analytes the report doesn't have
+   */
+  missingCodes: string[];
+  /**
+   * Present members as a percentage of all members (0-100)
+   */
+  completeness: number;
+}
+
+/**
+ * Test type for reports that cover no panel
+ */
+export const UNGROUPED_TEST_TYPE = 'Laboratory Results';
+
+/**
+ * Group name for tests outside every covered panel
+ */
+export const UNGROUPED_PANEL_NAME = 'Other Tests';
+
+/**
+ * Panels covered by a set of results, best covered first
+ *
+ * A panel is left out when another covered panel holds all of its present
+ * analytes and explains more of the report (BMP rows on a CMP) or is more
+ * complete (a full BMP isn't also a partial renal panel).
+ */
+export function matchPanels(results: Array<Pick<TestResult, 'canonicalCode' | 'calculated'>>): PanelCoverage[] {
+  // Panels describe what the lab measured - calculated markers don't count
+  const codes = new Set(
+    results.filter(result => !result.calculated).map(result => result.canonicalCode).filter((code): code is string => !!code),
+  );
+
+  const covered = PANEL_CATALOGUE
+    .map(panel => ({ panel, present: panel.members.filter(code => codes.has(code)) }))
+    .filter(({ panel, present }) => present.length >= panel.minMembers);
+
+  const completeness = (panel: PanelDefinition, present: string[]) => Math.round((present.length / panel.members.length) * 100);
+
+  return covered
+    .filter(({ panel, present }) =>
+      !covered.some(other =>
+        other.panel !== panel &&
+        present.every(code => other.panel.members.includes(code)) &&
+        (other.present.length > present.length ||
+          (other.present.length === present.length && completeness(other.panel, other.present) > completeness(panel, present))),
+      ),
+    )
+    .map(({ panel, present }) => ({
+      code: panel.code,
+      name: panel.name,
+      presentCodes: present,
+      missingCodes: panel.members.filter(code => !codes.has(code)),
+      completeness: completeness(panel, present),
+    }))
+    .sort((a, b) => b.presentCodes.length - a.presentCodes.length || b.completeness - a.completeness);
+}
+
+/**
+ * Report title - the panel it covers best
+ */
+export function testTypeFromPanels(panels: PanelCoverage[]): string {
+  return panels[0]?.name ?? UNGROUPED_TEST_TYPE;
+}
+
+/**
+ * Whether an analyte belongs to a panel (present or missing on the report)
+ */
+export function isPanelMember(panel: PanelCoverage, canonicalCode: string | undefined): boolean {
+  return !!canonicalCode && (panel.presentCodes.includes(canonicalCode) || panel.missingCodes.includes(canonicalCode));
+}
+
+/**
+ * Name of the first covered panel a result belongs to, for grouping
+ */
+export function panelNameFor(canonicalCode: string | undefined, panels: PanelCoverage[]): string {
+  return panels.find(panel => isPanelMember(panel, canonicalCode))?.name ?? UNGROUPED_PANEL_NAME;
+}
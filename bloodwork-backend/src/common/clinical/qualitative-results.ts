@@ -0,0 +1,89 @@
+/**
+ * Qualitative Results - Vocabulary for non-numeric lab findings
+ *
+ * WHY: Serology, urinalysis and screening tests report words, not numbers
+ * ("Negative", "Non-Reactive", "Not Detected", "Trace", "2+"). Labs spell
+ * these many ways, so the parser and status logic share one vocabulary that
+ * maps every spelling to a canonical term and a polarity.
+ *
+ * FUNCTIONALITY:
+ * - Recognises qualitative terms and returns their canonical spelling
+ * - Classifies each term as negative, positive or indeterminate
+ * - Decides whether a qualitative result matches its expected finding
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * Generic extractor / lab templates -> normalizeQualitative() -> TestResult.qualitativeValue
+ * PdfParserService -> qualitativeStatus() -> 'normal' | 'abnormal'
+ */
+
+export type QualitativePolarity = 'negative' | 'positive' | 'indeterminate';
+
+interface QualitativeTerm {
+  pattern: RegExp;
+  value: string;
+  polarity: QualitativePolarity;
+}
+
+/**
+ * Order matters: "Non-Reactive" and "Not Detected" must be tried before
+ * "Reactive" and "Detected"
+ */
+const QUALITATIVE_TERMS: QualitativeTerm[] = [
+  { pattern: /^non[-\s]?reactive$/i, value: 'Non-Reactive', polarity: 'negative' },
+  { pattern: /^reactive$/i, value: 'Reactive', polarity: 'positive' },
+  { pattern: /^(not|none)\s+detected$|^undetected$/i, value: 'Not Detected', polarity: 'negative' },
+  { pattern: /^detected$/i, value: 'Detected', polarity: 'positive' },
+  { pattern: /^neg(ative)?$/i, value: 'Negative', polarity: 'negative' },
+  { pattern: /^pos(itive)?$/i, value: 'Positive', polarity: 'positive' },
+  { pattern: /^(absent|nil)$/i, value: 'Absent', polarity: 'negative' },
+  { pattern: /^present$/i, value: 'Present', polarity: 'positive' },
+  { pattern: /^trace$/i, value: 'Trace', polarity: 'positive' },
+  { pattern: /^(equivocal|indeterminate|borderline)$/i, value: 'Equivocal', polarity: 'indeterminate' },
+];
+
+/**
+ * Regex source matching any qualitative term, for use inside row patterns
+ * Dipstick grades ("1+" to "4+") are included alongside the words
+ */
+export const QUALITATIVE_TOKEN = String.raw`(?:non[-\s]?reactive|reactive|(?:not|none)\s+detected|undetected|detected|negative|positive|neg|pos|absent|nil|present|trace|equivocal|indeterminate|borderline|[1-4]\+)`;
+
+/**
+ * Returns the canonical spelling of a qualitative term, or null when the
+ * text isn't one (e.g. "NON REACTIVE" -> "Non-Reactive", "3+" -> "3+")
+ */
+export function normalizeQualitative(text: string | undefined): string | null {
+  const cleaned = text?.trim().replace(/\s+/g, ' ');
+  if (!cleaned) return null;
+
+  if (/^[1-4]\+$/.test(cleaned)) return cleaned;
+
+  return QUALITATIVE_TERMS.find(term => term.pattern.test(cleaned))?.value ?? null;
+}
+
+/**
+ * Whether a qualitative term means "found", "not found" or "unclear"
+ */
+export function qualitativePolarity(text: string | undefined): QualitativePolarity | null {
+  const value = normalizeQualitative(text);
+  if (!value) return null;
+
+  if (/^[1-4]\+$/.test(value)) return 'positive';
+
+  return QUALITATIVE_TERMS.find(term => term.value === value)?.polarity ?? null;
+}
+
+/**
+ * Status of a qualitative result against its expected finding
+ *
+ * WHY: Most qualitative tests are screens where "not found" is the healthy
+ * answer, so a negative finding is assumed when the lab prints no reference.
+ * Equivocal results never match and are surfaced as abnormal for follow-up.
+ */
+export function qualitativeStatus(value: string | undefined, expected?: string): 'normal' | 'abnormal' {
+  const polarity = qualitativePolarity(value);
+  const expectedPolarity = qualitativePolarity(expected) ?? 'negative';
+
+  return polarity !== null && polarity !== 'indeterminate' && polarity === expectedPolarity
+    ? 'normal'
+    : 'abnormal';
+}
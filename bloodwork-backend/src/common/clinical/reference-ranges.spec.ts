@@ -0,0 +1,85 @@
+import { TestResult } from '../entities/bloodwork-result.entity';
+import { BiologicalSex } from '../entities/user-profile.entity';
+import { ageInYears, applyReferenceRange, findReferenceRange, toDemographics } from './reference-ranges';
+
+const { MALE, FEMALE } = BiologicalSex;
+
+describe('ageInYears', () => {
+  it('should count whole years up to the day before the birthday', () => {
+    expect(ageInYears('1980-06-15', '2026-06-14')).toBe(45);
+    expect(ageInYears('1980-06-15', '2026-06-15')).toBe(46);
+    expect(ageInYears(null)).toBeNull();
+    expect(ageInYears('2030-01-01', '2026-01-01')).toBeNull();
+  });
+});
+
+describe('toDemographics', () => {
+  it('should take the age at the test date and keep pregnancy for female profiles only', () => {
+    expect(toDemographics({ birthDate: '1990-03-01', sex: FEMALE, pregnant: true }, '2026-02-01')).toEqual({ ageYears: 35, sex: FEMALE, pregnant: true });
+    expect(toDemographics({ birthDate: null, sex: MALE, pregnant: true })).toEqual({ ageYears: undefined, sex: MALE, pregnant: undefined });
+    expect(toDemographics(null)).toEqual({});
+  });
+});
+
+describe('findReferenceRange', () => {
+  it('should pick the band for the sex', () => {
+    expect(findReferenceRange('HGB', 'g/dL', { ageYears: 40, sex: MALE })).toEqual({ min: 13.5, max: 17.5 });
+    expect(findReferenceRange('HGB', 'g/dL', { ageYears: 40, sex: FEMALE })).toEqual({ min: 12.0, max: 15.5 });
+  });
+
+  it('should prefer the pregnancy band over the female one', () => {
+    expect(findReferenceRange('HGB', 'g/dL', { ageYears: 30, sex: FEMALE, pregnant: true })).toEqual({ min: 11.0, max: 15.0 });
+    expect(findReferenceRange('TSH', 'mIU/L', { ageYears: 30, sex: FEMALE, pregnant: true })).toEqual({ min: 0.1, max: 2.5 });
+  });
+
+  it('should pick age bands', () => {
+    expect(findReferenceRange('ALP', 'U/L', { ageYears: 15 })).toEqual({ min: 100, max: 390 });
+    expect(findReferenceRange('ALP', 'U/L', { ageYears: 45 })).toEqual({ min: 40, max: 129 });
+    expect(findReferenceRange('PSA', 'ng/mL', { ageYears: 55, sex: MALE })).toEqual({ min: null, max: 3.5 });
+  });
+
+  it('should not guess a sex-specific range without the sex', () => {
+    expect(findReferenceRange('CREAT', 'mg/dL', { ageYears: 40 })).toBeUndefined();
+  });
+
+  it('should assume an adult when the age is unknown', () => {
+    expect(findReferenceRange('ALP', 'U/L', {})).toEqual({ min: 40, max: 129 });
+  });
+
+  it('should only apply ranges in the same unit', () => {
+    expect(findReferenceRange('GLU', 'mg/dL', {})).toEqual({ min: 70, max: 99 });
+    expect(findReferenceRange('GLU', 'mmol/L', {})).toBeUndefined();
+  });
+});
+
+describe('applyReferenceRange', () => {
+  const glucose: TestResult = {
+    id: '1',
+    testName: 'Glucose',
+    canonicalCode: 'GLU',
+    value: 92,
+    unit: 'mg/dL',
+    referenceRange: { min: null, max: null },
+    status: 'normal',
+  };
+
+  it('should fill a missing range from the library', () => {
+    expect(applyReferenceRange(glucose, {})).toMatchObject({ referenceRange: { min: 70, max: 99 }, referenceRangeSource: 'library' });
+  });
+
+  it('should keep a printed range and mark one that contradicts the library', () => {
+    expect(applyReferenceRange({ ...glucose, referenceRange: { min: 65, max: 100 } }, {})).toMatchObject({
+      referenceRange: { min: 65, max: 100 },
+      referenceRangeSource: 'lab',
+      referenceRangeConflict: false,
+    });
+    expect(applyReferenceRange({ ...glucose, referenceRange: { min: 3.9, max: 5.5 } }, {})).toMatchObject({
+      referenceRangeSource: 'lab',
+      referenceRangeConflict: true,
+    });
+  });
+
+  it('should record results without any range', () => {
+    expect(applyReferenceRange({ ...glucose, canonicalCode: undefined }, {})).toMatchObject({ referenceRangeSource: 'none' });
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Reference Ranges - Demographic-aware normal ranges per analyte
+ *
+ * WHY: Many reports print no range (or only print it for some rows), and
+ * many analytes have different normal ranges by sex, age and pregnancy.
+ * This library fills the gaps from the user's profile, and checks printed
+ * ranges for obvious conflicts (usually a misread number or unit).
+ *
+ * FUNCTIONALITY:
+ * - Ranges keyed by analyte code and demographic band, in the catalogue's
+ *   preferred unit
+ * - Picks the most specific band matching the user's age, sex and pregnancy
+ * - Records where each result's range came from: 'lab', 'library' or 'none'
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * UserProfile -> toDemographics() -> applyReferenceRange() -> TestResult
+ * Used by PdfParserService at parse time and ResultsService at read time
+ */
+
+import { TestResult } from '../entities/bloodwork-result.entity';
+import { BiologicalSex, UserProfile } from '../entities/user-profile.entity';
+import { normalizeUnit } from './unit-conversion';
+
+export interface Demographics {
+  ageYears?: number;
+  sex?: BiologicalSex;
+  pregnant?: boolean;
+}
+
+interface ReferenceBand {
+  sex?: BiologicalSex;
+  minAge?: number;
+  maxAge?: number;
+  pregnant?: boolean;
+  low: number | null;
+  high: number | null;
+}
+
+interface ReferenceRangeDefinition {
+  unit: string;
+  bands: ReferenceBand[];
+}
+
+const { MALE, FEMALE } = BiologicalSex;
+
+/**
+ * Adult ranges unless a band says otherwise. One-sided targets (lipids)
+ * use null for the open bound.
+ */
+const REFERENCE_RANGES: Record<string, ReferenceRangeDefinition> = {
+  HGB: {
+    unit: 'g/dL',
+    bands: [
+      { maxAge: 11, low: 11.5, high: 15.5 },
+      { sex: MALE, minAge: 12, low: 13.5, high: 17.5 },
+      { sex: FEMALE, minAge: 12, low: 12.0, high: 15.5 },
+      { sex: FEMALE, pregnant: true, low: 11.0, high: 15.0 },
+    ],
+  },
+  HCT: {
+    unit: '%',
+    bands: [
+      { sex: MALE, minAge: 18, low: 40, high: 52 },
+      { sex: FEMALE, minAge: 18, low: 36, high: 46 },
+      { sex: FEMALE, pregnant: true, low: 33, high: 44 },
+    ],
+  },
+  RBC: {
+    unit: '10^12/L',
+    bands: [
+      { sex: MALE, minAge: 18, low: 4.5, high: 5.9 },
+      { sex: FEMALE, minAge: 18, low: 4.0, high: 5.2 },
+    ],
+  },
+  WBC: { unit: '10^9/L', bands: [{ minAge: 18, low: 4.0, high: 11.0 }] },
+  PLT: { unit: '10^9/L', bands: [{ low: 150, high: 400 }] },
+  MCV: { unit: 'fL', bands: [{ minAge: 18, low: 80, high: 100 }] },
+  GLU: { unit: 'mg/dL', bands: [{ low: 70, high: 99 }] },
+  NA: { unit: 'mmol/L', bands: [{ low: 135, high: 145 }] },
+  K: { unit: 'mmol/L', bands: [{ low: 3.5, high: 5.1 }] },
+  CL: { unit: 'mmol/L', bands: [{ low: 98, high: 107 }] },
+  CO2: { unit: 'mmol/L', bands: [{ low: 22, high: 29 }] },
+  CA: { unit: 'mg/dL', bands: [{ minAge: 18, low: 8.6, high: 10.3 }] },
+  CA_CORR: { unit: 'mg/dL', bands: [{ minAge: 18, low: 8.6, high: 10.3 }] },
+  ANION_GAP: { unit: 'mmol/L', bands: [{ low: 8, high: 16 }] },
+  MG: { unit: 'mg/dL', bands: [{ low: 1.7, high: 2.2 }] },
+  PHOS: {
+    unit: 'mg/dL',
+    bands: [
+      { maxAge: 17, low: 4.0, high: 7.0 },
+      { minAge: 18, low: 2.5, high: 4.5 },
+    ],
+  },
+  BUN: { unit: 'mg/dL', bands: [{ minAge: 18, low: 7, high: 20 }] },
+  BUN_CREAT_RATIO: { unit: '', bands: [{ minAge: 18, low: 10, high: 20 }] },
+  CREAT: {
+    unit: 'mg/dL',
+    bands: [
+      { sex: MALE, minAge: 18, low: 0.74, high: 1.35 },
+      { sex: FEMALE, minAge: 18, low: 0.59, high: 1.04 },
+      { sex: FEMALE, pregnant: true, low: 0.4, high: 0.8 },
+    ],
+  },
+  EGFR: { unit: 'mL/min/1.73m2', bands: [{ minAge: 18, low: 60, high: null }] },
+  URIC: {
+    unit: 'mg/dL',
+    bands: [
+      { sex: MALE, minAge: 18, low: 3.4, high: 7.0 },
+      { sex: FEMALE, minAge: 18, low: 2.4, high: 6.0 },
+    ],
+  },
+  ALT: {
+    unit: 'U/L',
+    bands: [
+      { sex: MALE, minAge: 18, low: 7, high: 55 },
+      { sex: FEMALE, minAge: 18, low: 7, high: 45 },
+    ],
+  },
+  AST: { unit: 'U/L', bands: [{ minAge: 18, low: 8, high: 48 }] },
+  ALP: {
+    unit: 'U/L',
+    bands: [
+      // Bone growth keeps ALP high through adolescence
+      { maxAge: 17, low: 100, high: 390 },
+      { minAge: 18, low: 40, high: 129 },
+    ],
+  },
+  GGT: {
+    unit: 'U/L',
+    bands: [
+      { sex: MALE, minAge: 18, low: 8, high: 61 },
+      { sex: FEMALE, minAge: 18, low: 5, high: 36 },
+    ],
+  },
+  TBIL: { unit: 'mg/dL', bands: [{ minAge: 18, low: 0.1, high: 1.2 }] },
+  TP: { unit: 'g/dL', bands: [{ low: 6.0, high: 8.3 }] },
+  ALB: { unit: 'g/dL', bands: [{ minAge: 18, low: 3.5, high: 5.0 }] },
+  CHOL: { unit: 'mg/dL', bands: [{ minAge: 20, low: null, high: 200 }] },
+  HDL: {
+    unit: 'mg/dL',
+    bands: [
+      { sex: MALE, minAge: 20, low: 40, high: null },
+      { sex: FEMALE, minAge: 20, low: 50, high: null },
+    ],
+  },
+  LDL: { unit: 'mg/dL', bands: [{ minAge: 20, low: null, high: 100 }] },
+  TRIG: { unit: 'mg/dL', bands: [{ minAge: 20, low: null, high: 150 }] },
+  NON_HDL: { unit: 'mg/dL', bands: [{ minAge: 20, low: null, high: 130 }] },
+  CHOL_HDL_RATIO: { unit: '', bands: [{ minAge: 20, low: null, high: 5.0 }] },
+  HBA1C: { unit: '%', bands: [{ low: 4.0, high: 5.6 }] },
+  TSH: {
+    unit: 'mIU/L',
+    bands: [
+      { minAge: 18, low: 0.4, high: 4.0 },
+      { sex: FEMALE, pregnant: true, low: 0.1, high: 2.5 },
+    ],
+  },
+  FT4: { unit: 'ng/dL', bands: [{ minAge: 18, low: 0.8, high: 1.8 }] },
+  TESTO: {
+    unit: 'ng/dL',
+    bands: [
+      { sex: MALE, minAge: 19, low: 264, high: 916 },
+      { sex: FEMALE, minAge: 19, low: 15, high: 70 },
+    ],
+  },
+  FERR: {
+    unit: 'ng/mL',
+    bands: [
+      { sex: MALE, minAge: 18, low: 24, high: 336 },
+      { sex: FEMALE, minAge: 18, low: 11, high: 307 },
+    ],
+  },
+  IRON: { unit: 'ug/dL', bands: [{ minAge: 18, low: 60, high: 170 }] },
+  VITD: { unit: 'ng/mL', bands: [{ low: 30, high: 100 }] },
+  B12: { unit: 'pg/mL', bands: [{ low: 200, high: 900 }] },
+  CRP: { unit: 'mg/L', bands: [{ low: null, high: 10 }] },
+  PSA: {
+    unit: 'ng/mL',
+    bands: [
+      // Age-specific PSA ranges (Oesterling)
+      { sex: MALE, minAge: 40, maxAge: 49, low: null, high: 2.5 },
+      { sex: MALE, minAge: 50, maxAge: 59, low: null, high: 3.5 },
+      { sex: MALE, minAge: 60, maxAge: 69, low: null, high: 4.5 },
+      { sex: MALE, minAge: 70, low: null, high: 6.5 },
+    ],
+  },
+};
+
+/**
+ * Whole years between birth date and the given date
+ */
+export function ageInYears(birthDate: string | null | undefined, onDate: string | Date = new Date()): number | null {
+  if (!birthDate) return null;
+
+  const birth = new Date(birthDate);
+  const on = new Date(onDate);
+  if (isNaN(birth.getTime()) || isNaN(on.getTime())) return null;
+
+  let age = on.getUTCFullYear() - birth.getUTCFullYear();
+  const beforeBirthday =
+    on.getUTCMonth() < birth.getUTCMonth() ||
+    (on.getUTCMonth() === birth.getUTCMonth() && on.getUTCDate() < birth.getUTCDate());
+  if (beforeBirthday) age--;
+
+  return age >= 0 ? age : null;
+}
+
+/**
+ * Demographics at the time of a report (age is taken at the test date)
+ */
+export function toDemographics(
+  profile: Pick<UserProfile, 'birthDate' | 'sex' | 'pregnant'> | null | undefined,
+  onDate?: string | Date,
+): Demographics {
+  if (!profile) return {};
+
+  return {
+    ageYears: ageInYears(profile.birthDate, onDate) ?? undefined,
+    sex: profile.sex ?? undefined,
+    // Pregnancy ranges only make sense for a female profile
+    pregnant: profile.sex === BiologicalSex.FEMALE ? profile.pregnant : undefined,
+  };
+}
+
+/**
+ * Library range for an analyte, or undefined when none applies
+ *
+ * WHY: Bands that name a criterion (sex, age, pregnancy) only match when the
+ * user's profile provides it, so an unknown sex never borrows a male range.
+ * When several bands match, the most specific one wins.
+ */
+export function findReferenceRange(
+  analyteCode: string | undefined,
+  unit: string,
+  demographics: Demographics,
+): { min: number | null; max: number | null } | undefined {
+  const definition = analyteCode ? REFERENCE_RANGES[analyteCode] : undefined;
+  if (!definition || normalizeUnit(definition.unit) !== normalizeUnit(unit)) return undefined;
+
+  const matching = definition.bands.filter(band => bandMatches(band, demographics));
+  if (matching.length === 0) return undefined;
+
+  const best = matching.reduce((a, b) => (specificity(b) > specificity(a) ? b : a));
+  return { min: best.low, max: best.high };
+}
+
+/**
+ * Fills in or checks a result's reference range
+ *
+ * RULES:
+ * - A lab-printed range is kept ('lab'); it is marked as conflicting when a
+ *   library range exists and the two don't overlap at all
+ * - Without a printed range the library range is used ('library')
+ * - Otherwise the result has no range ('none')
+ */
+export function applyReferenceRange(result: TestResult, demographics: Demographics): TestResult {
+  const { min, max } = result.referenceRange;
+  const hasLabRange = result.referenceRangeSource === 'lab' || (result.referenceRangeSource === undefined && (min !== null || max !== null));
+  const libraryRange = result.value === null
+    ? undefined
+    : findReferenceRange(result.canonicalCode, result.unit, demographics);
+
+  if (hasLabRange) {
+    return {
+      ...result,
+      referenceRangeSource: 'lab',
+      referenceRangeConflict: libraryRange ? !rangesOverlap(result.referenceRange, libraryRange) : undefined,
+    };
+  }
+
+  if (libraryRange) {
+    return { ...result, referenceRange: libraryRange, referenceRangeSource: 'library' };
+  }
+
+  return { ...result, referenceRange: { min: null, max: null }, referenceRangeSource: 'none' };
+}
+
+function bandMatches(band: ReferenceBand, demographics: Demographics): boolean {
+  if (band.sex && band.sex !== demographics.sex) return false;
+  if (band.pregnant !== undefined && band.pregnant !== !!demographics.pregnant) return false;
+  if (band.minAge !== undefined || band.maxAge !== undefined) {
+    if (demographics.ageYears === undefined) {
+      // Unknown age: assume an adult, so only open-ended adult bands apply
+      return (band.minAge === undefined || band.minAge <= 20) && band.maxAge === undefined;
+    }
+    if (band.minAge !== undefined && demographics.ageYears < band.minAge) return false;
+    if (band.maxAge !== undefined && demographics.ageYears > band.maxAge) return false;
+  }
+  return true;
+}
+
+/**
+ * Pregnancy outweighs sex and age - a pregnant user's female band also matches
+ */
+function specificity(band: ReferenceBand): number {
+  const hasAge = band.minAge !== undefined || band.maxAge !== undefined;
+  return (band.sex ? 1 : 0) + (band.pregnant !== undefined ? 2 : 0) + (hasAge ? 1 : 0);
+}
+
+function rangesOverlap(
+  a: { min: number | null; max: number | null },
+  b: { min: number | null; max: number | null },
+): boolean {
+  const aMin = a.min ?? -Infinity;
+  const aMax = a.max ?? Infinity;
+  const bMin = b.min ?? -Infinity;
+  const bMax = b.max ?? Infinity;
+  return aMin <= bMax && bMin <= aMax;
+}
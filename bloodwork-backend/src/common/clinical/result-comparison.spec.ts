@@ -0,0 +1,77 @@
+import { BloodworkResult, TestResult } from '../entities/bloodwork-result.entity';
+import { compareTests } from './result-comparison';
+
+function test(testName: string, value: number, unit: string, overrides: Partial<TestResult> = {}): TestResult {
+  return {
+    id: testName,
+    testName,
+    value,
+    unit,
+    referenceRange: { min: null, max: null },
+    status: 'normal',
+    ...overrides,
+  };
+}
+
+function report(id: string, testDate: string, results: TestResult[]): BloodworkResult {
+  return { id, testDate, results } as BloodworkResult;
+}
+
+describe('compareTests', () => {
+  it('should pair tests by analyte and convert the base value to the target unit', () => {
+    const base = report('base', '2025-01-15', [test('Glucose', 100, 'mg/dL', { canonicalCode: 'GLU' })]);
+    const target = report('target', '2025-06-01', [
+      test('Fasting Glucose', 6.1, 'mmol/L', { canonicalCode: 'GLU', status: 'high', referenceRange: { min: 3.9, max: 5.5 } }),
+    ]);
+
+    const { pairs, baseOnly, targetOnly } = compareTests(base, target);
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ code: 'GLU', name: 'Glucose', statusChange: { from: 'normal', to: 'high' } });
+    expect(pairs[0].base.unit).toBe('mmol/L');
+    expect(pairs[0].base.value).toBeCloseTo(5.551, 3);
+    expect(pairs[0].delta).toMatchObject({ previousResultId: 'base', previousDate: '2025-01-15', direction: 'increase', percentChange: 9.9 });
+    expect(pairs[0].delta?.change).toBeCloseTo(0.549, 3);
+    expect(baseOnly).toEqual([]);
+    expect(targetOnly).toEqual([]);
+  });
+
+  it('should list tests found in only one report', () => {
+    const base = report('base', '2025-01-15', [
+      test('Ferritin', 40, 'ng/mL', { canonicalCode: 'FERR' }),
+      test('Glucose', 92, 'mg/dL', { canonicalCode: 'GLU' }),
+    ]);
+    const target = report('target', '2025-06-01', [
+      test('Glucose', 95, 'mg/dL', { canonicalCode: 'GLU' }),
+      test('Vitamin D', 32, 'ng/mL', { canonicalCode: 'VITD' }),
+    ]);
+
+    const { pairs, baseOnly, targetOnly } = compareTests(base, target);
+
+    expect(pairs.map(pair => pair.code)).toEqual(['GLU']);
+    expect(pairs[0].statusChange).toBeUndefined();
+    expect(baseOnly.map(row => row.testName)).toEqual(['Ferritin']);
+    expect(targetOnly.map(row => row.testName)).toEqual(['Vitamin D']);
+  });
+
+  it('should pair uncatalogued tests by label and leave their change out', () => {
+    const base = report('base', '2025-01-15', [test('Osmolality Gap', 8, 'mOsm/kg')]);
+    const target = report('target', '2025-06-01', [test('osmolality gap ', 12, 'mOsm/kg')]);
+
+    const { pairs } = compareTests(base, target);
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ code: undefined, name: 'osmolality gap ', delta: undefined });
+  });
+
+  it('should pair a repeated analyte in order', () => {
+    const glucose = (id: string, value: number) => test('Glucose', value, 'mg/dL', { id, canonicalCode: 'GLU' });
+    const base = report('base', '2025-01-15', [glucose('b1', 90), glucose('b2', 140)]);
+    const target = report('target', '2025-06-01', [glucose('t1', 95), glucose('t2', 130)]);
+
+    expect(compareTests(base, target).pairs.map(pair => [pair.base.id, pair.target.id])).toEqual([
+      ['b1', 't1'],
+      ['b2', 't2'],
+    ]);
+  });
+});
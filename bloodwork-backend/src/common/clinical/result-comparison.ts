@@ -0,0 +1,85 @@
+/**
+ * Result Comparison - Two reports side by side, analyte by analyte
+ *
+ * WHY: Before and after a treatment change users want to hold two reports
+ * next to each other. The reports rarely list the same tests in the same
+ * order, name them the same way or use the same units, so rows are paired
+ * by canonical analyte and the earlier value is re-expressed in the later
+ * one's unit before anything is subtracted.
+ *
+ * FUNCTIONALITY:
+ * - Pairs tests by canonical code (by label for tests outside the catalogue)
+ * - Change, percent change and significance per pair (see delta-checks.ts)
+ * - Status transitions such as high -> normal
+ * - Tests present in only one of the two reports
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * GET /results/compare?base=&target= -> ResultsService.compareResults() -> compareTests()
+ */
+
+import { BloodworkResult, DeltaCheck, TestResult, TestStatus } from '../entities/bloodwork-result.entity';
+import { findAnalyteByCode } from './analyte-catalogue';
+import { deltaBetween } from './delta-checks';
+import { convertTestResult } from './unit-conversion';
+
+export interface ComparedTest {
+  /**
+   * Canonical analyte code, undefined for tests outside the catalogue
+   */
+  code?: string;
+  name: string;
+  base: TestResult;
+  /**
+   * Base row is converted to this row's unit when the units differ
+   */
+  target: TestResult;
+  /**
+   * Target minus base - undefined when either value isn't an exact number
+   */
+  delta?: DeltaCheck;
+  /**
+   * Set when the status differs between the two reports
+   */
+  statusChange?: { from: TestStatus; to: TestStatus };
+}
+
+export interface TestComparison {
+  pairs: ComparedTest[];
+  baseOnly: TestResult[];
+  targetOnly: TestResult[];
+}
+
+/**
+ * Pairs the tests of two results - each row is used at most once, so an
+ * analyte printed twice pairs first with first, second with second
+ */
+export function compareTests(base: BloodworkResult, target: BloodworkResult): TestComparison {
+  const unmatched = [...base.results];
+  const pairs: ComparedTest[] = [];
+  const targetOnly: TestResult[] = [];
+
+  for (const targetTest of target.results) {
+    const index = unmatched.findIndex(baseTest => pairingKey(baseTest) === pairingKey(targetTest));
+    if (index === -1) {
+      targetOnly.push(targetTest);
+      continue;
+    }
+
+    const [baseTest] = unmatched.splice(index, 1);
+    const converted = baseTest.value === null ? baseTest : convertTestResult(baseTest, targetTest.unit);
+    pairs.push({
+      code: targetTest.canonicalCode,
+      name: findAnalyteByCode(targetTest.canonicalCode ?? '')?.name ?? targetTest.testName,
+      base: converted,
+      target: targetTest,
+      delta: deltaBetween(targetTest, baseTest, base),
+      statusChange: baseTest.status === targetTest.status ? undefined : { from: baseTest.status, to: targetTest.status },
+    });
+  }
+
+  return { pairs, baseOnly: unmatched, targetOnly };
+}
+
+function pairingKey(test: TestResult): string {
+  return test.canonicalCode ?? `label:${test.testName.trim().toLowerCase()}`;
+}
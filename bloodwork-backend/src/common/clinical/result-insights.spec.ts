@@ -0,0 +1,136 @@
+import { DeltaCheck, TestResult } from '../entities/bloodwork-result.entity';
+import { PanelCoverage } from './panel-catalogue';
+import { DEFAULT_INSIGHT_RULES, deriveInsights } from './result-insights';
+
+function test(canonicalCode: string, value: number, status: TestResult['status'], overrides: Partial<TestResult> = {}): TestResult {
+  return {
+    id: canonicalCode,
+    testName: canonicalCode,
+    canonicalCode,
+    value,
+    unit: 'mg/dL',
+    referenceRange: { min: null, max: 100 },
+    status,
+    ...overrides,
+  };
+}
+
+function delta(overrides: Partial<DeltaCheck>): DeltaCheck {
+  return {
+    previousResultId: 'previous',
+    previousTestId: '1',
+    previousDate: '2026-01-15',
+    previousValue: 100,
+    change: 30,
+    percentChange: 30,
+    referenceChangeValue: 25.7,
+    significant: true,
+    direction: 'increase',
+    assessment: 'worsened',
+    ...overrides,
+  };
+}
+
+describe('deriveInsights', () => {
+  it('should report low severity when every result is normal', () => {
+    const insights = deriveInsights({ results: [test('LDL', 90, 'normal')], panels: null });
+
+    expect(insights.severity).toBe('low');
+    expect(insights.followUpTimeframe).toBe(DEFAULT_INSIGHT_RULES.followUp.low);
+    expect(insights.keyFindings).toEqual(['All results are within their reference ranges']);
+    expect(insights.recommendations).toEqual([]);
+  });
+
+  it('should report medium severity for an abnormal result outside the priority analytes', () => {
+    const insights = deriveInsights({ results: [test('LDL', 160, 'high')], panels: null });
+
+    expect(insights.severity).toBe('medium');
+    expect(insights.keyFindings).toEqual(['LDL Cholesterol is high (160 mg/dL, reference < 100)']);
+  });
+
+  it('should report high severity for an abnormal priority analyte', () => {
+    const potassium = test('K', 5.6, 'high', { unit: 'mmol/L', referenceRange: { min: 3.5, max: 5.1 } });
+
+    expect(deriveInsights({ results: [potassium], panels: null }).severity).toBe('high');
+  });
+
+  it('should report high severity once enough results are abnormal', () => {
+    const results = ['LDL', 'CHOL', 'TRIG', 'HBA1C', 'TSH'].map(code => test(code, 150, 'high'));
+
+    expect(deriveInsights({ results, panels: null }).severity).toBe('high');
+    expect(deriveInsights({ results: results.slice(1), panels: null }).severity).toBe('medium');
+  });
+
+  it('should put critical values first and name their direction', () => {
+    const insights = deriveInsights({
+      results: [
+        test('LDL', 160, 'high'),
+        test('K', 6.8, 'critical', { unit: 'mmol/L', referenceRange: { min: 3.5, max: 5.1 } }),
+      ],
+      panels: null,
+    });
+
+    expect(insights.severity).toBe('critical');
+    expect(insights.keyFindings[0]).toBe('Potassium is critically high (6.8 mmol/L)');
+    expect(insights.recommendations[0]).toMatch(/critical values/);
+  });
+
+  it('should describe significant changes since the previous result', () => {
+    const insights = deriveInsights({
+      results: [
+        test('LDL', 130, 'high', { delta: delta({}) }),
+        test('HDL', 50, 'normal', { delta: delta({ direction: 'decrease', percentChange: -20, assessment: 'improved' }) }),
+        test('TRIG', 90, 'normal', { delta: delta({ assessment: 'not_significant', significant: false }) }),
+      ],
+      panels: null,
+    });
+
+    expect(insights.keyFindings).toContain('LDL Cholesterol rose 30% since 2026-01-15 and moved further from the reference range');
+    expect(insights.keyFindings).toContain('HDL Cholesterol fell 20% since 2026-01-15 and moved toward the reference range');
+    expect(insights.keyFindings.some(finding => finding.startsWith('Triglycerides'))).toBe(false);
+  });
+
+  it('should raise severity for a significant worsening still within range', () => {
+    const creatinine = test('CREAT', 1.1, 'normal', { referenceRange: { min: 0.6, max: 1.2 }, delta: delta({}) });
+    const ldl = test('LDL', 95, 'normal', { delta: delta({}) });
+
+    expect(deriveInsights({ results: [creatinine], panels: null }).severity).toBe('high');
+    expect(deriveInsights({ results: [ldl], panels: null }).severity).toBe('medium');
+    expect(deriveInsights({ results: [test('LDL', 95, 'normal', { delta: delta({ assessment: 'improved' }) })], panels: null }).severity).toBe('low');
+  });
+
+  it('should apply configured severity for worsening', () => {
+    const rules = { ...DEFAULT_INSIGHT_RULES, worsenedSeverity: { priority: 'critical' as const, other: 'low' as const } };
+
+    expect(deriveInsights({ results: [test('CREAT', 1.1, 'normal', { delta: delta({}) })], panels: null }, rules).severity).toBe('critical');
+    expect(deriveInsights({ results: [test('LDL', 95, 'normal', { delta: delta({}) })], panels: null }, rules).severity).toBe('low');
+  });
+
+  it('should point out incomplete panels', () => {
+    const panel: PanelCoverage = {
+      code: 'THYROID',
+      name: 'Thyroid Panel',
+      presentCodes: ['TSH'],
+      missingCodes: ['FT4', 'FT3'],
+      completeness: 33,
+    };
+    const insights = deriveInsights({ results: [test('TSH', 2, 'normal')], panels: [panel] });
+
+    expect(insights.keyFindings).toEqual(['Thyroid Panel is 33% complete - Free T4, Free T3 not reported']);
+    expect(insights.severity).toBe('low');
+  });
+
+  it('should apply configured rules', () => {
+    const rules = {
+      ...DEFAULT_INSIGHT_RULES,
+      priorityAnalytes: ['LDL'],
+      followUp: { ...DEFAULT_INSIGHT_RULES.followUp, high: 'Within 3 days' },
+      maxKeyFindings: 1,
+    };
+    const insights = deriveInsights({ results: [test('LDL', 160, 'high'), test('TRIG', 200, 'high')], panels: null }, rules);
+
+    expect(insights.severity).toBe('high');
+    expect(insights.followUpTimeframe).toBe('Within 3 days');
+    expect(insights.keyFindings).toHaveLength(1);
+  });
+});
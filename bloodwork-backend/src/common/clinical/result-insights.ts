@@ -0,0 +1,181 @@
+/**
+ * Result Insights - Severity, follow-up and key findings from rules
+ *
+ * WHY: Every result used to come back as "medium" severity with a "1-2
+ * weeks" follow-up, whatever it contained. How urgent a report is has to
+ * follow from its values - critical limits, out-of-range results, real
+ * changes since the last test - and must be the same every time the
+ * report is opened. So it is decided here by explicit rules; an LLM may
+ * reword the findings for the user but never picks the severity.
+ *
+ * FUNCTIONALITY:
+ * - Severity: critical values > an abnormal or significantly worsened
+ *   priority analyte, or many abnormal results > any abnormal result or
+ *   significant worsening > all normal
+ * - Follow-up timeframe per severity
+ * - Key findings and recommendations as plain sentences, most urgent first
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * configuration.ts merges INSIGHT_RULES overrides over DEFAULT_INSIGHT_RULES
+ * ResultsService.findByIdWithEnhancements() -> deriveInsights() -> aiInsights
+ */
+
+import { BloodworkResult, TestResult } from '../entities/bloodwork-result.entity';
+import { findAnalyteByCode } from './analyte-catalogue';
+
+export type InsightSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface InsightRules {
+  /**
+   * Follow-up timeframe shown for each severity
+   */
+  followUp: Record<InsightSeverity, string>;
+  /**
+   * This many abnormal results make a report high severity
+   */
+  highSeverityAbnormalCount: number;
+  /**
+   * Analyte codes whose abnormal result alone makes a report high severity
+   */
+  priorityAnalytes: string[];
+  /**
+   * Severity of a significant change away from the reference range - for
+   * a priority analyte, and for any other
+   */
+  worsenedSeverity: { priority: InsightSeverity; other: InsightSeverity };
+  /**
+   * Covered panels below this completeness (%) are pointed out
+   */
+  incompletePanelThreshold: number;
+  maxKeyFindings: number;
+}
+
+export const DEFAULT_INSIGHT_RULES: InsightRules = {
+  followUp: {
+    critical: 'Contact your healthcare provider today',
+    high: 'Within 1 week',
+    medium: 'Within 1-2 weeks',
+    low: 'At your next routine check-up',
+  },
+  highSeverityAbnormalCount: 5,
+  priorityAnalytes: ['K', 'NA', 'CA', 'GLU', 'CREAT', 'EGFR', 'HGB', 'PLT', 'WBC', 'NEUT_ABS', 'ALT', 'AST', 'TBIL'],
+  worsenedSeverity: { priority: 'high', other: 'medium' },
+  incompletePanelThreshold: 50,
+  maxKeyFindings: 5,
+};
+
+export const MEDICAL_DISCLAIMER =
+  'This analysis is for informational purposes only. Consult your healthcare provider for medical advice.';
+
+export interface ResultInsights {
+  severity: InsightSeverity;
+  followUpTimeframe: string;
+  keyFindings: string[];
+  recommendations: string[];
+  medicalDisclaimer: string;
+}
+
+const SEVERITY_ORDER: InsightSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Insights for a result whose tests carry their status and, where there is
+ * an earlier result, their delta (see delta-checks.ts)
+ */
+export function deriveInsights(
+  result: Pick<BloodworkResult, 'results' | 'panels'>,
+  rules: InsightRules = DEFAULT_INSIGHT_RULES,
+): ResultInsights {
+  const tests = result.results;
+  const critical = tests.filter(test => test.status === 'critical');
+  const abnormal = tests.filter(test => test.status === 'high' || test.status === 'low' || test.status === 'abnormal');
+  const worsened = tests.filter(test => test.delta?.significant && test.delta.assessment === 'worsened');
+  const improved = tests.filter(test => test.delta?.assessment === 'improved');
+  const review = tests.filter(test => test.needsReview);
+  const incompletePanels = (result.panels ?? []).filter(panel => panel.completeness < rules.incompletePanelThreshold);
+
+  const severity = highestSeverity([
+    critical.length > 0 ? 'critical' : 'low',
+    abnormal.length >= rules.highSeverityAbnormalCount ? 'high' : 'low',
+    abnormal.some(test => isPriority(test, rules)) ? 'high' : 'low',
+    abnormal.length > 0 ? 'medium' : 'low',
+    // A result still in range can be heading out of it fast
+    ...worsened.map(test => (isPriority(test, rules) ? rules.worsenedSeverity.priority : rules.worsenedSeverity.other)),
+  ]);
+
+  const keyFindings = [
+    ...critical.map(test => `${displayName(test)} is ${criticalDirection(test)} (${formatValue(test)})`),
+    ...abnormal.map(test => `${displayName(test)} is ${test.status} (${formatValue(test)}${formatRange(test)})`),
+    ...worsened.map(test => `${displayName(test)} ${changeWords(test)} and moved further from the reference range`),
+    ...improved.map(test => `${displayName(test)} ${changeWords(test)} and moved toward the reference range`),
+    ...incompletePanels.map(panel => `${panel.name} is ${panel.completeness}% complete - ${panel.missingCodes.map(analyteName).join(', ')} not reported`),
+  ].slice(0, rules.maxKeyFindings);
+
+  if (keyFindings.length === 0) {
+    keyFindings.push('All results are within their reference ranges');
+  }
+
+  const recommendations = [
+    critical.length > 0 && 'Contact your healthcare provider promptly about the critical values',
+    abnormal.length > 0 && 'Discuss the out-of-range results with your healthcare provider',
+    worsened.length > 0 && 'Ask your healthcare provider whether the changes since your last test need follow-up',
+    incompletePanels.length > 0 && 'Ask whether the tests missing from incomplete panels should be ordered',
+    review.length > 0 && `Check ${review.length} highlighted value${review.length === 1 ? '' : 's'} against your report`,
+  ].filter((recommendation): recommendation is string => !!recommendation);
+
+  return {
+    severity,
+    followUpTimeframe: rules.followUp[severity],
+    keyFindings,
+    recommendations,
+    medicalDisclaimer: MEDICAL_DISCLAIMER,
+  };
+}
+
+function highestSeverity(levels: InsightSeverity[]): InsightSeverity {
+  return levels.reduce((highest, level) => (SEVERITY_ORDER.indexOf(level) > SEVERITY_ORDER.indexOf(highest) ? level : highest), 'low');
+}
+
+function isPriority(test: TestResult, rules: InsightRules): boolean {
+  return !!test.canonicalCode && rules.priorityAnalytes.includes(test.canonicalCode);
+}
+
+function displayName(test: TestResult): string {
+  return findAnalyteByCode(test.canonicalCode ?? '')?.name ?? test.testName;
+}
+
+function analyteName(code: string): string {
+  return findAnalyteByCode(code)?.name ?? code;
+}
+
+function formatValue(test: TestResult): string {
+  if (test.value === null) {
+    return test.expectedQualitative ? `${test.qualitativeValue}, expected ${test.expectedQualitative}` : `${test.qualitativeValue}`;
+  }
+  return `${test.comparator ?? ''}${test.value}${test.unit ? ` ${test.unit}` : ''}`;
+}
+
+function formatRange(test: TestResult): string {
+  const { min, max } = test.referenceRange;
+  if (min !== null && max !== null) return `, reference ${min}-${max}`;
+  if (max !== null) return `, reference < ${max}`;
+  if (min !== null) return `, reference > ${min}`;
+  return '';
+}
+
+/**
+ * Critical status doesn't say which way - the range or limit crossed does
+ */
+function criticalDirection(test: TestResult): string {
+  const { min, max } = test.referenceRange;
+  if (test.value !== null && max !== null && test.value > max) return 'critically high';
+  if (test.value !== null && min !== null && test.value < min) return 'critically low';
+  return 'at a critical level';
+}
+
+function changeWords(test: TestResult): string {
+  const delta = test.delta!;
+  const verb = delta.direction === 'increase' ? 'rose' : 'fell';
+  const amount = delta.percentChange === null ? `${Math.abs(delta.change)} ${test.unit}`.trim() : `${Math.abs(delta.percentChange)}%`;
+  return `${verb} ${amount} since ${delta.previousDate.slice(0, 10)}`;
+}
+
@@ -0,0 +1,83 @@
+import { TestResult } from '../entities/bloodwork-result.entity';
+import { computeTestStatus, normalizeLabFlag, resolveTestStatus } from './result-status';
+
+function result(value: number | null, overrides: Partial<TestResult> = {}): TestResult {
+  return {
+    id: '1',
+    testName: 'Potassium',
+    canonicalCode: 'K',
+    value,
+    unit: 'mmol/L',
+    referenceRange: { min: 3.5, max: 5.1 },
+    status: 'normal',
+    ...overrides,
+  };
+}
+
+describe('normalizeLabFlag', () => {
+  it('should map printed flags to one vocabulary', () => {
+    expect(['H', 'High', 'HI', '+'].map(normalizeLabFlag)).toEqual(['H', 'H', 'H', 'H']);
+    expect(['L', 'Low', 'LO', '-'].map(normalizeLabFlag)).toEqual(['L', 'L', 'L', 'L']);
+    expect(['HH', 'Critical High', 'LL', '**', 'A', '*'].map(normalizeLabFlag)).toEqual(['HH', 'HH', 'LL', 'C', 'A', 'A']);
+    expect(normalizeLabFlag('see note')).toBeUndefined();
+    expect(normalizeLabFlag(undefined)).toBeUndefined();
+  });
+});
+
+describe('computeTestStatus', () => {
+  it('should judge values against the reference range, bounds included', () => {
+    expect(computeTestStatus(result(3.4))).toBe('low');
+    expect(computeTestStatus(result(3.5))).toBe('normal');
+    expect(computeTestStatus(result(5.1))).toBe('normal');
+    expect(computeTestStatus(result(5.2))).toBe('high');
+  });
+
+  it('should judge one-sided ranges', () => {
+    expect(computeTestStatus(result(210, { canonicalCode: 'CHOL', unit: 'mg/dL', referenceRange: { min: null, max: 200 } }))).toBe('high');
+    expect(computeTestStatus(result(45, { canonicalCode: 'HDL', unit: 'mg/dL', referenceRange: { min: 40, max: null } }))).toBe('normal');
+  });
+
+  it('should use the critical limits of the analyte', () => {
+    expect(computeTestStatus(result(6.3))).toBe('critical');
+    expect(computeTestStatus(result(2.7))).toBe('critical');
+    expect(computeTestStatus(result(6.2))).toBe('high');
+  });
+
+  it('should ignore critical limits in another unit', () => {
+    expect(computeTestStatus(result(6.3, { unit: 'mg/dL', referenceRange: { min: null, max: null } }))).toBe('normal');
+  });
+
+  it('should only flag censored values the bound proves out of range', () => {
+    const crp = { canonicalCode: 'CRP', unit: 'mg/L' };
+
+    expect(computeTestStatus(result(5, { ...crp, comparator: '<', referenceRange: { min: 10, max: 50 } }))).toBe('low');
+    expect(computeTestStatus(result(50, { ...crp, comparator: '<', referenceRange: { min: 10, max: 40 } }))).toBe('normal');
+    expect(computeTestStatus(result(60, { ...crp, comparator: '>', referenceRange: { min: 10, max: 40 } }))).toBe('high');
+  });
+
+  it('should compare qualitative results with the expected finding', () => {
+    expect(computeTestStatus(result(null, { qualitativeValue: 'Positive', expectedQualitative: 'Negative' }))).toBe('abnormal');
+    expect(computeTestStatus(result(null, { qualitativeValue: 'Negative', expectedQualitative: 'Negative' }))).toBe('normal');
+  });
+});
+
+describe('resolveTestStatus', () => {
+  it('should follow the lab flag and record disagreements', () => {
+    expect(resolveTestStatus(result(5.0, { labFlag: 'H' }))).toEqual({ status: 'high', computedStatus: 'normal', flagDiscrepancy: true });
+    expect(resolveTestStatus(result(5.3, { labFlag: 'H' }))).toEqual({ status: 'high', computedStatus: 'high', flagDiscrepancy: false });
+  });
+
+  it('should never downgrade a computed critical value', () => {
+    expect(resolveTestStatus(result(6.8, { labFlag: 'H' })).status).toBe('critical');
+  });
+
+  it('should keep the computed direction for an abnormal flag', () => {
+    expect(resolveTestStatus(result(5.3, { labFlag: 'A' }))).toEqual({ status: 'high', computedStatus: 'high', flagDiscrepancy: false });
+    expect(resolveTestStatus(result(4.0, { labFlag: 'A' }))).toEqual({ status: 'abnormal', computedStatus: 'normal', flagDiscrepancy: true });
+  });
+
+  it('should mark unflagged abnormal rows on reports that print flags', () => {
+    expect(resolveTestStatus(result(5.3), { reportUsesFlags: true }).flagDiscrepancy).toBe(true);
+    expect(resolveTestStatus(result(5.3)).flagDiscrepancy).toBe(false);
+  });
+});
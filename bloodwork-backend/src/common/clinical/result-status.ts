@@ -0,0 +1,138 @@
+/**
+ * Result Status - Computed status and lab flag reconciliation
+ *
+ * WHY: The lab that ran the test prints its own interpretation next to the
+ * value (H, L, HH, LL, A, *). That flag is authoritative - it reflects the
+ * lab's own ranges and critical policy. We still compute a status from the
+ * value, range and critical limits so missing flags are filled in and
+ * disagreements (often a parsing problem) are visible instead of hidden.
+ *
+ * FUNCTIONALITY:
+ * - Normalises printed flags ("High", "H", "**") to one vocabulary
+ * - Computes a status from value, range, comparator and critical limits
+ * - Resolves the final status and marks lab flag / computed disagreements
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * PdfParserService -> resolveTestStatus() -> TestResult.status, labFlag,
+ * computedStatus and flagDiscrepancy
+ */
+
+import { LabFlag, ResultComparator, TestResult, TestStatus } from '../entities/bloodwork-result.entity';
+import { CriticalLimit, DEFAULT_CRITICAL_LIMITS, findCriticalLimit } from './critical-limits';
+import { qualitativeStatus } from './qualitative-results';
+
+const FLAG_ALIASES: Array<[RegExp, LabFlag]> = [
+  [/^(HH|H\*|CH|>>|critical\s+high|panic\s+high)$/i, 'HH'],
+  [/^(LL|L\*|CL|<<|critical\s+low|panic\s+low)$/i, 'LL'],
+  [/^(\*{2,}|C|critical|panic)$/i, 'C'],
+  [/^(H|HI|high|\+)$/i, 'H'],
+  [/^(L|LO|low|-)$/i, 'L'],
+  [/^(A|AB|abn|abnormal|\*)$/i, 'A'],
+];
+
+export interface StatusOptions {
+  criticalLimits?: Record<string, CriticalLimit>;
+  /**
+   * Whether the report prints flags at all. On such reports an unflagged
+   * row means the lab considers it normal.
+   */
+  reportUsesFlags?: boolean;
+}
+
+/**
+ * Maps a printed flag to the shared vocabulary, or undefined if unknown
+ */
+export function normalizeLabFlag(raw: string | undefined): LabFlag | undefined {
+  const cleaned = raw?.trim();
+  if (!cleaned) return undefined;
+  return FLAG_ALIASES.find(([pattern]) => pattern.test(cleaned))?.[1];
+}
+
+/**
+ * Status computed from the value alone (ignores any lab flag)
+ *
+ * WHY: Censored values ("<0.5", ">1000") are only flagged when the bound
+ * itself proves the true value is out of range - "<5" against 10-50 is
+ * low, "<50" against 10-40 can't be judged and stays normal. Qualitative
+ * results are compared with their expected finding instead.
+ */
+export function computeTestStatus(
+  result: Pick<TestResult, 'value' | 'comparator' | 'unit' | 'referenceRange' | 'canonicalCode' | 'qualitativeValue' | 'expectedQualitative'>,
+  criticalLimits: Record<string, CriticalLimit> = DEFAULT_CRITICAL_LIMITS,
+): TestStatus {
+  const { value, comparator } = result;
+  const { min, max } = result.referenceRange;
+
+  if (value === null) {
+    return qualitativeStatus(result.qualitativeValue, result.expectedQualitative);
+  }
+
+  const provablyBelow = (bound: number) => isProvablyBelow(value, comparator, bound);
+  const provablyAbove = (bound: number) => isProvablyAbove(value, comparator, bound);
+
+  const limit = findCriticalLimit(result.canonicalCode, result.unit, criticalLimits);
+  if (limit?.low !== undefined && provablyBelow(limit.low)) return 'critical';
+  if (limit?.high !== undefined && provablyAbove(limit.high)) return 'critical';
+
+  if (min !== null && provablyBelow(min)) return 'low';
+  if (max !== null && provablyAbove(max)) return 'high';
+  return 'normal';
+}
+
+/**
+ * Final status, computed status and discrepancy for a result
+ *
+ * RULES:
+ * - The lab flag decides the status when present (H -> high, LL -> critical,
+ *   A -> abnormal unless we computed a direction)
+ * - A computed 'critical' is never downgraded by a milder lab flag
+ * - Without a flag the computed status is used; on reports that print
+ *   flags, a computed abnormal status on an unflagged row is a discrepancy
+ */
+export function resolveTestStatus(
+  result: Pick<TestResult, 'value' | 'comparator' | 'unit' | 'referenceRange' | 'canonicalCode' | 'qualitativeValue' | 'expectedQualitative' | 'labFlag'>,
+  options: StatusOptions = {},
+): Pick<TestResult, 'status' | 'computedStatus' | 'flagDiscrepancy'> {
+  const computedStatus = computeTestStatus(result, options.criticalLimits);
+  const { labFlag } = result;
+
+  if (!labFlag) {
+    const flagDiscrepancy = !!options.reportUsesFlags && computedStatus !== 'normal';
+    return { status: computedStatus, computedStatus, flagDiscrepancy };
+  }
+
+  const flagStatus = statusFromLabFlag(labFlag, computedStatus);
+  const flagDiscrepancy = labFlag === 'A' ? computedStatus === 'normal' : flagStatus !== computedStatus;
+  const status = computedStatus === 'critical' ? 'critical' : flagStatus;
+
+  return { status, computedStatus, flagDiscrepancy };
+}
+
+/**
+ * The true value is at most `value` for "<" and at least `value` for ">"
+ */
+function isProvablyBelow(value: number, comparator: ResultComparator | undefined, bound: number): boolean {
+  if (comparator === '>' || comparator === '>=') return false;
+  return comparator === '<' ? value <= bound : value < bound;
+}
+
+function isProvablyAbove(value: number, comparator: ResultComparator | undefined, bound: number): boolean {
+  if (comparator === '<' || comparator === '<=') return false;
+  return comparator === '>' ? value >= bound : value > bound;
+}
+
+function statusFromLabFlag(flag: LabFlag, computedStatus: TestStatus): TestStatus {
+  switch (flag) {
+    case 'HH':
+    case 'LL':
+    case 'C':
+      return 'critical';
+    case 'H':
+      return 'high';
+    case 'L':
+      return 'low';
+    case 'A':
+      // "Abnormal" carries no direction - keep ours when we have one
+      return computedStatus === 'normal' ? 'abnormal' : computedStatus;
+  }
+}
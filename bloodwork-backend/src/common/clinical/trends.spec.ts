@@ -0,0 +1,84 @@
+import { BloodworkResult, TestResult } from '../entities/bloodwork-result.entity';
+import { findAnalyteByCode } from './analyte-catalogue';
+import { buildTrend } from './trends';
+import { UnitSystem } from './unit-conversion';
+
+function report(testDate: string, tests: Array<Partial<TestResult>>): BloodworkResult {
+  return {
+    id: testDate,
+    testDate,
+    results: tests.map((test, index) => ({
+      id: String(index + 1),
+      testName: 'Test',
+      value: null,
+      unit: '',
+      referenceRange: { min: null, max: null },
+      status: 'normal',
+      ...test,
+    })),
+  } as BloodworkResult;
+}
+
+function ldl(testDate: string, value: number, overrides: Partial<TestResult> = {}): BloodworkResult {
+  return report(testDate, [{ canonicalCode: 'LDL', value, unit: 'mg/dL', ...overrides }]);
+}
+
+const LDL = findAnalyteByCode('LDL')!;
+
+describe('buildTrend', () => {
+  it('should fit the slope per year and order points by date', () => {
+    const trend = buildTrend(LDL, [ldl('2025-01-01', 120), ldl('2023-01-01', 100), ldl('2024-01-01', 110)], UnitSystem.CONVENTIONAL);
+
+    expect(trend.points.map(point => point.value)).toEqual([100, 110, 120]);
+    expect(trend.slopePerYear).toBeCloseTo(10, 1);
+    expect(trend.direction).toBe('rising');
+  });
+
+  it('should fit a falling series', () => {
+    const trend = buildTrend(LDL, [ldl('2024-01-01', 160), ldl('2024-07-01', 130)], UnitSystem.CONVENTIONAL);
+
+    expect(trend.slopePerYear).toBeCloseTo(-60, 0);
+    expect(trend.direction).toBe('falling');
+  });
+
+  it('should call changes under 5% of the mean stable', () => {
+    const trend = buildTrend(LDL, [ldl('2023-01-01', 100), ldl('2024-01-01', 102), ldl('2025-01-01', 101)], UnitSystem.CONVENTIONAL);
+
+    expect(trend.direction).toBe('stable');
+  });
+
+  it('should express every point in one unit', () => {
+    const glucose = findAnalyteByCode('GLU')!;
+    const results = [
+      report('2024-01-01', [{ canonicalCode: 'GLU', value: 5.551, unit: 'mmol/L' }]),
+      report('2025-01-01', [{ canonicalCode: 'GLU', value: 100, unit: 'mg/dL' }]),
+    ];
+
+    const conventional = buildTrend(glucose, results, UnitSystem.CONVENTIONAL);
+    expect(conventional.unit).toBe('mg/dL');
+    expect(conventional.points.map(point => point.value)).toEqual([100, 100]);
+    expect(conventional.direction).toBe('stable');
+
+    expect(buildTrend(glucose, results, UnitSystem.SI).points.map(point => point.value)).toEqual([5.551, 5.551]);
+  });
+
+  it('should keep censored values as points but not fit them', () => {
+    const trend = buildTrend(LDL, [ldl('2024-01-01', 50, { comparator: '<' }), ldl('2025-01-01', 120)], UnitSystem.CONVENTIONAL);
+
+    expect(trend.points).toHaveLength(2);
+    expect(trend.slopePerYear).toBeNull();
+    expect(trend.direction).toBe('insufficient_data');
+  });
+
+  it('should skip values whose unit can\'t be converted', () => {
+    const alt = findAnalyteByCode('ALT')!;
+    const trend = buildTrend(
+      alt,
+      [report('2024-01-01', [{ canonicalCode: 'ALT', value: 0.5, unit: 'ukat/L' }]), report('2025-01-01', [{ canonicalCode: 'ALT', value: 30, unit: 'U/L' }])],
+      UnitSystem.CONVENTIONAL,
+    );
+
+    expect(trend.points).toHaveLength(1);
+    expect(trend.skippedCount).toBe(1);
+  });
+});
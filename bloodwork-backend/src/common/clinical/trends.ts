@@ -0,0 +1,160 @@
+/**
+ * Trends - One analyte's values over time, with slope and direction
+ *
+ * WHY: Users want to know whether a value is moving, not just whether the
+ * latest one is in range. Reports come from different labs in different
+ * units, so every point is re-expressed in one unit before it is charted
+ * or fitted. Each point keeps the reference range it was judged against,
+ * so a chart can draw the band as it was on each date.
+ *
+ * FUNCTIONALITY:
+ * - Points in date order, converted to the requested unit system
+ * - Least-squares slope per year over exact numeric values
+ * - Direction: rising, falling, stable, or insufficient data
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * GET /results/trends/:analytes -> ResultsService.getTrends() -> buildTrend()
+ * React Native trend charts plot points and shade referenceRange
+ */
+
+import { BloodworkResult, ReferenceRangeSource, ResultComparator, TestResult, TestStatus } from '../entities/bloodwork-result.entity';
+import { AnalyteDefinition } from './analyte-catalogue';
+import { convertTestResult, normalizeUnit, unitForSystem, UnitSystem } from './unit-conversion';
+
+/**
+ * A fitted change smaller than this share of the mean value counts as stable
+ */
+const STABLE_RELATIVE_CHANGE = 0.05;
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+export type TrendDirection = 'rising' | 'falling' | 'stable' | 'insufficient_data';
+
+export interface TrendPoint {
+  resultId: string;
+  testId: string;
+  date: string;
+  value: number | null;
+  comparator?: ResultComparator;
+  qualitativeValue?: string;
+  unit: string;
+  referenceRange: { min: number | null; max: number | null };
+  referenceRangeSource?: ReferenceRangeSource;
+  status: TestStatus;
+  /**
+   * Calculated from other results rather than printed by the lab
+   */
+  calculated?: boolean;
+  /**
+   * Value still awaits the user's confirmation
+   */
+  needsReview?: boolean;
+}
+
+export interface AnalyteTrend {
+  code: string;
+  name: string;
+  unit: string;
+  points: TrendPoint[];
+  /**
+   * Fitted change per year, in unit - null with fewer than two dated exact values
+   */
+  slopePerYear: number | null;
+  direction: TrendDirection;
+  /**
+   * Values left out because their unit couldn't be converted
+   */
+  skippedCount: number;
+}
+
+/**
+ * Builds one analyte's trend from a user's results
+ */
+export function buildTrend(analyte: AnalyteDefinition, results: BloodworkResult[], system: UnitSystem): AnalyteTrend {
+  const unit = unitForSystem(analyte.code, system) ?? analyte.preferredUnit;
+  const points: TrendPoint[] = [];
+  let skippedCount = 0;
+
+  for (const result of results) {
+    for (const test of result.results.filter(row => row.canonicalCode === analyte.code)) {
+      const converted = convertTestResult(test, unit);
+      if (converted.value !== null && normalizeUnit(converted.unit) !== normalizeUnit(unit)) {
+        skippedCount++;
+        continue;
+      }
+      points.push(toPoint(result, converted));
+    }
+  }
+
+  points.sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+  const slopePerYear = fitSlope(points);
+
+  return {
+    code: analyte.code,
+    name: analyte.name,
+    unit,
+    points,
+    slopePerYear: slopePerYear === null ? null : Number(slopePerYear.toPrecision(3)),
+    direction: directionOf(points, slopePerYear),
+    skippedCount,
+  };
+}
+
+function toPoint(result: BloodworkResult, test: TestResult): TrendPoint {
+  return {
+    resultId: result.id,
+    testId: test.id,
+    date: result.testDate,
+    value: test.value,
+    comparator: test.comparator,
+    qualitativeValue: test.qualitativeValue,
+    unit: test.unit,
+    referenceRange: test.referenceRange,
+    referenceRangeSource: test.referenceRangeSource,
+    status: test.status,
+    calculated: test.calculated,
+    needsReview: test.needsReview,
+  };
+}
+
+/**
+ * Points a slope can be fitted to - censored ("<0.5") and qualitative values are bounds or words, not positions
+ */
+function exactPoints(points: TrendPoint[]): Array<{ years: number; value: number }> {
+  return points
+    .filter(point => point.value !== null && point.comparator === undefined && !Number.isNaN(Date.parse(point.date)))
+    .map(point => ({ years: Date.parse(point.date) / MS_PER_YEAR, value: point.value! }));
+}
+
+/**
+ * Least-squares slope (unit per year)
+ */
+function fitSlope(points: TrendPoint[]): number | null {
+  const exact = exactPoints(points);
+  if (new Set(exact.map(point => point.years)).size < 2) return null;
+
+  const meanYears = exact.reduce((sum, point) => sum + point.years, 0) / exact.length;
+  const meanValue = exact.reduce((sum, point) => sum + point.value, 0) / exact.length;
+  const covariance = exact.reduce((sum, point) => sum + (point.years - meanYears) * (point.value - meanValue), 0);
+  const variance = exact.reduce((sum, point) => sum + (point.years - meanYears) ** 2, 0);
+
+  return covariance / variance;
+}
+
+/**
+ * Rising or falling when the fitted change across the series is at least
+ * STABLE_RELATIVE_CHANGE of the mean value
+ */
+function directionOf(points: TrendPoint[], slopePerYear: number | null): TrendDirection {
+  if (slopePerYear === null) return 'insufficient_data';
+
+  const exact = exactPoints(points);
+  const years = exact.map(point => point.years);
+  const fittedChange = slopePerYear * (Math.max(...years) - Math.min(...years));
+  const meanValue = Math.abs(exact.reduce((sum, point) => sum + point.value, 0) / exact.length);
+
+  if (meanValue === 0 ? fittedChange === 0 : Math.abs(fittedChange) / meanValue < STABLE_RELATIVE_CHANGE) {
+    return 'stable';
+  }
+  return fittedChange > 0 ? 'rising' : 'falling';
+}
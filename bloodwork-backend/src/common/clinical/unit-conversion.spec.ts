@@ -0,0 +1,75 @@
+import { TestResult } from '../entities/bloodwork-result.entity';
+import { convertTestResult, convertValue, normalizeUnit, toUnitSystem, UnitSystem } from './unit-conversion';
+
+describe('normalizeUnit', () => {
+  it('should map spellings of a unit to one', () => {
+    expect(normalizeUnit('µmol/l')).toBe('umol/L');
+    expect(normalizeUnit('mcg/dL')).toBe('ug/dL');
+    expect(normalizeUnit('K/uL')).toBe('10^9/L');
+    expect(normalizeUnit('x10^3/uL')).toBe('10^9/L');
+    expect(normalizeUnit('uIU/mL')).toBe('mIU/L');
+  });
+});
+
+describe('convertValue', () => {
+  it('should convert between mass and molar units through the molar mass', () => {
+    expect(convertValue(100, 'mg/dL', 'mmol/L', 'GLU')).toBeCloseTo(5.551, 3);
+    expect(convertValue(200, 'mg/dL', 'mmol/L', 'CHOL')).toBeCloseTo(5.173, 3);
+    expect(convertValue(150, 'mg/dL', 'mmol/L', 'TRIG')).toBeCloseTo(1.694, 3);
+    expect(convertValue(1, 'mg/dL', 'umol/L', 'CREAT')).toBeCloseTo(88.4, 1);
+    expect(convertValue(500, 'ng/dL', 'nmol/L', 'TESTO')).toBeCloseTo(17.34, 2);
+    expect(convertValue(30, 'ng/mL', 'nmol/L', 'VITD')).toBeCloseTo(74.88, 2);
+  });
+
+  it('should convert back the other way', () => {
+    expect(convertValue(5.551, 'mmol/L', 'mg/dL', 'GLU')).toBeCloseTo(100, 1);
+    expect(convertValue(88.4, 'umol/L', 'mg/dL', 'CREAT')).toBeCloseTo(1, 3);
+  });
+
+  it('should use analyte-specific factors and formulas', () => {
+    expect(convertValue(10, 'uIU/mL', 'pmol/L', 'INSULIN')).toBeCloseTo(60, 6);
+    expect(convertValue(6.5, '%', 'mmol/mol', 'HBA1C')).toBeCloseTo(47.54, 2);
+    expect(convertValue(48, 'mmol/mol', '%', 'HBA1C')).toBeCloseTo(6.542, 3);
+  });
+
+  it('should treat mEq/L as mmol/L for single-charge ions only', () => {
+    expect(convertValue(4.2, 'mEq/L', 'mmol/L', 'K')).toBe(4.2);
+    expect(convertValue(4.8, 'mEq/L', 'mmol/L', 'CA')).toBeNull();
+  });
+
+  it('should return null when no conversion is known', () => {
+    expect(convertValue(30, 'U/L', 'mmol/L', 'ALT')).toBeNull();
+    expect(convertValue(100, 'mg/dL', 'mmol/L')).toBeNull();
+  });
+});
+
+describe('convertTestResult', () => {
+  const glucose: TestResult = {
+    id: '1',
+    testName: 'Glucose',
+    canonicalCode: 'GLU',
+    value: 99,
+    unit: 'mg/dL',
+    referenceRange: { min: 70, max: 99 },
+    status: 'normal',
+  };
+
+  it('should convert the value and range and keep what was printed', () => {
+    expect(convertTestResult(glucose, 'mmol/L')).toMatchObject({
+      value: 5.495,
+      unit: 'mmol/L',
+      referenceRange: { min: 3.885, max: 5.495 },
+      originalValue: 99,
+      originalUnit: 'mg/dL',
+    });
+  });
+
+  it('should leave the result as it is when no conversion is known', () => {
+    expect(convertTestResult({ ...glucose, canonicalCode: undefined }, 'mmol/L')).toMatchObject({ value: 99, unit: 'mg/dL' });
+  });
+
+  it('should express results in the requested unit system', () => {
+    expect(toUnitSystem(glucose, UnitSystem.SI)).toMatchObject({ value: 5.495, unit: 'mmol/L' });
+    expect(toUnitSystem(glucose, UnitSystem.CONVENTIONAL)).toMatchObject({ value: 99, unit: 'mg/dL' });
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * Unit Conversion - SI <-> conventional units for lab analytes
+ *
+ * WHY: One lab reports testosterone in nmol/L, another in ng/dL. Until both
+ * are in the same unit, values can't be compared, trended or judged against
+ * a shared reference range. Conversions between mass and molar units depend
+ * on the analyte's molar mass, so factors live next to each analyte code.
+ *
+ * FUNCTIONALITY:
+ * - Normalises the many spellings of a unit (µmol/L, umol/L, μmol/l)
+ * - Converts within mass or molar units, and between them via molar mass
+ * - Supports analyte-specific factors (insulin, prolactin) and HbA1c's
+ *   NGSP % <-> IFCC mmol/mol formula
+ * - Converts whole TestResults, keeping the original value and unit
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * PdfParserService stores results in the catalogue's preferred unit
+ * ResultsService re-expresses them for ?units=si|conventional
+ */
+
+import { TestResult } from '../entities/bloodwork-result.entity';
+import { findAnalyteByCode } from './analyte-catalogue';
+
+export enum UnitSystem {
+  SI = 'si',
+  CONVENTIONAL = 'conventional',
+}
+
+interface ExplicitConversion {
+  from: string;
+  to: string;
+  convert: (value: number) => number;
+}
+
+interface AnalyteUnitProfile {
+  si: string;
+  molarMass?: number; // g/mol
+  conversions?: ExplicitConversion[];
+}
+
+/**
+ * Mass concentration units expressed in g/L
+ */
+const MASS_UNITS: Record<string, number> = {
+  'g/L': 1,
+  'g/dL': 10,
+  'mg/dL': 1e-2,
+  'mg/L': 1e-3,
+  'ug/mL': 1e-3,
+  'ug/dL': 1e-5,
+  'ug/L': 1e-6,
+  'ng/mL': 1e-6,
+  'ng/dL': 1e-8,
+  'ng/L': 1e-9,
+  'pg/mL': 1e-9,
+};
+
+/**
+ * Molar concentration units expressed in mol/L
+ */
+const MOLAR_UNITS: Record<string, number> = {
+  'mol/L': 1,
+  'mmol/L': 1e-3,
+  'umol/L': 1e-6,
+  'nmol/L': 1e-9,
+  'pmol/L': 1e-12,
+};
+
+/**
+ * Analytes whose mEq/L equals mmol/L (single charge)
+ */
+const MONOVALENT_CODES = new Set(['NA', 'K', 'CL', 'CO2', 'ANION_GAP']);
+
+/**
+ * SI unit and conversion data per analyte code
+ *
+ * The conventional unit is the catalogue's preferredUnit. Analytes not
+ * listed here use the same unit in both systems (U/L enzymes, %, fL, ...).
+ */
+const ANALYTE_UNIT_PROFILES: Record<string, AnalyteUnitProfile> = {
+  GLU: { si: 'mmol/L', molarMass: 180.16 },
+  CHOL: { si: 'mmol/L', molarMass: 386.65 },
+  HDL: { si: 'mmol/L', molarMass: 386.65 },
+  LDL: { si: 'mmol/L', molarMass: 386.65 },
+  NON_HDL: { si: 'mmol/L', molarMass: 386.65 },
+  TRIG: { si: 'mmol/L', molarMass: 885.7 },
+  CREAT: { si: 'umol/L', molarMass: 113.12 },
+  // BUN is reported as urea nitrogen (N2); SI reports urea itself
+  BUN: { si: 'mmol/L', molarMass: 28.014 },
+  UREA: { si: 'mmol/L', molarMass: 60.06 },
+  URIC: { si: 'umol/L', molarMass: 168.11 },
+  TBIL: { si: 'umol/L', molarMass: 584.66 },
+  CA: { si: 'mmol/L', molarMass: 40.08 },
+  CA_CORR: { si: 'mmol/L', molarMass: 40.08 },
+  MG: { si: 'mmol/L', molarMass: 24.305 },
+  PHOS: { si: 'mmol/L', molarMass: 30.97 },
+  IRON: { si: 'umol/L', molarMass: 55.845 },
+  TIBC: { si: 'umol/L', molarMass: 55.845 },
+  TESTO: { si: 'nmol/L', molarMass: 288.42 },
+  FREE_TESTO: { si: 'pmol/L', molarMass: 288.42 },
+  E2: { si: 'pmol/L', molarMass: 272.38 },
+  PROG: { si: 'nmol/L', molarMass: 314.46 },
+  CORTISOL: { si: 'nmol/L', molarMass: 362.46 },
+  DHEAS: { si: 'umol/L', molarMass: 368.49 },
+  FT4: { si: 'pmol/L', molarMass: 776.87 },
+  FT3: { si: 'pmol/L', molarMass: 650.97 },
+  VITD: { si: 'nmol/L', molarMass: 400.64 },
+  B12: { si: 'pmol/L', molarMass: 1355.37 },
+  FOLATE: { si: 'nmol/L', molarMass: 441.4 },
+  HGB: { si: 'g/L' },
+  MCHC: { si: 'g/L' },
+  ALB: { si: 'g/L' },
+  TP: { si: 'g/L' },
+  GLOB: { si: 'g/L' },
+  TRF: { si: 'g/L' },
+  IGG: { si: 'g/L' },
+  IGA: { si: 'g/L' },
+  IGM: { si: 'g/L' },
+  INSULIN: {
+    si: 'pmol/L',
+    conversions: [{ from: 'mIU/L', to: 'pmol/L', convert: value => value * 6.0 }],
+  },
+  PRL: {
+    si: 'mIU/L',
+    conversions: [{ from: 'ng/mL', to: 'mIU/L', convert: value => value * 21.2 }],
+  },
+  HBA1C: {
+    si: 'mmol/mol',
+    // IFCC = (NGSP - 2.15) x 10.929
+    conversions: [{ from: '%', to: 'mmol/mol', convert: value => (value - 2.15) * 10.929 }],
+  },
+};
+
+/**
+ * Spellings that mean the same unit, mapped to one canonical spelling
+ */
+const UNIT_ALIASES: Array<[RegExp, string]> = [
+  [/^(x\s?)?10\s?[\^*]?\s?9\/l$|^(x\s?)?10\s?[\^*]?\s?3\/ul$|^k\/ul$|^thou\/ul$/i, '10^9/L'],
+  [/^(x\s?)?10\s?[\^*]?\s?12\/l$|^(x\s?)?10\s?[\^*]?\s?6\/ul$|^m\/ul$|^mill\/ul$/i, '10^12/L'],
+  [/^(miu\/l|mu\/l|uiu\/ml|uu\/ml)$/i, 'mIU/L'],
+  [/^(iu\/l|u\/l)$/i, 'U/L'],
+  [/^mm\/hr?$/i, 'mm/h'],
+  [/^ml\/min\/1\.73\s?m2$/i, 'mL/min/1.73m2'],
+];
+
+/**
+ * Returns the canonical spelling of a unit
+ * e.g. "µmol/l" -> "umol/L", "mcg/dL" -> "ug/dL", "K/uL" -> "10^9/L"
+ */
+export function normalizeUnit(unit: string): string {
+  const cleaned = unit
+    .trim()
+    .replace(/[µμ]/g, 'u')
+    .replace(/^mcg/i, 'ug')
+    .replace(/\s+/g, '');
+
+  for (const [pattern, canonical] of UNIT_ALIASES) {
+    if (pattern.test(cleaned)) return canonical;
+  }
+
+  const known = [...Object.keys(MASS_UNITS), ...Object.keys(MOLAR_UNITS), 'mEq/L', 'mmol/mol', '%', 'fL', 'pg'];
+  return known.find(candidate => candidate.toLowerCase() === cleaned.toLowerCase()) ?? cleaned;
+}
+
+/**
+ * Converts a value between units for the given analyte
+ *
+ * RETURNS: the converted value, or null when no conversion is known
+ * (e.g. mass <-> molar for an analyte without a molar mass)
+ */
+export function convertValue(
+  value: number,
+  fromUnit: string,
+  toUnit: string,
+  analyteCode?: string,
+): number | null {
+  let from = normalizeUnit(fromUnit);
+  let to = normalizeUnit(toUnit);
+
+  if (analyteCode && MONOVALENT_CODES.has(analyteCode)) {
+    if (from === 'mEq/L') from = 'mmol/L';
+    if (to === 'mEq/L') to = 'mmol/L';
+  }
+
+  if (from === to) return value;
+
+  const profile = analyteCode ? ANALYTE_UNIT_PROFILES[analyteCode] : undefined;
+
+  for (const conversion of profile?.conversions ?? []) {
+    if (conversion.from === from && conversion.to === to) {
+      return conversion.convert(value);
+    }
+    if (conversion.from === to && conversion.to === from) {
+      return invert(conversion.convert, value);
+    }
+  }
+
+  // Molar -> molar is a pure prefix change and needs no molar mass
+  if (MOLAR_UNITS[from] !== undefined && MOLAR_UNITS[to] !== undefined) {
+    return (value * MOLAR_UNITS[from]) / MOLAR_UNITS[to];
+  }
+
+  const gramsPerLitre = toGramsPerLitre(value, from, profile?.molarMass);
+  if (gramsPerLitre === null) return null;
+
+  if (MASS_UNITS[to] !== undefined) {
+    return gramsPerLitre / MASS_UNITS[to];
+  }
+  if (MOLAR_UNITS[to] !== undefined && profile?.molarMass) {
+    return gramsPerLitre / profile.molarMass / MOLAR_UNITS[to];
+  }
+
+  return null;
+}
+
+/**
+ * Unit an analyte is expressed in for the requested unit system
+ */
+export function unitForSystem(analyteCode: string | undefined, system: UnitSystem): string | undefined {
+  const analyte = findAnalyteByCode(analyteCode);
+  if (!analyte) return undefined;
+
+  if (system === UnitSystem.SI) {
+    return ANALYTE_UNIT_PROFILES[analyte.code]?.si ?? analyte.preferredUnit;
+  }
+  return analyte.preferredUnit;
+}
+
+/**
+ * Re-expresses a TestResult (value and reference range) in another unit
+ *
+ * WHY: The original value and unit are kept alongside the converted ones
+ * so users (and corrections) can always see what the lab actually printed.
+ * Returns the result unchanged when the conversion isn't known. Censored
+ * values keep their comparator - every conversion here is increasing.
+ */
+export function convertTestResult(result: TestResult, toUnit: string): TestResult {
+  // Qualitative results have nothing to convert
+  if (result.value === null) {
+    return result;
+  }
+
+  const original = {
+    originalValue: result.originalValue ?? result.value,
+    originalUnit: result.originalUnit ?? result.unit,
+  };
+
+  if (!result.unit || normalizeUnit(result.unit) === normalizeUnit(toUnit)) {
+    return { ...result, ...original, unit: result.unit ? toUnit : result.unit };
+  }
+
+  const convert = (value: number | null) => {
+    if (value === null) return null;
+    const converted = convertValue(value, result.unit, toUnit, result.canonicalCode);
+    return converted === null ? null : roundClinical(converted);
+  };
+
+  const value = convert(result.value);
+  if (value === null) {
+    return { ...result, ...original };
+  }
+
+  return {
+    ...result,
+    ...original,
+    value,
+    unit: toUnit,
+    referenceRange: {
+      min: convert(result.referenceRange.min),
+      max: convert(result.referenceRange.max),
+    },
+  };
+}
+
+/**
+ * Converts a result to its analyte's preferred (storage) unit
+ */
+export function toCanonicalUnit(result: TestResult): TestResult {
+  const target = findAnalyteByCode(result.canonicalCode)?.preferredUnit;
+  return convertTestResult(result, target || result.unit);
+}
+
+/**
+ * Converts a result to the unit used by the requested unit system
+ */
+export function toUnitSystem(result: TestResult, system: UnitSystem): TestResult {
+  const target = unitForSystem(result.canonicalCode, system);
+  return target ? convertTestResult(result, target) : result;
+}
+
+/**
+ * Keeps four significant figures - enough for any lab value
+ */
+function roundClinical(value: number): number {
+  return Number(value.toPrecision(4));
+}
+
+function toGramsPerLitre(value: number, unit: string, molarMass?: number): number | null {
+  if (MASS_UNITS[unit] !== undefined) return value * MASS_UNITS[unit];
+  if (MOLAR_UNITS[unit] !== undefined && molarMass) return value * MOLAR_UNITS[unit] * molarMass;
+  return null;
+}
+
+/**
+ * Inverts a linear (or affine) conversion using two sample points
+ */
+function invert(convert: (value: number) => number, value: number): number {
+  const offset = convert(0);
+  const slope = convert(1) - offset;
+  return (value - offset) / slope;
+}
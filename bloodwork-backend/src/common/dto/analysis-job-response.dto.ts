@@ -19,6 +19,7 @@
 
 import { ApiProperty } from '@nestjs/swagger';
 import { JobStatus } from '../entities/analysis-job.entity';
+import { EnrichmentStatus } from '../entities/bloodwork-result.entity';
 
 export class AnalysisJobResponseDto {
   /**
@@ -64,6 +65,28 @@ export class AnalysisJobResponseDto {
   })
   resultId?: string;
 
+  /**
+   * All results of the job - several when the upload held several reports
+   */
+  @ApiProperty({
+    description: 'IDs of every result created by the job, one per report in the upload',
+    example: ['c3d4e5f6-g7h8-9012-cdef-345678901234'],
+    required: false,
+    type: [String],
+  })
+  resultIds?: string[];
+
+  /**
+   * State of the AI notes stage - results are usable whatever it says
+   */
+  @ApiProperty({
+    description: 'AI enrichment state of the job\'s results; progress runs from 80 to 100 while it is pending',
+    enum: EnrichmentStatus,
+    example: EnrichmentStatus.DONE,
+    required: false,
+  })
+  enrichmentStatus?: EnrichmentStatus;
+
   /**
    * Error message if the analysis fails
    * Displayed in your AnalysisProgress error state
@@ -75,6 +98,18 @@ export class AnalysisJobResponseDto {
   })
   errorMessage?: string;
 
+  /**
+   * Pages read with OCR (scanned / image-only pages)
+   * Lets your app show a "check scanned values" hint
+   */
+  @ApiProperty({
+    description: 'PDF pages (1-based) that were read with OCR',
+    example: [1, 2],
+    type: [Number],
+    required: false,
+  })
+  ocrPages?: number[];
+
   /**
    * When the job was created
    * Used for timeout calculations and user feedback
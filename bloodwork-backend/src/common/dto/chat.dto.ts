@@ -0,0 +1,33 @@
+/**
+ * Chat DTOs - Contracts for questions about a result
+ *
+ * WHY: Validates the question before it reaches the model, and describes
+ * the server-sent events the answer is streamed as.
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * React Native chat screen -> POST /results/:resultId/chat (ChatQuestionDto) -> ChatStreamEvent stream
+ */
+
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ChatRefusalReason } from '../entities/chat-exchange.entity';
+
+export class ChatQuestionDto {
+  @ApiProperty({ description: 'Question about the result', example: 'Why is SHBG relevant to testosterone?' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  message: string;
+}
+
+/**
+ * One server-sent event of an answer - tokens, then done (or error)
+ *
+ * A "replace" event means the answer so far broke a safety rule: the
+ * client shows its content instead of everything received before it.
+ */
+export type ChatStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'replace'; content: string }
+  | { type: 'done'; exchangeId: string; refusalReason: ChatRefusalReason | null }
+  | { type: 'error'; message: string };
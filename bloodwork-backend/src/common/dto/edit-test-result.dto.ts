@@ -0,0 +1,79 @@
+/**
+ * Edit Test Result DTOs - Contracts for correcting extracted results
+ *
+ * WHY: Validates the user's corrections before they replace parsed values.
+ * Values are entered as printed on the report (value, unit and range in
+ * the same unit); the server converts them to the analyte's storage unit
+ * and re-derives status, exactly as it does for parsed rows.
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * React Native edit screen -> PATCH /results/:resultId/tests/:testId (UpdateTestResultDto)
+ *                          -> POST /results/:resultId/tests (CreateTestResultDto)
+ */
+
+import { IsIn, IsNotEmpty, IsNumber, IsOptional, IsString, MaxLength, ValidateIf } from 'class-validator';
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { LabFlag, ResultComparator } from '../entities/bloodwork-result.entity';
+
+const COMPARATORS: ResultComparator[] = ['<', '<=', '>', '>='];
+const LAB_FLAGS: LabFlag[] = ['H', 'L', 'HH', 'LL', 'A', 'C'];
+
+export class UpdateTestResultDto {
+  @ApiProperty({ description: 'Test name as printed on the report', example: 'Hemoglobin', required: false })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  testName?: string;
+
+  @ApiProperty({ description: 'Numeric value; null for qualitative results', example: 14.2, required: false, nullable: true })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsNumber({ allowNaN: false, allowInfinity: false })
+  value?: number | null;
+
+  @ApiProperty({ description: 'Bound printed in front of the value ("<0.5")', enum: COMPARATORS, required: false, nullable: true })
+  @IsOptional()
+  @IsIn(COMPARATORS)
+  comparator?: ResultComparator | null;
+
+  @ApiProperty({ description: 'Qualitative result ("Negative", "2+")', example: 'Negative', required: false, nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  qualitativeValue?: string | null;
+
+  @ApiProperty({ description: 'Unit as printed on the report', example: 'g/dL', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  unit?: string;
+
+  @ApiProperty({ description: 'Lower reference bound, in the same unit as the value', example: 13.5, required: false, nullable: true })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsNumber({ allowNaN: false, allowInfinity: false })
+  referenceMin?: number | null;
+
+  @ApiProperty({ description: 'Upper reference bound, in the same unit as the value', example: 17.5, required: false, nullable: true })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsNumber({ allowNaN: false, allowInfinity: false })
+  referenceMax?: number | null;
+
+  @ApiProperty({ description: 'Flag printed by the lab', enum: LAB_FLAGS, required: false, nullable: true })
+  @IsOptional()
+  @IsIn(LAB_FLAGS)
+  labFlag?: LabFlag | null;
+}
+
+/**
+ * A row the parser missed - name and a value (numeric or qualitative) are required
+ */
+export class CreateTestResultDto extends OmitType(UpdateTestResultDto, ['testName'] as const) {
+  @ApiProperty({ description: 'Test name as printed on the report', example: 'Ferritin' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  testName: string;
+}
@@ -0,0 +1,78 @@
+/**
+ * Update Profile DTO - Contract for saving the user's health profile
+ *
+ * WHY: Validates PUT /profiles/me so only well-formed demographics reach
+ * the reference-range library. Every field is optional so the app can
+ * update one detail at a time; null clears a value, except for pregnant
+ * which is always true or false.
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * React Native profile screen sends { fullName, birthDate, sex, pregnant }
+ */
+
+import { IsBoolean, IsDateString, IsEnum, IsOptional, IsString, MaxLength, ValidateIf } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BiologicalSex } from '../entities/user-profile.entity';
+
+export class UpdateProfileDto {
+  @ApiProperty({
+    description: 'Name as printed on lab reports',
+    example: 'Jane Doe',
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  fullName?: string | null;
+
+  @ApiProperty({
+    description: 'Birth date (YYYY-MM-DD)',
+    example: '1988-04-12',
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  birthDate?: string | null;
+
+  @ApiProperty({
+    description: 'Biological sex used for reference ranges',
+    enum: BiologicalSex,
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsEnum(BiologicalSex)
+  sex?: BiologicalSex | null;
+
+  @ApiProperty({
+    description: 'Whether the user is currently pregnant',
+    example: false,
+    required: false,
+  })
+  // Not nullable - @IsOptional() would let null through to a NOT NULL column
+  @ValidateIf((_, value) => value !== undefined)
+  @IsBoolean()
+  pregnant?: boolean;
+}
+
+/**
+ * Profile as returned to the app
+ */
+export class ProfileResponseDto {
+  @ApiProperty({ example: 'Jane Doe', nullable: true })
+  fullName: string | null;
+
+  @ApiProperty({ example: '1988-04-12', nullable: true })
+  birthDate: string | null;
+
+  @ApiProperty({ enum: BiologicalSex, nullable: true })
+  sex: BiologicalSex | null;
+
+  @ApiProperty({ example: false })
+  pregnant: boolean;
+
+  @ApiProperty({ description: 'Age in years today, when birthDate is known', example: 37, nullable: true })
+  ageYears: number | null;
+}
@@ -40,4 +40,13 @@ export class UploadResponseDto {
     example: 'uploads/a1b2c3d4-e5f6-7890-abcd-ef1234567890.pdf',
   })
   fileUrl: string;
+
+  /**
+   * Number of pages - photos for image uploads, 1 for a PDF
+   */
+  @ApiProperty({
+    description: 'Number of report images in the upload (1 for PDFs)',
+    example: 2,
+  })
+  pageCount: number;
 }
@@ -6,7 +6,7 @@
  * lifecycle from "queued" to "completed". Your app polls this for progress.
  * 
  * FUNCTIONALITY:
- * - Manages job state machine (queued -> running -> completed/failed)
+ * - Manages job state machine (queued -> running -> completed/needs_review/failed)
  * - Tracks progress percentage for user feedback
  * - Links uploads to results through foreign keys
  * - Enables job recovery and retry mechanisms
@@ -18,6 +18,7 @@
  */
 
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { EnrichmentStatus } from './bloodwork-result.entity';
 
 /**
  * Job Status Enum - Represents the state machine of analysis processing
@@ -28,8 +29,16 @@ export enum JobStatus {
   RUNNING = 'running',   // AI analysis in progress
   COMPLETED = 'completed', // Analysis finished successfully
   FAILED = 'failed',     // Analysis failed with error
+  NEEDS_REVIEW = 'needs_review', // Parsed, but values await the user's confirmation
 }
 
+/**
+ * Progress ranges of the two stages: parsing and saving results runs up to
+ * this value, where the job is completed (or needs review); AI enrichment
+ * of the results fills the rest up to 100
+ */
+export const ENRICHMENT_PROGRESS_START = 80;
+
 @Entity('analysis_jobs')
 export class AnalysisJob {
   /**
@@ -80,6 +89,22 @@ export class AnalysisJob {
   @Column({ nullable: true })
   resultId: string;
 
+  /**
+   * Every BloodworkResult created by this job, oldest collection date first
+   * A document holding several reports produces one result per report;
+   * resultId is the first of them
+   */
+  @Column('simple-json', { nullable: true })
+  resultIds: string[] | null;
+
+  /**
+   * Combined AI enrichment state of the job's results, null until results exist
+   * failed or fallback when any result's enrichment failed or fell back,
+   * pending while any result is still waiting, otherwise done
+   */
+  @Column({ type: 'varchar', enum: EnrichmentStatus, nullable: true })
+  enrichmentStatus: EnrichmentStatus | null;
+
   /**
    * Error message if job fails
    * Displayed in your AnalysisProgress error state
@@ -88,6 +113,13 @@ export class AnalysisJob {
   @Column({ nullable: true })
   errorMessage: string;
 
+  /**
+   * PDF pages (1-based) that had no text layer and were read with OCR
+   * Lets the app warn that values on those pages may be misread
+   */
+  @Column('simple-json', { nullable: true })
+  ocrPages: number[] | null;
+
   /**
    * Job creation timestamp
    * Used for job timeout and cleanup policies
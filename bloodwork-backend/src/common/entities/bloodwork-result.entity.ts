@@ -7,7 +7,7 @@
  * 
  * FUNCTIONALITY:
  * - Stores parsed and analyzed bloodwork test results
- * - Categorizes tests by status (normal, high, low, critical)
+ * - Categorizes tests by status (normal, high, low, critical, abnormal)
  * - Preserves test metadata (dates, types, reference ranges)
  * - Enables result sharing, printing, and historical comparison
  * 
@@ -18,6 +18,189 @@
  */
 
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+import { BiologicalSex } from './user-profile.entity';
+import { PanelCoverage } from '../clinical/panel-catalogue';
+
+/**
+ * Status of a single test
+ * 'abnormal' is used for qualitative results that differ from the expected
+ * finding (e.g. "Positive" where "Negative" is expected)
+ */
+export type TestStatus = 'normal' | 'high' | 'low' | 'critical' | 'abnormal';
+
+/**
+ * Comparator printed in front of a censored value ("<0.5", ">1000")
+ */
+export type ResultComparator = '<' | '<=' | '>' | '>=';
+
+/**
+ * Flag printed by the lab, normalised
+ * H/L high/low, HH/LL critical high/low, A abnormal, C critical
+ */
+export type LabFlag = 'H' | 'L' | 'HH' | 'LL' | 'A' | 'C';
+
+/**
+ * Where a result's reference range came from
+ * lab: printed on the report, library: demographic reference-range
+ * library (see common/clinical/reference-ranges.ts), none: no range known
+ */
+export type ReferenceRangeSource = 'lab' | 'library' | 'none';
+
+/**
+ * Why a result row was marked for review
+ * (see analysis/parsing/extraction-confidence.ts)
+ */
+export type ReviewReason =
+  | 'low_ocr_confidence'
+  | 'missing_value'
+  | 'missing_unit'
+  | 'unknown_analyte'
+  | 'flag_discrepancy'
+  | 'reference_range_conflict';
+
+/**
+ * State of the AI enrichment stage (per-test AI notes) for a result
+ * pending: queued, or waiting for the user to confirm the values;
+ * done: every test has an AI note; fallback: some or all notes are the
+ * rule-based default because the model didn't answer; failed: the stage
+ * gave up after its retries - the result is usable without notes
+ */
+export enum EnrichmentStatus {
+  PENDING = 'pending',
+  DONE = 'done',
+  FAILED = 'failed',
+  FALLBACK = 'fallback',
+}
+
+/**
+ * Where on the report a result row was read from
+ */
+export interface ResultSource {
+  /**
+   * 1-based page (or photo) number, when it could be determined
+   */
+  page?: number;
+  /**
+   * Row text as extracted - multi-line rows keep their line breaks
+   */
+  text: string;
+}
+
+/**
+ * How a calculated marker was worked out
+ */
+export interface Derivation {
+  /**
+   * Name of the method, e.g. "CKD-EPI 2021", "Friedewald"
+   */
+  method: string;
+  /**
+   * Formula in the units of the inputs, e.g. "TC - HDL - TG / 5"
+   */
+  formula: string;
+  /**
+   * Values the formula used - results by testId, demographics by name
+   */
+  inputs: Array<{ name: string; testId?: string; value: number | string; unit: string }>;
+  /**
+   * Values assumed because the report didn't have them (e.g. albumin 4.3 g/dL)
+   */
+  assumptions?: string[];
+}
+
+/**
+ * Change since the user's previous value for the same analyte
+ * Worked out when a result is read, in the unit the test is shown in
+ * (see common/clinical/delta-checks.ts)
+ */
+export interface DeltaCheck {
+  previousResultId: string;
+  previousTestId: string;
+  previousDate: string;
+  previousValue: number;
+  /**
+   * Current minus previous value
+   */
+  change: number;
+  /**
+   * Change as a percentage of the previous value - null when it was 0
+   */
+  percentChange: number | null;
+  /**
+   * Smallest percentage change (95%) that is more than analytical and
+   * within-person biological variation - null when the analyte has no data
+   */
+  referenceChangeValue: number | null;
+  /**
+   * Null when there's no reference change value to judge by
+   */
+  significant: boolean | null;
+  direction: 'increase' | 'decrease' | 'unchanged';
+  /**
+   * Significant changes toward or away from the reference range
+   * 'changed' when the value moved but stayed in range (or there is no range)
+   */
+  assessment: 'improved' | 'worsened' | 'changed' | 'not_significant' | null;
+}
+
+/**
+ * Report-level narrative from the AI enrichment stage
+ * Rephrases the rule-based insights - it never sets severity or follow-up
+ */
+export interface ReportSummary {
+  /**
+   * A few sentences on what the report means as a whole
+   */
+  overview: string;
+  /**
+   * One short paragraph per covered panel (and "Other Tests")
+   */
+  panels: Array<{ panel: string; summary: string; testIds: string[] }>;
+  /**
+   * Analytes that point the same way, e.g. iron studies all low
+   */
+  patterns: Array<{ title: string; explanation: string; testIds: string[] }>;
+  questionsForDoctor: string[];
+  /**
+   * Provider and model that wrote it, or 'fallback:rules'
+   */
+  model: string;
+  version: string;
+  generatedAt: string;
+}
+
+/**
+ * Patient and order details printed on the report
+ * Every field is null when the report doesn't print it
+ */
+export interface PatientInfo {
+  name: string | null;
+  /**
+   * YYYY-MM-DD
+   */
+  birthDate: string | null;
+  sex: BiologicalSex | null;
+  /**
+   * Medical record number / patient id assigned by the lab or clinic
+   */
+  mrn: string | null;
+  /**
+   * Lab's id for this specimen or order
+   */
+  accessionNumber: string | null;
+  orderingPhysician: string | null;
+  labName: string | null;
+}
+
+/**
+ * Outcome of comparing the report's patient with the uploading user's profile
+ * match: every comparable field agrees; mismatch: at least one field
+ * disagrees; unverified: nothing to compare (no profile or nothing printed)
+ */
+export interface IdentityCheck {
+  status: 'match' | 'mismatch' | 'unverified';
+  mismatchedFields: Array<'name' | 'birthDate' | 'sex'>;
+}
 
 /**
  * Individual test result structure
@@ -25,14 +208,115 @@ import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeor
  */
 export interface TestResult {
   id: string;
+  /**
+   * Label exactly as printed by the lab (e.g. "Hgb", "Haemoglobin")
+   */
   testName: string;
-  value: number;
+  /**
+   * Stable analyte code from the analyte catalogue (e.g. "HGB")
+   * Undefined when the label isn't in the catalogue yet
+   */
+  canonicalCode?: string;
+  /**
+   * Numeric value, or null for qualitative results ("Negative", "Trace")
+   * Titers ("1:160") store the dilution denominator (160)
+   */
+  value: number | null;
+  /**
+   * Set when the lab reported a bound rather than an exact value:
+   * "<0.5" is stored as value 0.5 with comparator '<'
+   */
+  comparator?: ResultComparator;
+  /**
+   * Qualitative result in canonical spelling ("Negative", "Not Detected", "2+")
+   */
+  qualitativeValue?: string;
+  /**
+   * Qualitative reference printed by the lab ("Negative", "Non-Reactive")
+   */
+  expectedQualitative?: string;
+  /**
+   * Result text as printed when it isn't a plain number ("<0.5", "1:160")
+   */
+  valueText?: string;
   unit: string;
+  /**
+   * Either bound is null when the lab prints a one-sided range
+   * ("< 200", "> 40") or no range at all
+   */
   referenceRange: {
-    min: number;
-    max: number;
+    min: number | null;
+    max: number | null;
   };
-  status: 'normal' | 'high' | 'low' | 'critical';
+  referenceRangeSource?: ReferenceRangeSource;
+  /**
+   * Lab-printed range doesn't overlap the library range for this user's
+   * demographics - usually a misread number or unit
+   */
+  referenceRangeConflict?: boolean;
+  /**
+   * Final status: the lab's flag when printed, otherwise computedStatus
+   */
+  status: TestStatus;
+  /**
+   * Flag printed by the lab next to the value, if any
+   */
+  labFlag?: LabFlag;
+  /**
+   * Status computed from value, reference range and critical limits
+   */
+  computedStatus?: TestStatus;
+  /**
+   * True when the lab flag and computedStatus disagree - shown to the user
+   * because it usually means a misread value, unit or range
+   */
+  flagDiscrepancy?: boolean;
+  /**
+   * Value and unit exactly as printed on the report
+   * value/unit above hold the analyte's canonical (storage) unit
+   */
+  originalValue?: number;
+  originalUnit?: string;
+  /**
+   * OCR confidence (0-1) for rows read from a scanned page - the lowest
+   * word confidence on the row's line(s). Absent for text-layer PDFs.
+   */
+  ocrConfidence?: number;
+  /**
+   * Overall extraction confidence (0-1) combining OCR confidence with
+   * missing or inconsistent fields
+   */
+  confidence?: number;
+  source?: ResultSource;
+  reviewReasons?: ReviewReason[];
+  /**
+   * True until the user confirms a low-confidence or incomplete row
+   */
+  needsReview?: boolean;
+  /**
+   * Row was corrected or added by the user (see ResultEdit history)
+   */
+  userEdited?: boolean;
+  /**
+   * Calculated from other results rather than printed by the lab
+   */
+  calculated?: boolean;
+  derivation?: Derivation;
+  /**
+   * One-sentence explanation from the AI enrichment stage
+   */
+  aiNote?: string;
+  aiConfidence?: number;
+  /**
+   * Model that wrote the note, or 'fallback:rules' for the default note
+   */
+  aiModel?: string;
+  aiVersion?: string;
+  aiTimestamp?: string;
+  /**
+   * Comparison with the user's previous value - set on read, never stored
+   */
+  delta?: DeltaCheck;
 }
 
 @Entity('bloodwork_results')
@@ -60,20 +344,48 @@ export class BloodworkResult {
 
   /**
    * Type of bloodwork test performed
-   * Examples: "Complete Blood Count", "Lipid Panel", "Metabolic Panel"
-   * Extracted from PDF or inferred by AI
+   * Examples: "Complete Blood Count", "Lipid Panel", "Comprehensive Metabolic Panel"
+   * Name of the panel the report covers best (see panels)
    */
   @Column()
   testType: string;
 
+  /**
+   * Standard panels the report covers, best covered first
+   * Each lists the member analytes present and missing, and its completeness (0-100)
+   */
+  @Column('simple-json', { nullable: true })
+  panels: PanelCoverage[] | null;
+
   /**
    * Date when blood was drawn (extracted from PDF)
-   * ISO string format for consistent date handling
+   * ISO string format for consistent date handling: a UTC timestamp when
+   * the report prints a time, otherwise a date (YYYY-MM-DD)
    * Used by your app to show test recency
    */
   @Column()
   testDate: string;
 
+  /**
+   * Labelled report timestamps (same format as testDate), null when not printed
+   * testDate is collectedAt when present
+   */
+  @Column({ nullable: true })
+  collectedAt: string;
+
+  @Column({ nullable: true })
+  receivedAt: string;
+
+  @Column({ nullable: true })
+  reportedAt: string;
+
+  /**
+   * True when testDate isn't an unambiguous collection date - a received
+   * or reported date, a DD/MM vs MM/DD guess, or the upload date
+   */
+  @Column({ default: false })
+  dateGuessed: boolean;
+
   /**
    * Array of individual test results with values and statuses
    * Stored as JSON in database, typed as TestResult[] in TypeScript
@@ -92,11 +404,61 @@ export class BloodworkResult {
 
   /**
    * Overall status of the bloodwork analysis
-   * Usually 'completed' but could be 'pending_review' for critical results
+   * 'completed', or 'needs_review' while extracted values await the user's
+   * confirmation (POST /results/:resultId/confirm)
    */
   @Column({ default: 'completed' })
   status: string;
 
+  /**
+   * When the user confirmed the extracted values, if review was needed
+   */
+  @Column({ type: 'datetime', nullable: true })
+  confirmedAt: Date | null;
+
+  /**
+   * Patient, specimen and lab details extracted from the report
+   */
+  @Column('simple-json', { nullable: true })
+  patientInfo: PatientInfo | null;
+
+  /**
+   * Whether the report's patient matches the uploading user's profile
+   * A mismatch holds the result in 'needs_review' until the user confirms it
+   */
+  @Column('simple-json', { nullable: true })
+  identityCheck: IdentityCheck | null;
+
+  /**
+   * What the report means as a whole - written by the enrichment stage,
+   * cleared (and rewritten) when the user corrects a value
+   */
+  @Column('simple-json', { nullable: true })
+  summary: ReportSummary | null;
+
+  /**
+   * Progress of AI enrichment - the result is usable whatever its state
+   */
+  @Column({
+    type: 'varchar',
+    enum: EnrichmentStatus,
+    default: EnrichmentStatus.PENDING,
+  })
+  enrichmentStatus: EnrichmentStatus;
+
+  /**
+   * Which parser produced the results: a lab template id or 'generic'
+   * Lets us trace (and re-run) results when a template is improved
+   */
+  @Column({ nullable: true })
+  parserTemplateId: string;
+
+  /**
+   * Version of the template/extractor identified by parserTemplateId
+   */
+  @Column({ nullable: true })
+  parserTemplateVersion: string;
+
   /**
    * When the analysis was completed and results generated
    * Important for result validity and expiration policies
@@ -0,0 +1,65 @@
+/**
+ * Chat Exchange Entity - Conversation history about a result
+ *
+ * WHY: Users ask follow-up questions about their report ("why is SHBG
+ * relevant to testosterone?"). Each question and its answer are kept so
+ * the next answer can build on the conversation, the app can show it
+ * again, and refused questions can be audited.
+ *
+ * FUNCTIONALITY:
+ * - One record per question and answer, in order per result and user
+ * - Refused questions keep the reason they were refused
+ * - Answers keep the provider and model that wrote them
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * React Native chat screen -> POST /results/:resultId/chat -> This entity
+ * GET /results/:resultId/chat -> Conversation so far
+ */
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * Questions answered with a fixed refusal instead of the model
+ */
+export type ChatRefusalReason = 'diagnosis' | 'dosing';
+
+@Entity('chat_exchanges')
+@Index(['resultId', 'userId'])
+export class ChatExchange {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * BloodworkResult the conversation is about
+   */
+  @Column()
+  resultId: string;
+
+  /**
+   * User ID from Clerk authentication
+   */
+  @Column()
+  userId: string;
+
+  @Column('text')
+  question: string;
+
+  @Column('text')
+  answer: string;
+
+  /**
+   * Why the question got a fixed refusal - null when the model answered
+   */
+  @Column({ type: 'varchar', nullable: true })
+  refusalReason: ChatRefusalReason | null;
+
+  /**
+   * Provider and model that wrote the answer, e.g. "openai:gpt-4o-mini" -
+   * null for refusals
+   */
+  @Column({ type: 'varchar', nullable: true })
+  model: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,75 @@
+/**
+ * Result Edit Entity - History of user corrections to extracted results
+ *
+ * WHY: The parser sometimes gets a value, unit or range wrong. Users can
+ * now fix individual rows instead of re-uploading, but the original
+ * extraction must not be lost: it is what we audit against, and every
+ * correction is a labelled example of a parser mistake.
+ *
+ * FUNCTIONALITY:
+ * - One record per edit, add or delete of a TestResult row
+ * - Keeps the row before and after the change
+ * - Feeds the corrections export used for parser training and fixtures
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * React Native edit screen -> PATCH/POST/DELETE /results/:resultId/tests -> This entity
+ * GET /results/corrections/export -> Labelled parser corrections
+ */
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { TestResult } from './bloodwork-result.entity';
+
+/**
+ * What the user did to the row
+ */
+export enum ResultEditAction {
+  UPDATE = 'update', // Corrected an extracted (or previously added) row
+  ADD = 'add',       // Added a row the parser missed
+  DELETE = 'delete', // Removed a row that isn't a real result
+}
+
+@Entity('result_edits')
+export class ResultEdit {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * BloodworkResult the edited row belongs to
+   */
+  @Index()
+  @Column()
+  resultId: string;
+
+  /**
+   * User ID from Clerk authentication
+   */
+  @Column()
+  userId: string;
+
+  /**
+   * TestResult.id of the row within the result
+   */
+  @Column()
+  testId: string;
+
+  @Column({
+    type: 'varchar',
+    enum: ResultEditAction,
+  })
+  action: ResultEditAction;
+
+  /**
+   * Row before the change - null for added rows
+   */
+  @Column('simple-json', { nullable: true })
+  before: TestResult | null;
+
+  /**
+   * Row after the change - null for deleted rows
+   */
+  @Column('simple-json', { nullable: true })
+  after: TestResult | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -1,5 +1,5 @@
 /**
- * Upload Entity - Represents PDF files uploaded by users
+ * Upload Entity - Represents report files (PDF or photos) uploaded by users
  * 
  * WHY: This entity is crucial because your React Native app uploads PDF files
  * and we need to track them in the database. Every uploaded file gets a record
@@ -17,6 +17,17 @@
 
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
 
+/**
+ * One photographed page of a report
+ */
+export interface UploadPage {
+  filename: string;
+  originalName: string;
+  mimetype: string;
+  size: number;
+  path: string;
+}
+
 @Entity('uploads')
 export class Upload {
   /**
@@ -48,8 +59,8 @@ export class Upload {
   originalName: string;
 
   /**
-   * MIME type validation - ensures only PDFs
-   * Should always be "application/pdf" due to our validation
+   * MIME type of the (first) file
+   * "application/pdf", or an image type for photographed reports
    */
   @Column()
   mimetype: string;
@@ -68,6 +79,13 @@ export class Upload {
   @Column()
   path: string;
 
+  /**
+   * Photos of the report in page order - null for PDF uploads
+   * A multi-photo report is one upload; filename/path above are page 1
+   */
+  @Column('simple-json', { nullable: true })
+  pages: UploadPage[] | null;
+
   /**
    * When the file was uploaded - important for cleanup and auditing
    */
@@ -0,0 +1,68 @@
+/**
+ * User Profile Entity - Health details that change how results are read
+ *
+ * WHY: Normal ranges for many analytes depend on who was tested. A
+ * hemoglobin of 12.5 g/dL is normal for a woman and low for a man;
+ * alkaline phosphatase runs high in teenagers; TSH targets shift in
+ * pregnancy. Without these details we can only use the lab's printed
+ * range - and when the lab prints none, nothing at all.
+ *
+ * FUNCTIONALITY:
+ * - Stores name, birth date, biological sex and pregnancy status per user
+ * - One profile per Clerk user, created on first update
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * React Native profile screen -> PUT /profiles/me -> This entity
+ * AnalysisProcessor / ResultsService -> Reference-range library -> TestResult ranges
+ */
+
+import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+/**
+ * Sex used for reference ranges (as recorded by the lab)
+ */
+export enum BiologicalSex {
+  MALE = 'male',
+  FEMALE = 'female',
+}
+
+@Entity('user_profiles')
+export class UserProfile {
+  /**
+   * User ID from Clerk authentication - one profile per user
+   */
+  @PrimaryColumn()
+  userId: string;
+
+  /**
+   * Name as printed on the user's lab reports
+   * Used to warn when an uploaded report seems to belong to someone else
+   */
+  @Column({ type: 'varchar', nullable: true })
+  fullName: string | null;
+
+  /**
+   * Birth date as ISO date string (YYYY-MM-DD)
+   * Age is calculated at the collection date of each report
+   */
+  @Column({ type: 'varchar', nullable: true })
+  birthDate: string | null;
+
+  /**
+   * Biological sex used for sex-specific reference ranges
+   */
+  @Column({ type: 'varchar', nullable: true })
+  sex: BiologicalSex | null;
+
+  /**
+   * Pregnancy status - selects pregnancy ranges where they exist
+   */
+  @Column({ default: false })
+  pregnant: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
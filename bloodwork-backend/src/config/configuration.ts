@@ -12,6 +12,11 @@
  * - Validates configuration on app startup
  */
 
+import { CriticalLimit, DEFAULT_CRITICAL_LIMITS } from '../common/clinical/critical-limits';
+import { DEFAULT_INSIGHT_RULES, InsightRules } from '../common/clinical/result-insights';
+import { DateOrder } from '../analysis/parsing/report-dates';
+import { LlmConfig, LlmProviderKind } from '../results/llm/llm-provider.interface';
+
 export interface AppConfig {
   port: number;
   database: {
@@ -25,6 +30,7 @@ export interface AppConfig {
   upload: {
     path: string;
     maxSize: number;
+    maxImages: number;
   };
   api: {
     prefix: string;
@@ -33,6 +39,67 @@ export interface AppConfig {
     secretKey: string;
     publishableKey: string;
   };
+  clinical: {
+    criticalLimits: Record<string, CriticalLimit>;
+    insightRules: InsightRules;
+  };
+  ocr: {
+    enabled: boolean;
+    dpi: number;
+    minPageText: number;
+    maxPages: number;
+  };
+  review: {
+    minConfidence: number;
+  };
+  reports: {
+    dateOrder: DateOrder;
+    timeZone: string;
+  };
+  llm: LlmConfig;
+}
+
+/**
+ * Parses a JSON-valued environment variable
+ *
+ * Invalid JSON fails startup - ignoring it would silently drop clinical
+ * overrides such as critical limits.
+ */
+function parseJsonEnv<T>(name: string): T | undefined {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    throw new Error(`${name} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Insight rules with overrides applied - followUp and worsenedSeverity are
+ * merged per key
+ */
+function mergeInsightRules(overrides: Partial<InsightRules> = {}): InsightRules {
+  return {
+    ...DEFAULT_INSIGHT_RULES,
+    ...overrides,
+    followUp: { ...DEFAULT_INSIGHT_RULES.followUp, ...overrides.followUp },
+    worsenedSeverity: { ...DEFAULT_INSIGHT_RULES.worsenedSeverity, ...overrides.worsenedSeverity },
+  };
+}
+
+/**
+ * LLM provider from LLM_PROVIDER - without one, OpenAI when a key is set,
+ * otherwise the offline rule-based provider. An unknown value fails startup.
+ */
+function llmProviderKind(): LlmProviderKind {
+  const raw = process.env.LLM_PROVIDER;
+  if (raw === 'openai' || raw === 'local' || raw === 'rules') return raw;
+  if (raw) {
+    throw new Error(`LLM_PROVIDER "${raw}" is not openai, local or rules`);
+  }
+  return process.env.OPENAI_API_KEY ? 'openai' : 'rules';
 }
 
 export default (): AppConfig => {
@@ -55,6 +122,7 @@ export default (): AppConfig => {
     upload: {
       path: process.env.UPLOAD_PATH || './uploads',
       maxSize: parseInt(process.env.MAX_FILE_SIZE || '10485760', 10), // 10MB
+      maxImages: parseInt(process.env.MAX_UPLOAD_IMAGES || '10', 10), // photos per report
     },
     api: {
       prefix: process.env.API_PREFIX || 'api',
@@ -63,5 +131,39 @@ export default (): AppConfig => {
       secretKey: process.env.CLERK_SECRET_KEY || '',
       publishableKey: process.env.CLERK_PUBLISHABLE_KEY || '',
     },
+    clinical: {
+      // e.g. CRITICAL_LIMITS='{"K":{"low":3.0,"high":6.0,"unit":"mmol/L"}}'
+      criticalLimits: {
+        ...DEFAULT_CRITICAL_LIMITS,
+        ...parseJsonEnv<Record<string, CriticalLimit>>('CRITICAL_LIMITS'),
+      },
+      // e.g. INSIGHT_RULES='{"highSeverityAbnormalCount":3,"followUp":{"high":"Within 3 days"}}'
+      insightRules: mergeInsightRules(parseJsonEnv<Partial<InsightRules>>('INSIGHT_RULES')),
+    },
+    ocr: {
+      enabled: process.env.OCR_ENABLED !== 'false',
+      dpi: parseInt(process.env.OCR_DPI || '300', 10),
+      // Pages with fewer non-space characters are treated as image-only
+      minPageText: parseInt(process.env.OCR_MIN_PAGE_TEXT || '20', 10),
+      maxPages: parseInt(process.env.OCR_MAX_PAGES || '10', 10),
+    },
+    review: {
+      // Results with a lower extraction confidence (0-1) wait for the user's confirmation
+      minConfidence: parseFloat(process.env.REVIEW_MIN_CONFIDENCE || '0.8'),
+    },
+    reports: {
+      // Day/month order for dates like 03/04/2025 when the report doesn't settle it
+      dateOrder: process.env.REPORT_DATE_ORDER === 'MDY' ? 'MDY' : 'DMY',
+      // Zone of printed times without one (IANA name, e.g. America/New_York)
+      timeZone: process.env.REPORT_TIME_ZONE || 'UTC',
+    },
+    llm: {
+      provider: llmProviderKind(),
+      model: process.env.LLM_MODEL || process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || '',
+      // Ollama's OpenAI-compatible endpoint by default
+      baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+      timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '7000', 10),
+    },
   };
 };
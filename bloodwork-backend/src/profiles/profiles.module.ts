@@ -0,0 +1,25 @@
+/**
+ * Profiles Module - NestJS module configuration for user health profiles
+ * 
+ * WHY: Packages the profile entity, service and endpoints. The service is
+ * exported because both the analysis pipeline and results service need the
+ * user's demographics to pick reference ranges.
+ * 
+ * RELATIONSHIP TO YOUR APP:
+ * React Native -> ProfilesController -> ProfilesService -> UserProfile entity
+ * AnalysisModule / ResultsModule -> ProfilesService -> Demographics
+ */
+
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ProfilesController } from './profiles.controller';
+import { ProfilesService } from './profiles.service';
+import { UserProfile } from '../common/entities/user-profile.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([UserProfile])],
+  controllers: [ProfilesController],
+  providers: [ProfilesService],
+  exports: [ProfilesService],
+})
+export class ProfilesModule {}
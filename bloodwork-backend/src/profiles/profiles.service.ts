@@ -0,0 +1,93 @@
+/**
+ * Profiles Service - Business logic for the user's health profile
+ * 
+ * WHY: Reference ranges depend on age, sex and pregnancy. This service owns
+ * the profile that supplies them, and hands it to the analysis pipeline and
+ * results service so ranges can be filled in or checked.
+ * 
+ * FUNCTIONALITY:
+ * - Reads the profile (an empty profile if none was saved yet)
+ * - Creates or updates the profile from PUT /profiles/me
+ * - Rejects combinations that can't be used for ranges
+ * 
+ * RELATIONSHIP TO YOUR APP:
+ * React Native profile screen -> ProfilesController -> This service
+ * AnalysisProcessor / ResultsService -> findByUserId() -> Demographics
+ */
+
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BiologicalSex, UserProfile } from '../common/entities/user-profile.entity';
+import { ProfileResponseDto, UpdateProfileDto } from '../common/dto/update-profile.dto';
+import { ApiResponseDto, createApiResponse } from '../common/dto/api-response.dto';
+import { ageInYears } from '../common/clinical/reference-ranges';
+
+@Injectable()
+export class ProfilesService {
+  constructor(
+    @InjectRepository(UserProfile)
+    private readonly profileRepository: Repository<UserProfile>,
+  ) {}
+
+  /**
+   * Raw profile lookup for other services
+   * 
+   * USAGE: AnalysisProcessor and ResultsService call this to get demographics
+   */
+  async findByUserId(userId: string): Promise<UserProfile | null> {
+    return this.profileRepository.findOne({ where: { userId } });
+  }
+
+  /**
+   * Returns the user's profile for the app
+   * 
+   * WHY: A user who never saved a profile gets empty fields rather than a
+   * 404, so the profile screen can render the same way either way.
+   */
+  async getProfile(userId: string): Promise<ApiResponseDto<ProfileResponseDto>> {
+    const profile = await this.findByUserId(userId);
+    return createApiResponse(this.toResponse(profile));
+  }
+
+  /**
+   * Creates or updates the user's profile
+   * 
+   * VALIDATION:
+   * - birthDate can't be in the future
+   * - pregnant requires sex 'female' (clearing sex also clears pregnancy)
+   */
+  async updateProfile(userId: string, dto: UpdateProfileDto): Promise<ApiResponseDto<ProfileResponseDto>> {
+    const existing = await this.findByUserId(userId);
+    const profile = existing ?? this.profileRepository.create({ userId, fullName: null, birthDate: null, sex: null, pregnant: false });
+
+    if (dto.fullName !== undefined) profile.fullName = dto.fullName?.trim() || null;
+    if (dto.birthDate !== undefined) profile.birthDate = dto.birthDate;
+    if (dto.sex !== undefined) profile.sex = dto.sex;
+    if (dto.pregnant !== undefined) profile.pregnant = dto.pregnant;
+
+    if (profile.birthDate && new Date(profile.birthDate).getTime() > Date.now()) {
+      throw new BadRequestException('birthDate cannot be in the future');
+    }
+
+    if (profile.pregnant && profile.sex !== BiologicalSex.FEMALE) {
+      if (dto.pregnant) {
+        throw new BadRequestException('pregnant can only be set when sex is female');
+      }
+      profile.pregnant = false;
+    }
+
+    const saved = await this.profileRepository.save(profile);
+    return createApiResponse(this.toResponse(saved));
+  }
+
+  private toResponse(profile: UserProfile | null): ProfileResponseDto {
+    return {
+      fullName: profile?.fullName ?? null,
+      birthDate: profile?.birthDate ?? null,
+      sex: profile?.sex ?? null,
+      pregnant: profile?.pregnant ?? false,
+      ageYears: ageInYears(profile?.birthDate),
+    };
+  }
+}
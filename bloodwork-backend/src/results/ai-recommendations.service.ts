@@ -1,48 +1,175 @@
-import OpenAI from 'openai';
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { BloodworkResult, TestResult } from '../common/entities/bloodwork-result.entity';
-import { InsightOut, TestResultInput } from './ai.types';
-import { InsightOutArraySchema } from './ai.schema';
-import { SYSTEM_PROMPT, BATCH_USER_TEMPLATE } from './ai.prompt';
+import { BloodworkResult, EnrichmentStatus, ReportSummary, TestResult } from '../common/entities/bloodwork-result.entity';
+import { InsightOut, ReportSummaryInput, TestResultInput } from './ai.types';
+import { InsightOutArraySchema, ReportSummarySchema } from './ai.schema';
+import { SYSTEM_PROMPT, BATCH_USER_TEMPLATE, SUMMARY_SYSTEM_PROMPT, SUMMARY_USER_TEMPLATE } from './ai.prompt';
 import { getDefaultNote } from './getDefaultNote';
+import { getDefaultSummary } from './getDefaultSummary';
+import { checkAiText, describeViolations, GuardrailReason } from './ai.guardrails';
+import { findAnalyteByCode } from '../common/clinical/analyte-catalogue';
+import { matchPanels, panelNameFor } from '../common/clinical/panel-catalogue';
+import { annotateDeltas } from '../common/clinical/delta-checks';
+import { deriveInsights, InsightRules } from '../common/clinical/result-insights';
+import { LLM_PROVIDER } from './llm/llm-provider.interface';
+import type { LlmProvider } from './llm/llm-provider.interface';
 
-const PROMPT_VERSION = 'p1';
+const PROMPT_VERSION = 'p3';
+const SUMMARY_PROMPT_VERSION = 's1';
+
+/**
+ * Checks a question for the doctor is exempt from - asking "does this mean
+ * I have iron deficiency?" is the point of the list, not a diagnosis
+ */
+const QUESTION_EXEMPT: GuardrailReason[] = ['diagnosis', 'dosage'];
 
 @Injectable()
 export class AiRecommendationsService {
   private readonly log = new Logger(AiRecommendationsService.name);
-  private readonly client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
-  private readonly model = process.env.OPENAI_MODEL ?? 'gpt-4o-mini';
 
   constructor(
     @InjectRepository(BloodworkResult)
     private bloodworkRepository: Repository<BloodworkResult>,
+    @Inject(LLM_PROVIDER)
+    private readonly llm: LlmProvider,
+    private readonly configService: ConfigService,
   ) {}
 
-  async generateAndPersistForAnalysis(analysisId: string): Promise<void> {
-    // 1) Load the BloodworkResult row that contains the JSON "results" array
-    const row = await this.bloodworkRepository.findOne({ 
-      where: { jobId: analysisId } 
-    }) as unknown as BloodworkResult | null;
+  /**
+   * Writes AI notes and the report summary into a stored result - the
+   * enrichment stage of the pipeline
+   *
+   * Rows whose AI call failed, or whose note broke a guardrail, get the
+   * rule-based default note, and a failed summary the rule-based one. When
+   * the model produced nothing at all and a retry is still possible
+   * (allowFallback false) this throws instead, so the queue retries the
+   * whole stage. Notes are merged into the result as
+   * stored now, so a correction made while the model was answering is never
+   * overwritten; a summary of values corrected meanwhile is dropped, the
+   * correction queues a new one.
+   */
+  async enrichResult(resultId: string, allowFallback: boolean): Promise<EnrichmentStatus | null> {
+    const row = await this.bloodworkRepository.findOne({ where: { id: resultId } });
+    if (!row) {
+      this.log.warn(`Result ${resultId} no longer exists - skipping enrichment`);
+      return null;
+    }
 
-    if (!row || !Array.isArray(row.results) || row.results.length === 0) {
-      this.log.warn(`No results found for analysis ${analysisId}`);
-      return;
+    // Notes are only written for values the user can rely on, and once -
+    // a retried stage skips the results it already finished
+    if (row.status === 'needs_review' || row.enrichmentStatus !== EnrichmentStatus.PENDING) {
+      return row.enrichmentStatus;
     }
 
-    // 2) Build batch inputs for the model
-    const inputs: TestResultInput[] = row.results.map((r) => ({
-      id: r.id,
-      testName: r.testName,
-      value: r.value,
-      unit: r.unit,
-      referenceRange: r.referenceRange,
-      status: r.status as any,
+    // Rows corrected since the last pass already carry a fresh note
+    const { results: noted, aiCount } = await this.annotate(row.results.filter(test => test.aiNote === undefined));
+    const { summary, fromAi } = await this.generateSummary(row);
+    if (aiCount === 0 && !fromAi && !allowFallback) {
+      throw new Error(`No AI output generated for result ${resultId}`);
+    }
+
+    const current = await this.bloodworkRepository.findOne({ where: { id: resultId } });
+    if (!current) {
+      return null;
+    }
+    const notedById = new Map(noted.map(test => [test.id, test]));
+    const results = current.results.map(test => {
+      const withNote = notedById.get(test.id);
+      const unchanged = withNote && withNote.value === test.value && withNote.unit === test.unit && withNote.status === test.status;
+      return unchanged ? { ...test, ...pickNote(withNote) } : test;
+    });
+
+    if (valuesKey(current.results) !== valuesKey(row.results)) {
+      await this.bloodworkRepository.update({ id: resultId }, { results });
+      this.log.log(`Result ${resultId} changed during enrichment - summary left to the next pass`);
+      return current.enrichmentStatus;
+    }
+
+    const enrichmentStatus = aiCount === noted.length && fromAi ? EnrichmentStatus.DONE : EnrichmentStatus.FALLBACK;
+    await this.bloodworkRepository.update({ id: resultId }, { results, summary, enrichmentStatus });
+
+    this.log.log(`AI notes and summary persisted for result ${resultId} (${enrichmentStatus})`);
+    return enrichmentStatus;
+  }
+
+  /**
+   * What the report means as a whole - the second AI pass
+   *
+   * The model gets the result as describeResult() puts it. A reply that
+   * fails ReportSummarySchema or the guardrails is retried once, then
+   * replaced by the rule-based summary. Test ids the model made up are
+   * dropped.
+   */
+  private async generateSummary(row: BloodworkResult): Promise<{ summary: ReportSummary; fromAi: boolean }> {
+    const input = await this.describeResult(row);
+    const generated = await this.withRetry(() => this.callSummaryOnce(input, new Set(input.tests.map(test => test.id))));
+    const now = new Date().toISOString();
+
+    this.log.log(`Report summary generated for result ${row.id} (${generated ? 'ai' : 'fallback'})`);
+    return {
+      summary: {
+        ...(generated ?? getDefaultSummary(input)),
+        model: generated ? this.llm.id : 'fallback:rules',
+        version: `${this.llm.id}:${SUMMARY_PROMPT_VERSION}`,
+        generatedAt: now,
+      },
+      fromAi: !!generated,
+    };
+  }
+
+  /**
+   * A result as the model sees it - its tests grouped by panel with their
+   * changes since the previous result, and the rule-based severity and
+   * findings any answer has to agree with
+   *
+   * Used by the report summary and by chat.
+   */
+  async describeResult(row: BloodworkResult): Promise<ReportSummaryInput> {
+    const others = (await this.bloodworkRepository.find({ where: { userId: row.userId } }))
+      .filter(other => other.id !== row.id);
+    const results = annotateDeltas(row.results, row.testDate, others);
+    const { severity, followUpTimeframe, keyFindings } = deriveInsights(
+      { results, panels: row.panels },
+      this.configService.get<InsightRules>('clinical.insightRules'),
+    );
+
+    const byId = new Map(results.map(test => [test.id, test]));
+    const tests = this.toInputs(results).map(item => ({
+      ...item,
+      canonicalCode: byId.get(item.id)?.canonicalCode,
+      change: describeChange(byId.get(item.id)!),
     }));
 
-    // 3) Auto-chunk >20 items
+    return {
+      testType: row.testType,
+      testDate: row.testDate,
+      severity,
+      followUpTimeframe,
+      keyFindings,
+      panels: [...new Set(tests.map(test => test.panel))],
+      tests,
+    };
+  }
+
+  /**
+   * Returns the given rows with fresh AI notes (rule-based fallback per row)
+   *
+   * Also used when a user corrects a row, so its note matches the new value.
+   */
+  async generateNotes(results: TestResult[]): Promise<TestResult[]> {
+    return (await this.annotate(results)).results;
+  }
+
+  /**
+   * Rows with notes, and how many of the notes came from the model
+   */
+  private async annotate(results: TestResult[]): Promise<{ results: TestResult[]; aiCount: number }> {
+    // 1) Build batch inputs for the model, panel by panel so related tests share a batch
+    const inputs = this.toInputs(results);
+
+    // 2) Auto-chunk >20 items
     const CHUNK = 20;
     const batches: TestResultInput[][] = [];
     for (let i = 0; i < inputs.length; i += CHUNK) {
@@ -51,20 +178,30 @@ export class AiRecommendationsService {
 
     const outputs: InsightOut[] = [];
     for (const batch of batches) {
-      const out = await this.callWithRetry(batch);
+      const out = await this.withRetry(() => this.callOnce(batch));
       if (out) outputs.push(...out);
     }
 
-    const byId = new Map(outputs.map(o => [o.id, o]));
-    const version = `openai:${this.model}:${PROMPT_VERSION}`;
+    // 3) Safety checks - a note that fails them is replaced like a missing one
+    const statusById = new Map(results.map(r => [r.id, r.status]));
+    const accepted = outputs.filter(o => {
+      const violations = checkAiText(o.aiNote, { status: statusById.get(o.id) });
+      if (violations.length > 0) {
+        this.log.warn(`Guardrail replaced AI note for test ${o.id}: ${describeViolations(violations)}`);
+      }
+      return violations.length === 0;
+    });
+
+    const byId = new Map(accepted.map(o => [o.id, o]));
+    const version = `${this.llm.id}:${PROMPT_VERSION}`;
     const now = new Date().toISOString();
 
     // 4) Merge outputs into each TestResult (fallback per-row if missing)
-    const updatedResults: TestResult[] = row.results.map(r => {
+    const updatedResults: TestResult[] = results.map(r => {
       const aiResult = byId.get(r.id);
       return {
         ...r,
-        aiNote: aiResult?.aiNote ?? getDefaultNote(r.testName, r.status, r.value, r.unit),
+        aiNote: aiResult?.aiNote ?? getDefaultNote(this.displayName(r), r.status, r.value, r.unit),
         aiConfidence: aiResult?.confidence ?? 0.2,
         aiModel: aiResult ? aiResult.sourceModel : 'fallback:rules',
         aiVersion: version,
@@ -72,47 +209,69 @@ export class AiRecommendationsService {
       };
     });
 
-    // 5) Persist back into the JSON column
-    await this.bloodworkRepository.update(
-      { id: row.id },
-      { results: updatedResults }
-    );
+    this.log.log(`AI notes generated (${accepted.length}/${inputs.length})`);
+    return { results: updatedResults, aiCount: updatedResults.filter(r => byId.has(r.id)).length };
+  }
+
+  /**
+   * Model inputs for the given rows, grouped by panel
+   */
+  private toInputs(results: TestResult[]): TestResultInput[] {
+    const panels = matchPanels(results);
+    const inputs: TestResultInput[] = results.map((r) => ({
+      id: r.id,
+      testName: this.displayName(r),
+      value: r.value,
+      comparator: r.comparator,
+      qualitativeValue: r.qualitativeValue,
+      expectedQualitative: r.expectedQualitative,
+      unit: r.unit,
+      referenceRange: r.referenceRange,
+      status: r.status as any,
+      panel: panelNameFor(r.canonicalCode, panels),
+    }));
+    // Best covered panel first, tests outside every panel last
+    const panelOrder = (name: string) => {
+      const index = panels.findIndex(p => p.name === name);
+      return index === -1 ? panels.length : index;
+    };
+    return inputs.sort((a, b) => panelOrder(a.panel) - panelOrder(b.panel));
+  }
 
-    this.log.log(`AI notes persisted (${outputs.length}/${inputs.length}) for analysis ${analysisId}`);
+  /**
+   * Canonical analyte name when known, so "Hgb" and "HGB" get the same note
+   */
+  private displayName(result: TestResult): string {
+    return findAnalyteByCode(result.canonicalCode)?.name ?? result.testName;
   }
 
-  private async callWithRetry(batch: TestResultInput[]): Promise<InsightOut[] | null> {
+  private async withRetry<T>(call: () => Promise<T>): Promise<T | null> {
     try {
-      return await this.callOnce(batch);
+      return await call();
     } catch (error) {
       this.log.warn(`AI call failed, retrying: ${error.message}`);
       // Wait 300-1200ms before retry
       await new Promise(r => setTimeout(r, 300 + Math.floor(Math.random() * 900)));
       
       try {
-        return await this.callOnce(batch);
+        return await call();
       } catch (retryError) {
-        this.log.warn(`AI batch failed twice: ${retryError.message}`);
+        this.log.warn(`AI call failed twice: ${retryError.message}`);
         return null;
       }
     }
   }
 
   private async callOnce(items: TestResultInput[]): Promise<InsightOut[]> {
-    const resp = await this.client.chat.completions.create({
-      model: this.model,
+    const reply = await this.llm.complete({
+      system: SYSTEM_PROMPT,
+      user: BATCH_USER_TEMPLATE(items),
+      task: { kind: 'test-notes', items },
+      json: true,
       temperature: 0.2,
-      max_tokens: 900,
-      response_format: { type: 'json_object' },
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: BATCH_USER_TEMPLATE(items) },
-      ],
-    }, {
-      timeout: 7000,
+      maxTokens: 900,
     });
-
-    const rawContent = resp.choices?.[0]?.message?.content?.trim() ?? '[]';
+    const rawContent = reply.trim() || '[]';
 
     let parsed: unknown;
     try {
@@ -133,7 +292,94 @@ export class AiRecommendationsService {
 
     return validated.map(v => ({
       ...v,
-      sourceModel: `openai:${this.model}` 
+      sourceModel: this.llm.id,
     }));
   }
+
+  private async callSummaryOnce(input: ReportSummaryInput, testIds: Set<string>): Promise<Omit<ReportSummary, 'model' | 'version' | 'generatedAt'>> {
+    const reply = await this.llm.complete({
+      system: SUMMARY_SYSTEM_PROMPT,
+      user: SUMMARY_USER_TEMPLATE(input),
+      task: { kind: 'report-summary', input },
+      json: true,
+      temperature: 0.3,
+      maxTokens: 1200,
+    });
+    const rawContent = reply.trim();
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rawContent);
+    } catch {
+      // Try to salvage the object from response
+      const s = rawContent.indexOf('{');
+      const e = rawContent.lastIndexOf('}');
+      if (s >= 0 && e > s) {
+        parsed = JSON.parse(rawContent.slice(s, e + 1));
+      } else {
+        throw new Error(`Invalid JSON from model: ${rawContent.slice(0, 180)}...`);
+      }
+    }
+
+    const validated = ReportSummarySchema.parse(parsed);
+    const known = (ids: string[]) => ids.filter(id => testIds.has(id));
+
+    // The overview and panel summaries are the summary - one breaking a
+    // safety rule rejects it. The referral a critical report needs belongs
+    // in the overview.
+    const violations = [
+      ...checkAiText(validated.overview, { severity: input.severity }),
+      ...validated.panels.flatMap(panel => checkAiText(panel.summary, { severity: input.severity, partial: true })),
+    ];
+    if (violations.length > 0) {
+      throw new Error(`Guardrail rejected summary: ${describeViolations(violations)}`);
+    }
+
+    // Patterns and questions are extras - an unsafe one is dropped rather
+    // than costing a retry
+    return {
+      overview: validated.overview,
+      panels: validated.panels.map(panel => ({ ...panel, testIds: known(panel.testIds) })),
+      patterns: validated.patterns
+        .filter(pattern => this.passesGuardrails('pattern', `${pattern.title}. ${pattern.explanation}`, input))
+        .map(pattern => ({ ...pattern, testIds: known(pattern.testIds) }))
+        .filter(pattern => pattern.testIds.length >= 2),
+      questionsForDoctor: validated.questionsForDoctor
+        .filter(question => this.passesGuardrails('question', question, input, QUESTION_EXEMPT)),
+    };
+  }
+
+  private passesGuardrails(kind: string, text: string, input: ReportSummaryInput, exempt: GuardrailReason[] = []): boolean {
+    const violations = checkAiText(text, { severity: input.severity, partial: true })
+      .filter(violation => !exempt.includes(violation.reason));
+    if (violations.length > 0) {
+      this.log.warn(`Guardrail dropped summary ${kind}: ${describeViolations(violations)}`);
+    }
+    return violations.length === 0;
+  }
+}
+
+function pickNote(test: TestResult): Partial<TestResult> {
+  const { aiNote, aiConfidence, aiModel, aiVersion, aiTimestamp } = test;
+  return { aiNote, aiConfidence, aiModel, aiVersion, aiTimestamp };
+}
+
+/**
+ * A significant change since the previous result, in words for the summary prompt
+ */
+function describeChange(test: TestResult): string | undefined {
+  const delta = test.delta;
+  if (!delta?.significant) {
+    return undefined;
+  }
+  const amount = delta.percentChange === null ? `${Math.abs(delta.change)} ${test.unit}`.trim() : `${Math.abs(delta.percentChange)}%`;
+  const assessment = delta.assessment === 'improved' || delta.assessment === 'worsened' ? `, ${delta.assessment}` : '';
+  return `${delta.direction === 'increase' ? 'up' : 'down'} ${amount} since ${delta.previousDate.slice(0, 10)}${assessment}`;
+}
+
+/**
+ * What the summary was written from - differs once the user corrects a value
+ */
+function valuesKey(results: TestResult[]): string {
+  return JSON.stringify(results.map(test => [test.id, test.value, test.qualitativeValue, test.unit, test.status]));
 }
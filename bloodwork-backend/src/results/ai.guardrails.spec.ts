@@ -0,0 +1,75 @@
+import { checkAiText } from './ai.guardrails';
+import { getDefaultNote } from './getDefaultNote';
+
+function reasons(text: string, context: Parameters<typeof checkAiText>[1] = {}): string[] {
+  return checkAiText(text, context).map(violation => violation.reason);
+}
+
+describe('checkAiText', () => {
+  it('should accept a plain note that matches the status', () => {
+    expect(reasons('LDL cholesterol is above the reference range - talk to your doctor about it.', { status: 'high' })).toEqual([]);
+  });
+
+  it('should flag medicine names and dosages but not lab units', () => {
+    expect(reasons('Ask about atorvastatin 20 mg once daily.', { status: 'high' })).toEqual(['medication', 'dosage']);
+    expect(reasons('Your LDL of 160 mg/dL is above the reference range.', { status: 'high' })).toEqual([]);
+  });
+
+  it('should only flag amounts given as an instruction', () => {
+    expect(reasons('Take 1000 IU of vitamin D.', { status: 'low' })).toEqual(['dosage']);
+    expect(reasons('Most adults need 600 IU a day.', { status: 'low' })).toEqual(['dosage']);
+    expect(reasons('Your insulin was 15 units, above the reference range.', { status: 'high' })).toEqual([]);
+  });
+
+  it('should not flag a lab unit split across streamed chunks', () => {
+    const chunks = ['Your LDL of 160', ' mg', '/dL', ' is above the reference range', '.'];
+    let answer = '';
+
+    for (const chunk of chunks) {
+      answer += chunk;
+      expect(reasons(answer, { severity: 'medium', streaming: true })).toEqual([]);
+    }
+    expect(reasons(answer, { severity: 'medium' })).toEqual([]);
+  });
+
+  it('should check the last streamed word once the text is complete', () => {
+    expect(reasons('You should take 500 mg', { severity: 'medium', streaming: true })).toEqual([]);
+    expect(reasons('You should take 500 mg', { severity: 'medium' })).toEqual(['dosage']);
+  });
+
+  it('should flag diagnostic claims', () => {
+    expect(reasons('This confirms you have iron deficiency anemia.', { status: 'low' })).toEqual(['diagnosis']);
+    expect(reasons('You are diabetic.', { status: 'high' })).toEqual(['diagnosis']);
+  });
+
+  it('should flag wording that contradicts the status', () => {
+    expect(reasons('Potassium is normal - contact your doctor if unsure.', { status: 'critical' })).toEqual(['status_contradiction']);
+    expect(reasons('Ferritin is elevated.', { status: 'normal' })).toEqual(['status_contradiction']);
+  });
+
+  it('should flag alarmist wording unless the value is critical', () => {
+    expect(reasons('This dangerously low value is alarming.', { status: 'low' })).toEqual(['alarmist']);
+    expect(reasons('This is a dangerously high value - contact your doctor today.', { status: 'critical' })).toEqual([]);
+  });
+
+  it('should flag reassurance about abnormal results', () => {
+    expect(reasons('Slightly low, nothing to worry about.', { status: 'low' })).toEqual(['false_reassurance']);
+    expect(reasons('Nothing to worry about here.', { severity: 'low' })).toEqual([]);
+  });
+
+  it('should require a referral on critical results unless the text is partial', () => {
+    expect(reasons('Potassium is critically high.', { status: 'critical' })).toEqual(['missing_referral']);
+    expect(reasons('Potassium is critically high.', { severity: 'critical', partial: true })).toEqual([]);
+  });
+
+  it('should accept the rule-based notes it falls back to', () => {
+    const names = ['HDL Cholesterol', 'LDL Cholesterol', 'Glucose', 'Vitamin D', 'Hemoglobin', 'Ferritin'];
+    const statuses = ['normal', 'high', 'low', 'critical', 'abnormal'];
+
+    for (const name of names) {
+      for (const status of statuses) {
+        expect(reasons(getDefaultNote(name, status), { status })).toEqual([]);
+      }
+    }
+  });
+});
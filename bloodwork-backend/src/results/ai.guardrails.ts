@@ -0,0 +1,169 @@
+/**
+ * AI Guardrails - Safety checks on everything a model writes
+ *
+ * WHY: Prompts ask the model for no diagnoses and no medication advice,
+ * and the schemas only bound the length of what comes back. Neither stops
+ * a note saying "normal" about a critical potassium. Every note, summary
+ * and chat answer is checked here after it is generated; what fails is
+ * rejected or replaced by rule-based text, and the reason is logged.
+ *
+ * FUNCTIONALITY:
+ * - Medicine names and dosages
+ * - Diagnostic claims ("you have diabetes")
+ * - Wording that contradicts the lab status ("normal" on a critical value)
+ * - Alarmist wording outside critical results, reassuring wording on
+ *   abnormal ones
+ * - A missing referral to a clinician on critical results
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * AiRecommendationsService -> checkAiText() -> aiNote / summary or rule-based fallback
+ * ChatService -> checkAiText() on the streamed answer -> answer or replacement
+ */
+
+import { InsightSeverity } from '../common/clinical/result-insights';
+
+export type GuardrailReason =
+  | 'medication'
+  | 'dosage'
+  | 'diagnosis'
+  | 'status_contradiction'
+  | 'alarmist'
+  | 'false_reassurance'
+  | 'missing_referral';
+
+export interface GuardrailViolation {
+  reason: GuardrailReason;
+  /**
+   * The offending words, for the log
+   */
+  match: string;
+}
+
+export interface GuardrailContext {
+  /**
+   * Status of the test a note is about
+   */
+  status?: string;
+  /**
+   * Rule-based severity of the report a summary or answer is about
+   */
+  severity?: InsightSeverity;
+  /**
+   * Text still being generated, or one part of a larger text - a referral
+   * may come elsewhere, so it isn't required
+   */
+  partial?: boolean;
+  /**
+   * Text still being streamed - its last word may be cut off ("160 mg"
+   * before "/dL" arrives), so it is left for the next check. Implies partial.
+   */
+  streaming?: boolean;
+}
+
+/**
+ * Conditions a model must not tell the user they have
+ */
+export const CONDITIONS =
+  'cancer|tumou?r|leuka?emia|lymphoma|diabet\\w*|prediabet\\w*|ana?emi\\w*|hypothyroid\\w*|hyperthyroid\\w*|hashimoto\\w*|graves|'
+  + 'hepatitis|cirrhosis|fatty liver|kidney failure|lupus|infection|disease|disorder|syndrome|deficiency';
+
+/**
+ * Prescription and over-the-counter medicines - hormones and vitamins that
+ * are also analytes (testosterone, insulin, vitamin D) are left out
+ */
+const MEDICATIONS =
+  'statins?|atorvastatin|rosuvastatin|simvastatin|pravastatin|ezetimibe|metformin|semaglutide|ozempic|wegovy|tirzepatide|mounjaro|'
+  + 'levothyroxine|synthroid|liothyronine|methimazole|warfarin|apixaban|rivaroxaban|clopidogrel|aspirin|ibuprofen|naproxen|'
+  + 'acetaminophen|paracetamol|prednisone|prednisolone|lisinopril|losartan|amlodipine|hydrochlorothiazide|furosemide|'
+  + 'spironolactone|allopurinol|methotrexate|omeprazole|antibiotics?';
+
+/**
+ * An amount of a medicine or supplement - "500 mg", but not "160 mg/dL"
+ */
+const DOSE = '\\d+(\\.\\d+)?\\s?(mg|mcg|µg|iu|units|tablets?|pills?|capsules?)\\b(?!\\s*\\/)';
+
+/**
+ * Words that turn an amount into an instruction - a bare "15 units" can be
+ * a lab value
+ */
+const DOSING_VERBS = 'take|taking|start|starting|prescribed?|dose|dosage|supplement(ing)? with|increase to|reduce to';
+
+const FREQUENCIES = 'daily|a day|per day|each day|every (day|morning|night|evening|other day|week)|weekly|a week|per week|at bedtime|with (food|meals)';
+
+const PATTERNS: Record<Exclude<GuardrailReason, 'missing_referral'>, RegExp[]> = {
+  medication: [
+    new RegExp(`\\b(${MEDICATIONS})\\b`, 'i'),
+  ],
+  dosage: [
+    // "take 500 mg", "500 mg a day"
+    new RegExp(`\\b(${DOSING_VERBS})\\b[^.]{0,30}\\b${DOSE}`, 'i'),
+    new RegExp(`\\b${DOSE}[^.]{0,30}\\b(${FREQUENCIES})\\b`, 'i'),
+    /\b(once|twice|three times) (a|per) (day|week)\b|\b(once|twice) daily\b/i,
+  ],
+  diagnosis: [
+    new RegExp(`\\byou (have|likely have|probably have|definitely have|are suffering from|suffer from|are diagnosed with)\\b[^.]{0,40}\\b(${CONDITIONS})\\b`, 'i'),
+    new RegExp(`\\b(this|these|that|it|your results?)( results?)? (confirms?|proves?|means?|indicates?|is diagnostic of) (that )?(you have )?(a |an )?[^.]{0,30}\\b(${CONDITIONS})\\b`, 'i'),
+    /\byou are (diabetic|prediabetic|anemic|anaemic|hypothyroid|hyperthyroid)\b/i,
+  ],
+  status_contradiction: [],
+  alarmist: [
+    /\b(dangerous(ly)?|alarming|life[- ]threatening|deadly|fatal|emergency|panic|catastrophic|organ failure)\b/i,
+  ],
+  false_reassurance: [
+    /\b(nothing to worry about|no need to (worry|see|talk|consult|follow up)|no cause for concern|don'?t worry|(perfectly|completely|totally) (normal|healthy|fine)|can (safely )?ignore|no action (is )?needed)\b/i,
+  ],
+};
+
+/**
+ * Wording that calls a value normal - wrong on any other status
+ */
+const CALLED_NORMAL = /\b(is|are|looks?|seems?|remains?|stays?) (completely |perfectly |totally |entirely )?(normal|healthy|fine)\b|\b(within|in) (the )?(normal|reference|healthy|target) range\b/i;
+
+/**
+ * Wording that calls a value abnormal - wrong on a normal one
+ */
+const CALLED_ABNORMAL = /\b(abnormal|elevated|critical(ly)?|too (high|low)|dangerously (high|low)|out of range|(outside|above|below) (the )?(normal|reference|healthy) range)\b/i;
+
+const REFERRAL = /\b(doctor|healthcare (provider|professional|team)|clinician|physician|GP|medical (care|attention|advice|team)|provider|urgent care|care team|nurse)\b/i;
+
+/**
+ * Safety problems in a model's text - empty when it can be shown
+ */
+export function checkAiText(text: string, context: GuardrailContext = {}): GuardrailViolation[] {
+  // A half-streamed last word is checked once it is complete
+  const checked = context.streaming ? text.replace(/\S+$/, '') : text;
+  const critical = context.status === 'critical' || context.severity === 'critical';
+  const abnormal = (context.status !== undefined && context.status !== 'normal')
+    || (context.severity !== undefined && context.severity !== 'low');
+
+  const checks: Array<[GuardrailReason, RegExp[]]> = [
+    ['medication', PATTERNS.medication],
+    ['dosage', PATTERNS.dosage],
+    ['diagnosis', PATTERNS.diagnosis],
+    // Urgent wording is right for a critical value
+    ['alarmist', critical ? [] : PATTERNS.alarmist],
+    ['false_reassurance', abnormal ? PATTERNS.false_reassurance : []],
+  ];
+  if (context.status !== undefined) {
+    checks.push(['status_contradiction', [context.status === 'normal' ? CALLED_ABNORMAL : CALLED_NORMAL]]);
+  }
+
+  const violations = checks.flatMap(([reason, patterns]) => patterns
+    .map(pattern => checked.match(pattern)?.[0])
+    .filter((match): match is string => !!match)
+    .slice(0, 1)
+    .map(match => ({ reason, match })));
+
+  if (critical && !context.partial && !context.streaming && !REFERRAL.test(text)) {
+    violations.push({ reason: 'missing_referral', match: text.slice(0, 60) });
+  }
+
+  return violations;
+}
+
+/**
+ * Violations as one log line - 'diagnosis ("you have diabetes")'
+ */
+export function describeViolations(violations: GuardrailViolation[]): string {
+  return violations.map(violation => `${violation.reason} ("${violation.match}")`).join(', ');
+}
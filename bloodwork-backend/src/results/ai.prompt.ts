@@ -1,12 +1,52 @@
+import { ChatContext } from './ai.types';
+
+/**
+ * Safety rules shared by per-test notes and chat answers
+ */
+const SAFETY_RULES = `No diagnosis. No medication advice. Plain language.
+If concerned, mention consulting a clinician. Do not contradict status.
+A value like "<0.5" or ">1000" is a bound reported by the lab, not an exact number.`;
+
 export const SYSTEM_PROMPT = `
 You produce one encouraging, actionable sentence per blood test result.
-≤ 25 words. No diagnosis. No medication advice. Plain language.
-If concerned, mention consulting a clinician. Do not contradict status.
+≤ 25 words. ${SAFETY_RULES}
+Tests are grouped by panel; read each result alongside the others in its panel.
 `;
 
+const formatRange = (range: { min: number | null; max: number | null }, unit: string) => {
+  if (range.min !== null && range.max !== null) return `${range.min}-${range.max} ${unit}`;
+  if (range.max !== null) return `below ${range.max} ${unit}`;
+  if (range.min !== null) return `above ${range.min} ${unit}`;
+  return 'not provided';
+};
+
+const formatValue = (i: {
+  value: number | null; comparator?: string; qualitativeValue?: string; unit: string;
+}) => {
+  if (i.value === null) return i.qualitativeValue ?? 'not reported';
+  return `${i.comparator ?? ''}${i.value} ${i.unit}`.trim();
+};
+
+const formatReference = (i: {
+  value: number | null; expectedQualitative?: string;
+  referenceRange: { min: number | null; max: number | null }; unit: string;
+}) => {
+  if (i.expectedQualitative) return i.expectedQualitative;
+  // Qualitative screens without a printed reference are read against "Negative"
+  if (i.value === null) return 'Negative (assumed)';
+  return formatRange(i.referenceRange, i.unit);
+};
+
+const groupByPanel = <T extends { panel: string }>(items: T[]) => {
+  const groups = new Map<string, T[]>();
+  items.forEach(i => groups.set(i.panel, [...(groups.get(i.panel) ?? []), i]));
+  return [...groups.entries()];
+};
+
 export const BATCH_USER_TEMPLATE = (items: {
-  id: string; testName: string; value: number; unit: string;
-  referenceRange: { min: number; max: number }; status: string;
+  id: string; testName: string; value: number | null; unit: string;
+  comparator?: string; qualitativeValue?: string; expectedQualitative?: string;
+  referenceRange: { min: number | null; max: number | null }; status: string; panel: string;
 }[]) => `
 Return ONLY valid JSON array. Each item:
 {"id": string, "aiNote": string, "confidence": number}
@@ -16,9 +56,84 @@ Rules:
 - "confidence" is between 0 and 1.
 
 Data:
-${items.map(i => `# ${i.id}
+${groupByPanel(items).map(([panel, group]) => `## ${panel}
+${group.map(i => `# ${i.id}
+Test: ${i.testName}
+Value: ${formatValue(i)}
+Normal Range: ${formatReference(i)}
+Status: ${i.status}`).join('\n')}`).join('\n\n')}
+`;
+
+export const SUMMARY_SYSTEM_PROMPT = `
+You explain a whole blood test report to the patient in plain language.
+No diagnosis. No medication advice. Be calm and specific.
+Severity, follow-up timeframe and key findings are decided already - restate them, never change them.
+Only mention patterns between tests that appear in the data.
+A value like "<0.5" or ">1000" is a bound reported by the lab, not an exact number.
+`;
+
+export const SUMMARY_USER_TEMPLATE = (input: {
+  testType: string; testDate: string; severity: string; followUpTimeframe: string;
+  keyFindings: string[]; panels: string[];
+  tests: {
+    id: string; testName: string; value: number | null; unit: string;
+    comparator?: string; qualitativeValue?: string; expectedQualitative?: string;
+    referenceRange: { min: number | null; max: number | null }; status: string; panel: string; change?: string;
+  }[];
+}) => `
+Return ONLY a valid JSON object:
+{"overview": string, "panels": [{"panel": string, "summary": string, "testIds": string[]}],
+ "patterns": [{"title": string, "explanation": string, "testIds": string[]}], "questionsForDoctor": string[]}
+
+Rules:
+- "overview" is 2-4 sentences on what the report means as a whole, matching the severity.
+- One "panels" entry per panel below, in the same order, using the panel name exactly.
+- "patterns" lists at most 5 groups of 2+ tests pointing the same way (e.g. iron studies all low); [] if none.
+- "questionsForDoctor" has 2-5 short questions the patient could ask.
+- "testIds" only uses ids from the data.
+
+Report: ${input.testType}, ${input.testDate}
+Severity: ${input.severity}
+Follow-up: ${input.followUpTimeframe}
+Key findings:
+${input.keyFindings.map(finding => `- ${finding}`).join('\n')}
+
+Data:
+${groupByPanel(input.tests).map(([panel, group]) => `## ${panel}
+${group.map(i => `# ${i.id}
 Test: ${i.testName}
-Value: ${i.value} ${i.unit}
-Normal Range: ${i.referenceRange.min}-${i.referenceRange.max} ${i.unit}
-Status: ${i.status}`).join('\n')}
+Value: ${formatValue(i)}
+Normal Range: ${formatReference(i)}
+Status: ${i.status}${i.change ? `\nChange: ${i.change}` : ''}`).join('\n')}`).join('\n\n')}
+`;
+
+export const CHAT_SYSTEM_PROMPT = `
+You answer a patient's questions about their own blood test results.
+${SAFETY_RULES}
+Never say whether the patient has a condition, and never suggest a medicine, supplement or dose - refer those questions to their healthcare provider.
+Answer from the data below and general knowledge of what each test measures. Say so when the data doesn't answer the question.
+Keep answers under 150 words.
+`;
+
+export const CHAT_CONTEXT_TEMPLATE = (context: ChatContext) => `
+Patient: ${[
+  context.profile.ageYears !== undefined ? `${context.profile.ageYears} years` : null,
+  context.profile.sex ?? null,
+  context.profile.pregnant ? 'pregnant' : null,
+].filter(Boolean).join(', ') || 'no profile'}
+
+Report: ${context.testType}, ${context.testDate}
+Severity: ${context.severity}
+Follow-up: ${context.followUpTimeframe}
+Key findings:
+${context.keyFindings.map(finding => `- ${finding}`).join('\n')}
+
+Results:
+${groupByPanel(context.tests).map(([panel, group]) => `## ${panel}
+${group.map(i => `- ${i.testName}: ${formatValue(i)} (normal ${formatReference(i)}), ${i.status}${i.change ? `, ${i.change}` : ''}`).join('\n')}`).join('\n\n')}
+
+Trends (oldest to newest):
+${context.trends.map(trend => `- ${trend.name} (${trend.unit}): ${trend.points.map(point => `${point.date} ${point.value}`).join(', ')} - ${trend.direction}`).join('\n') || 'none'}
+
+Other reports: ${context.otherReports.map(report => `${report.testDate} ${report.testType}`).join('; ') || 'none'}
 `;
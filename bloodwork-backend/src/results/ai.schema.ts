@@ -7,3 +7,18 @@ export const InsightOutSchema = z.object({
 });
 
 export const InsightOutArraySchema = z.array(InsightOutSchema).min(1);
+
+export const ReportSummarySchema = z.object({
+  overview: z.string().min(10).max(800),
+  panels: z.array(z.object({
+    panel: z.string().min(1),
+    summary: z.string().min(4).max(400),
+    testIds: z.array(z.string()),
+  })).max(20),
+  patterns: z.array(z.object({
+    title: z.string().min(4).max(80),
+    explanation: z.string().min(4).max(400),
+    testIds: z.array(z.string()).min(2),
+  })).max(5),
+  questionsForDoctor: z.array(z.string().min(5).max(200)).max(6),
+});
@@ -1,12 +1,16 @@
-export type Status = 'normal'|'high'|'low'|'critical';
+export type Status = 'normal'|'high'|'low'|'critical'|'abnormal';
 
 export interface TestResultInput {
   id: string;
   testName: string;
-  value: number;
+  value: number | null;          // null for qualitative results
+  comparator?: '<' | '<=' | '>' | '>=';
+  qualitativeValue?: string;     // e.g. "Negative", "Trace"
+  expectedQualitative?: string;
   unit: string;
-  referenceRange: { min: number; max: number };
+  referenceRange: { min: number | null; max: number | null };
   status: Status;
+  panel: string;                 // e.g. "Lipid Panel", "Other Tests"
 }
 
 export interface InsightOut {
@@ -15,3 +19,33 @@ export interface InsightOut {
   confidence: number;   // 0..1
   sourceModel: string;  // e.g., "openai:gpt-4o-mini"
 }
+
+/**
+ * Input of the report summary pass - the tests plus the rule-based
+ * insights the summary must agree with
+ */
+export interface ReportSummaryInput {
+  testType: string;
+  testDate: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  followUpTimeframe: string;
+  keyFindings: string[];
+  /**
+   * Panel names in report order, "Other Tests" last
+   */
+  panels: string[];
+  tests: Array<TestResultInput & { canonicalCode?: string; change?: string }>;
+}
+
+/**
+ * What a chat answer may draw on - the result, the user's trends and
+ * profile, on top of the summary input
+ */
+export interface ChatContext extends ReportSummaryInput {
+  profile: { ageYears?: number; sex?: string; pregnant?: boolean };
+  /**
+   * Analytes of this report measured more than once, recent values last
+   */
+  trends: Array<{ name: string; unit: string; direction: string; points: Array<{ date: string; value: string }> }>;
+  otherReports: Array<{ testDate: string; testType: string }>;
+}
@@ -0,0 +1,24 @@
+import { refusalReasonFor } from './chat-refusals';
+
+describe('refusalReasonFor', () => {
+  it('should refuse dosing questions', () => {
+    expect(refusalReasonFor('How much vitamin D should I take?')).toBe('dosing');
+    expect(refusalReasonFor('Is 2000 IU a day enough?')).toBe('dosing');
+    expect(refusalReasonFor('What dose of metformin would bring this down?')).toBe('dosing');
+    expect(refusalReasonFor('Should I stop my iron tablets?')).toBe('dosing');
+  });
+
+  it('should refuse diagnosis questions', () => {
+    expect(refusalReasonFor('Do I have diabetes?')).toBe('diagnosis');
+    expect(refusalReasonFor('Am I anemic?')).toBe('diagnosis');
+    expect(refusalReasonFor('Does this mean I have hypothyroidism?')).toBe('diagnosis');
+    expect(refusalReasonFor('What disease do I have?')).toBe('diagnosis');
+  });
+
+  it('should let lab values and general questions through', () => {
+    expect(refusalReasonFor('My LDL is 160 mg/dL - what does that mean?')).toBeNull();
+    expect(refusalReasonFor('Why is my glucose 105 mg/dL when it was 92 mg/dL before?')).toBeNull();
+    expect(refusalReasonFor('What does HbA1c measure?')).toBeNull();
+    expect(refusalReasonFor('Does my ferritin show a trend?')).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Chat Refusals - Questions answered with a fixed reply instead of the model
+ *
+ * WHY: The chat prompt forbids diagnoses and medication advice, but a
+ * prompt can be argued with. Questions asking whether the user has a
+ * condition, or what to take and how much, never reach the model - they
+ * get a fixed, kind refusal pointing to their healthcare provider.
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * POST /results/:resultId/chat -> ChatService -> refusalReasonFor() -> refusal or model answer
+ */
+
+import { ChatRefusalReason } from '../common/entities/chat-exchange.entity';
+import { CONDITIONS } from './ai.guardrails';
+
+const REFUSAL_PATTERNS: Record<ChatRefusalReason, RegExp[]> = {
+  dosing: [
+    /\b(dose|doses|dosage|dosing)\b/i,
+    /\bhow (much|many)\b.*\b(mg|mcg|µg|iu|units?|pills?|tablets?|capsules?)\b/i,
+    // "2000 IU a day" - but not "160 mg/dL"
+    /\b\d+(\.\d+)?\s?(mg|mcg|µg|iu)\b(?!\s*\/)/i,
+    /\bshould i (take|start|stop|increase|decrease|reduce|double|skip)\b/i,
+    /\b(can|may) i (take|stop|skip)\b/i,
+  ],
+  diagnosis: [
+    new RegExp(`\\b(do|might|could|can) i have\\b.*\\b(${CONDITIONS})\\b`, 'i'),
+    new RegExp(`\\b(does|do|is|are) (this|that|these|it|they|my \\w+) (mean|indicate|show|confirm|prove|a sign of)s?\\b.*\\b(${CONDITIONS})\\b`, 'i'),
+    /\bam i (anemic|anaemic|diabetic|prediabetic|hypothyroid|hyperthyroid|sick|dying)\b/i,
+    /\b(diagnose me|my diagnosis|what (disease|condition|illness) do i have)\b/i,
+  ],
+};
+
+export const REFUSAL_MESSAGES: Record<ChatRefusalReason, string> = {
+  diagnosis:
+    'I can\'t tell you whether you have a condition - that takes a clinician who knows your history and can examine you. '
+    + 'I can explain what each of your results measures and how it compares with its reference range, '
+    + 'and your healthcare provider can tell you what they mean for you.',
+  dosing:
+    'I can\'t advise on medicines, supplements or doses. Please ask your healthcare provider or pharmacist - '
+    + 'they can weigh your results against your history and anything else you take. '
+    + 'I\'m happy to explain what your results measure.',
+};
+
+/**
+ * Why a question must be refused, or null when the model may answer it
+ */
+export function refusalReasonFor(question: string): ChatRefusalReason | null {
+  const reasons = Object.keys(REFUSAL_PATTERNS) as ChatRefusalReason[];
+  return reasons.find(reason => REFUSAL_PATTERNS[reason].some(pattern => pattern.test(question))) ?? null;
+}
@@ -0,0 +1,145 @@
+import { BloodworkResult } from '../common/entities/bloodwork-result.entity';
+import { ChatExchange } from '../common/entities/chat-exchange.entity';
+import { ChatStreamEvent } from '../common/dto/chat.dto';
+import { ReportSummaryInput } from './ai.types';
+import { ChatService } from './chat.service';
+import { REFUSAL_MESSAGES } from './chat-refusals';
+import { LlmProvider } from './llm/llm-provider.interface';
+import { RulesLlmProvider } from './llm/rules.provider';
+
+function report(overrides: Partial<BloodworkResult> = {}): BloodworkResult {
+  return {
+    id: 'result-1',
+    userId: 'user',
+    testDate: '2025-03-01',
+    testType: 'Metabolic Panel',
+    status: 'completed',
+    results: [{ id: '1', testName: 'Glucose', canonicalCode: 'GLU', value: 105, unit: 'mg/dL', referenceRange: { min: 70, max: 99 }, status: 'high' }],
+    ...overrides,
+  } as BloodworkResult;
+}
+
+function description(severity: ReportSummaryInput['severity']): ReportSummaryInput {
+  return {
+    testType: 'Metabolic Panel',
+    testDate: '2025-03-01',
+    severity,
+    followUpTimeframe: 'routine',
+    keyFindings: [],
+    panels: [],
+    tests: [
+      { id: '1', testName: 'Glucose', value: 105, unit: 'mg/dL', status: 'high', referenceRange: { min: 70, max: 99 }, panel: 'Other Tests', canonicalCode: 'GLU' },
+    ],
+  };
+}
+
+/**
+ * A model that streams the given tokens as they are
+ */
+function scripted(tokens: string[]): LlmProvider {
+  return {
+    id: 'scripted',
+    complete: () => Promise.resolve(tokens.join('')),
+    async *stream() {
+      for (const token of tokens) {
+        yield await Promise.resolve(token);
+      }
+    },
+  };
+}
+
+function setup({ result = report(), severity = 'low', llm = new RulesLlmProvider() }: {
+  result?: BloodworkResult;
+  severity?: ReportSummaryInput['severity'];
+  llm?: LlmProvider;
+} = {}) {
+  const exchanges: ChatExchange[] = [];
+  const exchangeRepository = {
+    find: jest.fn(() => Promise.resolve([])),
+    create: jest.fn((data: Partial<ChatExchange>) => ({ ...data }) as ChatExchange),
+    save: jest.fn((exchange: ChatExchange) => {
+      exchanges.push({ ...exchange, id: `exchange-${exchanges.length + 1}` });
+      return Promise.resolve(exchanges[exchanges.length - 1]);
+    }),
+  };
+  const dependencies = [
+    { findOne: jest.fn(() => Promise.resolve(result)), find: jest.fn(() => Promise.resolve([result])) },
+    exchangeRepository,
+    { describeResult: jest.fn(() => Promise.resolve(description(severity))) },
+    { getTrends: jest.fn(() => Promise.resolve({ data: [] })) },
+    { findByUserId: jest.fn(() => Promise.resolve(null)) },
+    llm,
+  ] as unknown as ConstructorParameters<typeof ChatService>;
+  return { service: new ChatService(...dependencies), exchanges };
+}
+
+async function collect(events: AsyncIterable<ChatStreamEvent>): Promise<ChatStreamEvent[]> {
+  const collected: ChatStreamEvent[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+}
+
+function text(events: ChatStreamEvent[]): string {
+  return events.map(event => (event.type === 'token' ? event.content : '')).join('');
+}
+
+describe('ChatService', () => {
+  describe('ask', () => {
+    it('should stream the answer token by token and store it', async () => {
+      const { service, exchanges } = setup();
+
+      const events = await collect(await service.ask('result-1', 'user', 'What does my Glucose result mean?'));
+
+      expect(events.slice(0, -1).every(event => event.type === 'token')).toBe(true);
+      expect(events[events.length - 1]).toEqual({ type: 'done', exchangeId: 'exchange-1', refusalReason: null });
+      expect(text(events)).toMatch(/^Your Glucose was 105 mg\/dL, which is high\. .* Your healthcare provider can explain what this means for you\.$/);
+      expect(exchanges[0]).toMatchObject({ resultId: 'result-1', userId: 'user', answer: text(events), model: 'rules:v1' });
+    });
+
+    it('should refuse a dosing question without asking the model', async () => {
+      const llm = new RulesLlmProvider();
+      const stream = jest.spyOn(llm, 'stream');
+      const { service, exchanges } = setup({ llm });
+
+      const events = await collect(await service.ask('result-1', 'user', 'How much metformin in mg should I take?'));
+
+      expect(events).toEqual([
+        { type: 'token', content: REFUSAL_MESSAGES.dosing },
+        { type: 'done', exchangeId: 'exchange-1', refusalReason: 'dosing' },
+      ]);
+      expect(stream).not.toHaveBeenCalled();
+      expect(exchanges[0]).toMatchObject({ refusalReason: 'dosing', model: null });
+    });
+
+    it('should add a referral to an answer about a critical report that has none', async () => {
+      const { service } = setup({ severity: 'critical' });
+
+      const events = await collect(await service.ask('result-1', 'user', 'What should I look at first?'));
+
+      expect(events.slice(-2)).toEqual([
+        { type: 'token', content: ' Please contact your healthcare provider promptly about the critical results in this report.' },
+        { type: 'done', exchangeId: 'exchange-1', refusalReason: null },
+      ]);
+    });
+
+    it('should replace an answer that breaks a guardrail', async () => {
+      const { service, exchanges } = setup({ llm: scripted(['Your glucose is high. ', 'You have ', 'diabetes ', 'and should ', 'rest.']) });
+
+      const events = await collect(await service.ask('result-1', 'user', 'What does my Glucose result mean?'));
+      const replaced = events.findIndex(event => event.type === 'replace');
+
+      expect(replaced).toBeGreaterThan(-1);
+      expect(events.slice(replaced + 1)).toEqual([{ type: 'done', exchangeId: 'exchange-1', refusalReason: null }]);
+      expect(text(events)).not.toContain('rest.');
+      expect(exchanges[0].answer).toMatch(/^I can't answer that safely here/);
+    });
+
+    it('should reject a result awaiting review before streaming', async () => {
+      const { service } = setup({ result: report({ status: 'needs_review' }) });
+
+      await expect(service.ask('result-1', 'user', 'What does my Glucose result mean?')).rejects.toThrow('awaiting review');
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Chat Service - Questions and answers about a user's result
+ *
+ * WHY: Users keep asking follow-ups the per-test notes and summary don't
+ * cover ("why is SHBG relevant to testosterone?"). Answers are grounded in
+ * the user's own data - the result with its changes and rule-based
+ * findings, trends of its analytes across earlier reports, and the health
+ * profile - and streamed so the app can show them as they are written.
+ *
+ * FUNCTIONALITY:
+ * - Refuses diagnosis and dosing questions with a fixed reply (chat-refusals.ts)
+ * - Builds the context from AiRecommendationsService.describeResult(),
+ *   ResultsService.getTrends() and the profile
+ * - Sends the last few exchanges along, so follow-ups make sense
+ * - Checks the answer against the guardrails while it streams
+ * - Stores each question and answer once the answer is complete
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * React Native chat screen -> POST /results/:resultId/chat -> ask() -> token stream
+ * GET /results/:resultId/chat -> getHistory()
+ */
+
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BloodworkResult } from '../common/entities/bloodwork-result.entity';
+import { ChatExchange, ChatRefusalReason } from '../common/entities/chat-exchange.entity';
+import { ChatStreamEvent } from '../common/dto/chat.dto';
+import { ApiResponseDto, createApiResponse } from '../common/dto/api-response.dto';
+import { toDemographics } from '../common/clinical/reference-ranges';
+import { AiRecommendationsService } from './ai-recommendations.service';
+import { ResultsService } from './results.service';
+import { ProfilesService } from '../profiles/profiles.service';
+import { ChatContext } from './ai.types';
+import { CHAT_CONTEXT_TEMPLATE, CHAT_SYSTEM_PROMPT } from './ai.prompt';
+import { REFUSAL_MESSAGES, refusalReasonFor } from './chat-refusals';
+import { checkAiText, describeViolations } from './ai.guardrails';
+import { LLM_PROVIDER, LlmMessage } from './llm/llm-provider.interface';
+import type { LlmProvider } from './llm/llm-provider.interface';
+
+/**
+ * Earlier exchanges sent with each question
+ */
+const HISTORY_EXCHANGES = 5;
+
+/**
+ * Most recent values per trend in the context
+ */
+const TREND_POINTS = 6;
+
+/**
+ * Most recent other reports listed in the context
+ */
+const OTHER_REPORTS = 10;
+
+/**
+ * Shown instead of an answer that broke a safety rule
+ */
+const GUARDRAIL_REPLY =
+  'I can\'t answer that safely here. Your healthcare provider is the best person to ask - '
+  + 'I\'m happy to explain what your results measure.';
+
+/**
+ * Added to answers about a critical report that don't point to a clinician
+ */
+const CRITICAL_REFERRAL = ' Please contact your healthcare provider promptly about the critical results in this report.';
+
+@Injectable()
+export class ChatService {
+  private readonly logger = new Logger(ChatService.name);
+
+  constructor(
+    @InjectRepository(BloodworkResult)
+    private readonly resultRepository: Repository<BloodworkResult>,
+    @InjectRepository(ChatExchange)
+    private readonly exchangeRepository: Repository<ChatExchange>,
+    private readonly aiRecommendationsService: AiRecommendationsService,
+    private readonly resultsService: ResultsService,
+    private readonly profilesService: ProfilesService,
+    @Inject(LLM_PROVIDER)
+    private readonly llm: LlmProvider,
+  ) {}
+
+  /**
+   * The conversation about a result, oldest first
+   *
+   * USAGE: GET /results/:resultId/chat
+   */
+  async getHistory(resultId: string, userId: string): Promise<ApiResponseDto<ChatExchange[]>> {
+    await this.findOwnedResult(resultId, userId);
+    return createApiResponse(await this.exchangeRepository.find({ where: { resultId, userId }, order: { createdAt: 'ASC' } }));
+  }
+
+  /**
+   * Answers a question about a result as a stream of events
+   *
+   * WHY: A missing result or one awaiting review is rejected here, before
+   * the stream starts, so the client gets a normal HTTP error. Once
+   * streaming, a failing model ends the stream with an error event
+   * instead, and nothing is stored. An answer that breaks a guardrail is
+   * cut off and replaced (see ai.guardrails.ts).
+   *
+   * USAGE: POST /results/:resultId/chat
+   */
+  async ask(resultId: string, userId: string, question: string): Promise<AsyncIterable<ChatStreamEvent>> {
+    const result = await this.findOwnedResult(resultId, userId);
+
+    // Answers built on values the user hasn't checked could mislead
+    if (result.status === 'needs_review') {
+      throw new BadRequestException(`Bloodwork result ${resultId} is awaiting review - confirm its values first`);
+    }
+
+    const refusalReason = refusalReasonFor(question);
+    if (refusalReason) {
+      this.logger.log(`Refused ${refusalReason} question about result ${resultId}`);
+      return this.refuse(result, question, refusalReason);
+    }
+
+    const [context, history] = await Promise.all([this.buildContext(result), this.recentHistory(result)]);
+    return this.answer(result, question, context, history);
+  }
+
+  private async *refuse(result: BloodworkResult, question: string, refusalReason: ChatRefusalReason): AsyncIterable<ChatStreamEvent> {
+    const answer = REFUSAL_MESSAGES[refusalReason];
+    yield { type: 'token', content: answer };
+
+    const exchange = await this.saveExchange(result, { question, answer, refusalReason, model: null });
+    yield { type: 'done', exchangeId: exchange.id, refusalReason };
+  }
+
+  private async *answer(
+    result: BloodworkResult,
+    question: string,
+    context: ChatContext,
+    history: LlmMessage[],
+  ): AsyncIterable<ChatStreamEvent> {
+    let answer = '';
+    try {
+      for await (const token of this.llm.stream({
+        system: `${CHAT_SYSTEM_PROMPT}\n${CHAT_CONTEXT_TEMPLATE(context)}`,
+        history,
+        user: question,
+        task: { kind: 'chat', question, context },
+        temperature: 0.3,
+        maxTokens: 400,
+      })) {
+        answer += token;
+
+        // Checked as it grows, so an unsafe answer stops at the first problem
+        const violations = checkAiText(answer, { severity: context.severity, streaming: true });
+        if (violations.length > 0) {
+          this.logger.warn(`Guardrail replaced chat answer for result ${result.id}: ${describeViolations(violations)}`);
+          answer = GUARDRAIL_REPLY;
+          yield { type: 'replace', content: answer };
+          break;
+        }
+        yield { type: 'token', content: token };
+      }
+    } catch (error) {
+      this.logger.warn(`Chat answer failed for result ${result.id}: ${error instanceof Error ? error.message : String(error)}`);
+      yield { type: 'error', message: 'The answer could not be completed - please try again' };
+      return;
+    }
+
+    // The last word was held back while streaming - check the whole answer once more
+    const violations = checkAiText(answer, { severity: context.severity });
+    const unsafe = violations.filter(violation => violation.reason !== 'missing_referral');
+    const missing = violations.filter(violation => violation.reason === 'missing_referral');
+    if (unsafe.length > 0) {
+      this.logger.warn(`Guardrail replaced chat answer for result ${result.id}: ${describeViolations(unsafe)}`);
+      answer = GUARDRAIL_REPLY;
+      yield { type: 'replace', content: answer };
+    } else if (missing.length > 0) {
+      this.logger.warn(`Guardrail added a referral to chat answer for result ${result.id}: ${describeViolations(missing)}`);
+      answer += CRITICAL_REFERRAL;
+      yield { type: 'token', content: CRITICAL_REFERRAL };
+    }
+
+    const exchange = await this.saveExchange(result, { question, answer: answer.trim(), refusalReason: null, model: this.llm.id });
+    yield { type: 'done', exchangeId: exchange.id, refusalReason: null };
+  }
+
+  /**
+   * Everything an answer may draw on besides general knowledge
+   */
+  private async buildContext(result: BloodworkResult): Promise<ChatContext> {
+    const description = await this.aiRecommendationsService.describeResult(result);
+    const profile = await this.profilesService.findByUserId(result.userId);
+    const { ageYears, sex, pregnant } = toDemographics(profile, result.testDate);
+
+    const codes = [...new Set(result.results.map(test => test.canonicalCode).filter((code): code is string => !!code))];
+    const trends = codes.length > 0 ? (await this.resultsService.getTrends(result.userId, codes)).data : [];
+
+    const others = await this.resultRepository.find({
+      where: { userId: result.userId },
+      select: ['id', 'testDate', 'testType'],
+      order: { testDate: 'DESC' },
+    });
+
+    return {
+      ...description,
+      profile: { ageYears, sex, pregnant },
+      trends: trends
+        .filter(trend => trend.points.length > 1)
+        .map(trend => ({
+          name: trend.name,
+          unit: trend.unit,
+          direction: trend.direction,
+          points: trend.points.slice(-TREND_POINTS).map(point => ({
+            date: point.date.slice(0, 10),
+            value: point.value === null ? `${point.qualitativeValue}` : `${point.comparator ?? ''}${point.value}`,
+          })),
+        })),
+      otherReports: others
+        .filter(other => other.id !== result.id)
+        .slice(0, OTHER_REPORTS)
+        .map(other => ({ testDate: other.testDate.slice(0, 10), testType: other.testType })),
+    };
+  }
+
+  /**
+   * The last few answered exchanges as conversation turns - refusals are
+   * left out so they don't steer the model
+   */
+  private async recentHistory(result: BloodworkResult): Promise<LlmMessage[]> {
+    const exchanges = await this.exchangeRepository.find({
+      where: { resultId: result.id, userId: result.userId },
+      order: { createdAt: 'DESC' },
+      take: HISTORY_EXCHANGES * 2,
+    });
+
+    return exchanges
+      .filter(exchange => !exchange.refusalReason)
+      .slice(0, HISTORY_EXCHANGES)
+      .reverse()
+      .flatMap(exchange => [
+        { role: 'user' as const, content: exchange.question },
+        { role: 'assistant' as const, content: exchange.answer },
+      ]);
+  }
+
+  private async saveExchange(
+    result: BloodworkResult,
+    exchange: Pick<ChatExchange, 'question' | 'answer' | 'refusalReason' | 'model'>,
+  ): Promise<ChatExchange> {
+    return this.exchangeRepository.save(this.exchangeRepository.create({ resultId: result.id, userId: result.userId, ...exchange }));
+  }
+
+  private async findOwnedResult(resultId: string, userId: string): Promise<BloodworkResult> {
+    const result = await this.resultRepository.findOne({ where: { id: resultId, userId } });
+
+    if (!result) {
+      throw new NotFoundException(`Bloodwork result ${resultId} not found`);
+    }
+
+    return result;
+  }
+}
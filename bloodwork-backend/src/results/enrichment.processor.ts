@@ -0,0 +1,55 @@
+/**
+ * Enrichment Processor - Background worker for AI notes and report summaries
+ *
+ * WHY: Results are saved and usable as soon as the report is parsed. AI
+ * notes come afterwards from this separate queue, so a slow or failing
+ * model never holds up (or fails) an analysis. The queue retries the stage
+ * while the model gives no answer at all; the last attempt settles for
+ * rule-based notes and summary, and if even that fails the results are marked failed.
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * AnalysisProcessor / POST /results/:resultId/confirm / test corrections -> ResultsService.queueEnrichment()
+ * -> this processor -> AiRecommendationsService.enrichResult() -> aiNote on each test, summary on the result
+ * React Native polling sees enrichmentStatus and progress 80 -> 100 on the job
+ */
+
+import { Process, Processor } from '@nestjs/bull';
+import type { Job } from 'bull';
+import { Injectable, Logger } from '@nestjs/common';
+import { AiRecommendationsService } from './ai-recommendations.service';
+import { ResultsService } from './results.service';
+import { ENRICHMENT_QUEUE, EnrichmentJobData } from './enrichment.queue';
+
+@Injectable()
+@Processor(ENRICHMENT_QUEUE)
+export class EnrichmentProcessor {
+  private readonly logger = new Logger(EnrichmentProcessor.name);
+
+  constructor(
+    private readonly aiRecommendationsService: AiRecommendationsService,
+    private readonly resultsService: ResultsService,
+  ) {}
+
+  @Process('enrichResults')
+  async handleEnrichment(job: Job<EnrichmentJobData>): Promise<void> {
+    const { jobId, resultIds } = job.data;
+    const lastAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+    this.logger.log(`Enriching ${resultIds.length} result(s) of job ${jobId} (attempt ${job.attemptsMade + 1})`);
+
+    try {
+      for (const resultId of resultIds) {
+        await this.aiRecommendationsService.enrichResult(resultId, lastAttempt);
+        await this.resultsService.refreshJobEnrichment(jobId);
+      }
+    } catch (error) {
+      this.logger.warn(`Enrichment failed for job ${jobId}: ${error instanceof Error ? error.message : String(error)}`);
+
+      if (lastAttempt) {
+        await this.resultsService.markEnrichmentFailed(resultIds);
+        await this.resultsService.refreshJobEnrichment(jobId);
+      }
+      throw error;
+    }
+  }
+}
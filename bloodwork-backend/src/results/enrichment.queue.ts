@@ -0,0 +1,16 @@
+/**
+ * Enrichment Queue - Name and job data of the AI enrichment stage
+ *
+ * Kept apart from the processor so ResultsService (which queues) and
+ * EnrichmentProcessor (which consumes) don't import each other.
+ */
+
+export const ENRICHMENT_QUEUE = 'result-enrichment';
+
+export interface EnrichmentJobData {
+  /**
+   * Analysis job whose enrichment state and progress are updated
+   */
+  jobId: string;
+  resultIds: string[];
+}
@@ -1,6 +1,11 @@
-export function getDefaultNote(testName: string, status: string, value?: number, unit?: string): string {
+export function getDefaultNote(testName: string, status: string, value?: number | null, unit?: string): string {
   const normalizedTestName = testName.toLowerCase();
   
+  // Critical values always get the referral, whatever the test
+  if (status === 'critical') {
+    return 'This result needs immediate attention - contact your healthcare provider.';
+  }
+  
   if (normalizedTestName.includes('cholesterol')) {
     if (normalizedTestName.includes('hdl')) {
       return status === 'high' 
@@ -47,8 +52,8 @@ export function getDefaultNote(testName: string, status: string, value?: number,
       return 'This value is elevated - discuss with your healthcare provider.';
     case 'low':
       return 'This value is below normal - consider follow-up with your doctor.';
-    case 'critical':
-      return 'This result needs immediate attention - contact your healthcare provider.';
+    case 'abnormal':
+      return 'This result differs from the expected finding - discuss it with your healthcare provider.';
     default:
       return 'This test result is within normal range.';
   }
@@ -0,0 +1,78 @@
+import { ReportSummary } from '../common/entities/bloodwork-result.entity';
+import { ReportSummaryInput } from './ai.types';
+
+/**
+ * Analytes that usually move together - two or more out of range are
+ * described as one pattern rather than separate findings
+ */
+const RELATED_GROUPS: Array<{ title: string; codes: string[] }> = [
+  { title: 'Iron studies', codes: ['IRON', 'FERR', 'TSAT', 'TRF', 'TIBC'] },
+  { title: 'Red blood cells', codes: ['HGB', 'HCT', 'RBC', 'MCV', 'MCH', 'MCHC'] },
+  { title: 'Cholesterol', codes: ['CHOL', 'LDL', 'NON_HDL', 'TRIG', 'CHOL_HDL_RATIO'] },
+  { title: 'Liver enzymes', codes: ['ALT', 'AST', 'ALP', 'GGT', 'TBIL'] },
+  { title: 'Kidney function', codes: ['CREAT', 'BUN', 'UREA', 'EGFR'] },
+  { title: 'Blood sugar', codes: ['GLU', 'HBA1C', 'INSULIN', 'HOMA_IR'] },
+  { title: 'Thyroid', codes: ['TSH', 'FT4', 'FT3'] },
+];
+
+type SummaryTest = ReportSummaryInput['tests'][number];
+
+/**
+ * Rule-based report summary - used when the model doesn't answer, and by
+ * the offline rules provider
+ */
+export function getDefaultSummary(input: ReportSummaryInput): Omit<ReportSummary, 'model' | 'version' | 'generatedAt'> {
+  const outOfRange = input.tests.filter(isOutOfRange);
+
+  const overview = outOfRange.length === 0
+    ? `All ${countTests(input.tests.length)} in this report are within their reference ranges. Suggested follow-up: ${input.followUpTimeframe}.`
+    : `${outOfRange.length} of ${countTests(input.tests.length)} in this report ${outOfRange.length === 1 ? 'is' : 'are'} outside the reference range. ${input.keyFindings[0]}. Suggested follow-up: ${input.followUpTimeframe}.`;
+
+  const panels = input.panels
+    .map(panel => ({ panel, tests: input.tests.filter(test => test.panel === panel) }))
+    .filter(({ tests }) => tests.length > 0)
+    .map(({ panel, tests }) => {
+      const flagged = tests.filter(isOutOfRange);
+      if (flagged.length === 0) {
+        return { panel, summary: tests.length === 1 ? 'The result is within range.' : `All ${tests.length} results are within range.`, testIds: tests.map(test => test.id) };
+      }
+      const rest = tests.length - flagged.length;
+      return {
+        panel,
+        summary: `${listTests(flagged)} ${flagged.length === 1 ? 'is' : 'are'} outside the reference range${rest > 0 ? `; the other ${rest} ${rest === 1 ? 'is' : 'are'} within range` : ''}.`,
+        testIds: flagged.map(test => test.id),
+      };
+    });
+
+  const related = RELATED_GROUPS
+    .map(group => ({ group, tests: outOfRange.filter(test => !!test.canonicalCode && group.codes.includes(test.canonicalCode)) }))
+    .filter(({ tests }) => tests.length >= 2);
+  const patterns = related.map(({ group, tests }) => ({
+    title: `${group.title} out of range together`,
+    explanation: `${listTests(tests)} are outside their ranges together. These tests usually move together, so they are best read as one finding.`,
+    testIds: tests.map(test => test.id),
+  }));
+
+  const questionsForDoctor = [
+    ...(outOfRange.length > 0
+      ? ['What could explain the results outside the reference range?', 'Should any of these tests be repeated, and when?']
+      : ['How often should I repeat these tests?', 'Are there tests you would add at my next check-up?']),
+    ...related.slice(0, 2).map(({ group }) => `Do my ${group.title.toLowerCase()} results point to a single cause?`),
+    ...(input.tests.some(test => test.change) ? ['Are the changes since my last test meaningful?'] : []),
+  ].slice(0, 5);
+
+  return { overview, panels, patterns, questionsForDoctor };
+}
+
+function isOutOfRange(test: SummaryTest): boolean {
+  return test.status !== 'normal';
+}
+
+function countTests(count: number): string {
+  return `${count} result${count === 1 ? '' : 's'}`;
+}
+
+function listTests(tests: SummaryTest[]): string {
+  const names = tests.map(test => `${test.testName} (${test.status})`);
+  return names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
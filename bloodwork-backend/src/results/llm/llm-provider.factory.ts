@@ -0,0 +1,33 @@
+/**
+ * LLM Provider Factory - Builds the provider named in configuration
+ */
+
+import { LlmConfig, LlmProvider } from './llm-provider.interface';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider';
+import { RulesLlmProvider } from './rules.provider';
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAiCompatibleProvider({
+        name: 'openai',
+        model: config.model,
+        apiKey: config.apiKey,
+        timeoutMs: config.timeoutMs,
+        supportsJsonMode: true,
+      });
+    case 'local':
+      return new OpenAiCompatibleProvider({
+        name: 'local',
+        model: config.model,
+        // The SDK insists on a key; local servers ignore it
+        apiKey: config.apiKey || 'not-needed',
+        baseUrl: config.baseUrl,
+        timeoutMs: config.timeoutMs,
+        // Not every local server supports JSON mode - the prompt asks for JSON anyway
+        supportsJsonMode: false,
+      });
+    case 'rules':
+      return new RulesLlmProvider();
+  }
+}
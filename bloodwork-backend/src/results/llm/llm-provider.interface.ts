@@ -0,0 +1,87 @@
+/**
+ * LLM Provider Contract - One way of asking a language model for text
+ *
+ * WHY: AI notes used to be hard-wired to the OpenAI SDK, built when the
+ * class loaded and configured straight from process.env. Behind this
+ * contract the model can be OpenAI, a self-hosted OpenAI-compatible server
+ * or a deterministic rule-based stand-in, chosen in configuration.ts - CI
+ * and offline development run the whole pipeline without a network.
+ *
+ * RELATIONSHIP TO YOUR APP:
+ * configuration.ts (llm) -> createLlmProvider() -> LLM_PROVIDER
+ * AiRecommendationsService -> LlmProvider.complete() -> aiNote on each test, summary on the result
+ * ChatService -> LlmProvider.stream() -> answer tokens
+ */
+
+import { ChatContext, ReportSummaryInput, TestResultInput } from '../ai.types';
+
+/**
+ * Injection token for the configured provider
+ */
+export const LLM_PROVIDER = 'LLM_PROVIDER';
+
+export type LlmProviderKind = 'openai' | 'local' | 'rules';
+
+export interface LlmConfig {
+  provider: LlmProviderKind;
+  model: string;
+  /**
+   * Required for openai; local servers usually ignore it
+   */
+  apiKey: string;
+  /**
+   * OpenAI-compatible endpoint of a local server (Ollama, vLLM, LM Studio)
+   */
+  baseUrl: string;
+  timeoutMs: number;
+}
+
+/**
+ * The structured input a prompt was written from
+ *
+ * Generative providers only read the prompt text; the rule-based provider
+ * answers from this instead, since it can't read prose.
+ */
+export type LlmTask =
+  | { kind: 'test-notes'; items: TestResultInput[] }
+  | { kind: 'report-summary'; input: ReportSummaryInput }
+  | { kind: 'chat'; question: string; context: ChatContext };
+
+/**
+ * An earlier turn of a conversation
+ */
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  system: string;
+  /**
+   * Earlier turns, oldest first - sent between the system prompt and user
+   */
+  history?: LlmMessage[];
+  user: string;
+  task: LlmTask;
+  /**
+   * Ask for a JSON object as the whole reply
+   */
+  json?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LlmProvider {
+  /**
+   * Provider and model, e.g. "openai:gpt-4o-mini" - stored with every note
+   */
+  readonly id: string;
+  /**
+   * The model's reply as text - throws when the provider fails
+   */
+  complete(request: LlmRequest): Promise<string>;
+  /**
+   * The reply as it is generated, a few tokens at a time
+   */
+  stream(request: LlmRequest): AsyncIterable<string>;
+}
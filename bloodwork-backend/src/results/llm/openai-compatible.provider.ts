@@ -0,0 +1,79 @@
+/**
+ * OpenAI-Compatible Provider - OpenAI itself or a local server with its API
+ *
+ * WHY: Ollama, vLLM and LM Studio all serve the OpenAI chat completions
+ * API, so one client covers the hosted model and self-hosted ones; only
+ * the base URL, key and id prefix differ.
+ */
+
+import OpenAI from 'openai';
+import { LlmProvider, LlmRequest } from './llm-provider.interface';
+
+export interface OpenAiCompatibleOptions {
+  /**
+   * Prefix of the provider id ("openai", "local")
+   */
+  name: string;
+  model: string;
+  apiKey: string;
+  /**
+   * Undefined for api.openai.com
+   */
+  baseUrl?: string;
+  timeoutMs: number;
+  /**
+   * Whether the server understands response_format: json_object
+   */
+  supportsJsonMode: boolean;
+}
+
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly id: string;
+  private readonly client: OpenAI;
+
+  constructor(private readonly options: OpenAiCompatibleOptions) {
+    this.id = `${options.name}:${options.model}`;
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseUrl });
+  }
+
+  async complete(request: LlmRequest): Promise<string> {
+    const resp = await this.client.chat.completions.create({
+      model: this.options.model,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: request.json && this.options.supportsJsonMode ? { type: 'json_object' } : undefined,
+      messages: this.messages(request),
+    }, {
+      timeout: this.options.timeoutMs,
+    });
+
+    return resp.choices?.[0]?.message?.content ?? '';
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<string> {
+    const chunks = await this.client.chat.completions.create({
+      model: this.options.model,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      messages: this.messages(request),
+      stream: true,
+    }, {
+      timeout: this.options.timeoutMs,
+    });
+
+    for await (const chunk of chunks) {
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        yield token;
+      }
+    }
+  }
+
+  private messages(request: LlmRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return [
+      { role: 'system', content: request.system },
+      ...(request.history ?? []),
+      { role: 'user', content: request.user },
+    ];
+  }
+}
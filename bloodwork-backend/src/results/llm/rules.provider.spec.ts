@@ -0,0 +1,84 @@
+import { ChatContext, TestResultInput } from '../ai.types';
+import { getDefaultNote } from '../getDefaultNote';
+import { getDefaultSummary } from '../getDefaultSummary';
+import { LlmRequest, LlmTask } from './llm-provider.interface';
+import { RulesLlmProvider } from './rules.provider';
+
+const TESTS: TestResultInput[] = [
+  { id: '1', testName: 'Glucose', value: 105, unit: 'mg/dL', referenceRange: { min: 70, max: 99 }, status: 'high', panel: 'Other Tests' },
+  { id: '2', testName: 'Sodium', value: 140, unit: 'mmol/L', referenceRange: { min: 135, max: 145 }, status: 'normal', panel: 'Other Tests' },
+];
+
+const CONTEXT: ChatContext = {
+  testType: 'Laboratory Results',
+  testDate: '2025-06-01',
+  severity: 'medium',
+  followUpTimeframe: 'within 3 months',
+  keyFindings: ['Glucose is high at 105 mg/dL'],
+  panels: [],
+  tests: TESTS,
+  profile: {},
+  trends: [{ name: 'Glucose', unit: 'mg/dL', direction: 'increasing', points: [{ date: '2025-01-15', value: '92' }, { date: '2025-06-01', value: '105' }] }],
+  otherReports: [],
+};
+
+function request(task: LlmTask): LlmRequest {
+  return { system: 'system prompt', user: 'user prompt', task };
+}
+
+async function streamed(provider: RulesLlmProvider, llmRequest: LlmRequest): Promise<string[]> {
+  const tokens: string[] = [];
+  for await (const token of provider.stream(llmRequest)) {
+    tokens.push(token);
+  }
+  return tokens;
+}
+
+describe('RulesLlmProvider', () => {
+  const provider = new RulesLlmProvider();
+
+  it('should write the rule-based note for every test', async () => {
+    const reply = JSON.parse(await provider.complete(request({ kind: 'test-notes', items: TESTS }))) as unknown;
+
+    expect(reply).toEqual({
+      data: [
+        { id: '1', aiNote: getDefaultNote('Glucose', 'high', 105, 'mg/dL'), confidence: 0.2 },
+        { id: '2', aiNote: getDefaultNote('Sodium', 'normal', 140, 'mmol/L'), confidence: 0.2 },
+      ],
+    });
+  });
+
+  it('should write the rule-based summary of a report', async () => {
+    const reply = JSON.parse(await provider.complete(request({ kind: 'report-summary', input: CONTEXT }))) as unknown;
+
+    expect(reply).toEqual(JSON.parse(JSON.stringify(getDefaultSummary(CONTEXT))));
+  });
+
+  it('should answer a question about a named test from its value, note and trend', async () => {
+    const reply = await provider.complete(request({ kind: 'chat', question: 'Why is my glucose up?', context: CONTEXT }));
+
+    expect(reply).toBe(
+      `Your Glucose was 105 mg/dL, which is high. ${getDefaultNote('Glucose', 'high', 105, 'mg/dL')} `
+      + 'Across your reports it has been increasing. Your healthcare provider can explain what this means for you.',
+    );
+  });
+
+  it('should point other questions to the tests in the report', async () => {
+    const reply = await provider.complete(request({ kind: 'chat', question: 'Is this report good?', context: CONTEXT }));
+
+    expect(reply).toBe(
+      'I can only answer questions about the tests in your report right now. This report has 2 results, 1 outside the reference range. '
+      + 'Ask about a test by name, for example "What does my Glucose result mean?"',
+    );
+  });
+
+  it('should give the same reply every time and stream it word by word', async () => {
+    const chat = request({ kind: 'chat', question: 'What about sodium?', context: CONTEXT });
+    const reply = await provider.complete(chat);
+
+    expect(await provider.complete(chat)).toBe(reply);
+    const tokens = await streamed(provider, chat);
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(reply);
+  });
+});
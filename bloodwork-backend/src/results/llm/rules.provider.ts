@@ -0,0 +1,91 @@
+/**
+ * Rules Provider - Deterministic stand-in for a language model
+ *
+ * WHY: Tests, CI and offline development need the full pipeline - queue,
+ * enrichment, persistence - without network access or a key, and with the
+ * same output on every run. This provider answers each task from its
+ * structured input using the same rule-based notes and summary as the
+ * fallback.
+ */
+
+import { getDefaultNote } from '../getDefaultNote';
+import { getDefaultSummary } from '../getDefaultSummary';
+import { ChatContext } from '../ai.types';
+import { LlmProvider, LlmRequest } from './llm-provider.interface';
+
+/**
+ * Confidence of a rule-based note - same as the per-row fallback
+ */
+const RULE_NOTE_CONFIDENCE = 0.2;
+
+export class RulesLlmProvider implements LlmProvider {
+  readonly id = 'rules:v1';
+
+  complete(request: LlmRequest): Promise<string> {
+    return Promise.resolve(answer(request));
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<string> {
+    // Word by word, so clients exercise the same streaming path as with a
+    // model - each token keeps its trailing whitespace, newlines included
+    const text = await this.complete(request);
+    for (const token of text.match(/\S+\s*|\s+/g) ?? []) {
+      yield token;
+    }
+  }
+}
+
+/**
+ * The rule-based answer to a task
+ */
+function answer(request: LlmRequest): string {
+  switch (request.task.kind) {
+    case 'test-notes':
+      return JSON.stringify({
+        data: request.task.items.map(item => ({
+          id: item.id,
+          aiNote: getDefaultNote(item.testName, item.status, item.value, item.unit),
+          confidence: RULE_NOTE_CONFIDENCE,
+        })),
+      });
+    case 'report-summary':
+      return JSON.stringify(getDefaultSummary(request.task.input));
+    case 'chat':
+      return answerFromResults(request.task.question, request.task.context);
+  }
+}
+
+/**
+ * Without a model the only answerable questions are about named tests -
+ * their value, status, rule-based note and trend
+ */
+function answerFromResults(question: string, context: ChatContext): string {
+  const lowered = question.toLowerCase();
+  const mentioned = context.tests.filter(test =>
+    lowered.includes(test.testName.toLowerCase())
+    || (!!test.canonicalCode && new RegExp(`\\b${test.canonicalCode}\\b`).test(question)),
+  );
+
+  if (mentioned.length === 0) {
+    const outOfRange = context.tests.filter(test => test.status !== 'normal');
+    const example = (outOfRange[0] ?? context.tests[0])?.testName;
+    return [
+      'I can only answer questions about the tests in your report right now.',
+      `This report has ${context.tests.length} result${context.tests.length === 1 ? '' : 's'}, ${outOfRange.length} outside the reference range.`,
+      example ? `Ask about a test by name, for example "What does my ${example} result mean?"` : '',
+    ].filter(Boolean).join(' ');
+  }
+
+  return [
+    ...mentioned.map(test => {
+      const value = test.value === null ? test.qualitativeValue : `${test.comparator ?? ''}${test.value} ${test.unit}`.trim();
+      const trend = context.trends.find(series => series.name === test.testName);
+      return [
+        `Your ${test.testName} was ${value}, which is ${test.status}.`,
+        getDefaultNote(test.testName, test.status, test.value, test.unit),
+        trend && trend.direction !== 'insufficient_data' ? `Across your reports it has been ${trend.direction}.` : '',
+      ].filter(Boolean).join(' ');
+    }),
+    'Your healthcare provider can explain what this means for you.',
+  ].join(' ');
+}
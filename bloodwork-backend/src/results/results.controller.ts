@@ -20,11 +20,19 @@
 import {
   Controller,
   Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
   Param,
   Query,
   ParseUUIDPipe,
+  ParseEnumPipe,
   NotFoundException,
+  BadRequestException,
   UseGuards,
+  Res,
+  Logger,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -32,17 +40,209 @@ import {
   ApiResponse,
   ApiParam,
   ApiQuery,
+  ApiProduces,
 } from '@nestjs/swagger';
-import { ResultsService, EnhancedBloodworkResult } from './results.service';
+import type { Response } from 'express';
+import { ResultsService, EnhancedBloodworkResult, ParserCorrection, ResultComparison } from './results.service';
 import { ApiResponseDto } from '../common/dto/api-response.dto';
 import { BloodworkResult } from '../common/entities/bloodwork-result.entity';
+import { ResultEdit } from '../common/entities/result-edit.entity';
+import { ChatExchange } from '../common/entities/chat-exchange.entity';
+import { ChatQuestionDto, ChatStreamEvent } from '../common/dto/chat.dto';
+import { ChatService } from './chat.service';
+import { CreateTestResultDto, UpdateTestResultDto } from '../common/dto/edit-test-result.dto';
+import { UnitSystem } from '../common/clinical/unit-conversion';
+import { AnalyteTrend } from '../common/clinical/trends';
 import { ClerkAuthGuard, CurrentUser, Public } from '../auth';
 
 @ApiTags('results')
 @Controller('results')
 // @UseGuards(ClerkAuthGuard) // Temporarily disabled for testing
 export class ResultsController {
-  constructor(private readonly resultsService: ResultsService) {}
+  private readonly logger = new Logger(ResultsController.name);
+
+  constructor(
+    private readonly resultsService: ResultsService,
+    private readonly chatService: ChatService,
+  ) {}
+
+  /**
+   * Analyte Trends
+   * 
+   * WHY: Trend charts need each analyte's values across every report,
+   * in one unit and with the reference band of each date. Fetching and
+   * reshaping every full result on the phone is slow, so the series are
+   * built here - several analytes per call for multi-line charts.
+   * 
+   * Declared before :resultId so "trends" is never read as a result ID.
+   */
+  @Get('trends/:analytes')
+  @ApiOperation({
+    summary: 'Get analyte trends',
+    description: 'Time series of one or more analytes across all of the user\'s results, with units normalised, the reference range of each point, and the slope and direction of each series.',
+  })
+  @ApiParam({
+    name: 'analytes',
+    description: 'Comma-separated analyte codes or lab labels (up to 10)',
+    example: 'LDL,HDL,TRIG',
+  })
+  @ApiQuery({
+    name: 'units',
+    description: 'Unit system for values and reference ranges (defaults to conventional units)',
+    enum: UnitSystem,
+    required: false,
+  })
+  @ApiQuery({ name: 'from', description: 'Earliest test date (ISO string)', example: '2023-01-01', required: false })
+  @ApiQuery({ name: 'to', description: 'Latest test date (ISO string)', example: '2024-12-31', required: false })
+  @ApiResponse({
+    status: 200,
+    description: 'One series per analyte, in the requested order',
+    schema: {
+      type: 'object',
+      properties: {
+        code: { type: 'string', example: 'LDL' },
+        name: { type: 'string', example: 'LDL Cholesterol' },
+        unit: { type: 'string', example: 'mg/dL' },
+        points: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              resultId: { type: 'string' },
+              testId: { type: 'string' },
+              date: { type: 'string', example: '2024-01-15' },
+              value: { type: 'number', nullable: true, example: 128 },
+              unit: { type: 'string', example: 'mg/dL' },
+              referenceRange: {
+                type: 'object',
+                properties: { min: { type: 'number', nullable: true }, max: { type: 'number', nullable: true, example: 100 } },
+              },
+              status: { type: 'string', enum: ['normal', 'high', 'low', 'critical', 'abnormal'] },
+              calculated: { type: 'boolean' },
+            },
+          },
+        },
+        slopePerYear: { type: 'number', nullable: true, example: -12.5, description: 'Least-squares change per year' },
+        direction: { type: 'string', enum: ['rising', 'falling', 'stable', 'insufficient_data'] },
+        skippedCount: { type: 'number', description: 'Values left out because their unit could not be converted' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown analyte or invalid date',
+  })
+  async getTrends(
+    @Param('analytes') analytes: string,
+    @Query('units', new ParseEnumPipe(UnitSystem, { optional: true })) units?: UnitSystem,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    // @CurrentUser() userId: string, // Temporarily disabled for testing
+  ): Promise<ApiResponseDto<AnalyteTrend[]>> {
+    const labels = analytes.split(',').map(label => label.trim()).filter(Boolean);
+    if (labels.length === 0 || labels.length > 10) {
+      throw new BadRequestException('Request between 1 and 10 analytes');
+    }
+
+    const [fromDate, toDate] = [from, to].map(value => (value ? new Date(value) : undefined));
+    if ([fromDate, toDate].some(date => date && Number.isNaN(date.getTime()))) {
+      throw new BadRequestException('from and to must be ISO dates');
+    }
+
+    const userId = 'test-user-id'; // Temporary for testing
+    return this.resultsService.getTrends(userId, labels, { units, from: fromDate, to: toDate });
+  }
+
+  /**
+   * Compare Two Results
+   *
+   * WHY: Users checking a treatment change want the "before" and "after"
+   * reports next to each other, row by row. Pairing analytes that two labs
+   * named differently and converting units is done here, not on the phone.
+   *
+   * Declared before :resultId so "compare" is never read as a result ID.
+   */
+  @Get('compare')
+  @ApiOperation({
+    summary: 'Compare two results',
+    description: 'Pairs the tests of two of the user\'s results by analyte, with unit-normalised deltas (target minus base), significance and status transitions, plus the tests found in only one report.',
+  })
+  @ApiQuery({ name: 'base', description: 'Earlier ("before") result ID', format: 'uuid' })
+  @ApiQuery({ name: 'target', description: 'Later ("after") result ID', format: 'uuid' })
+  @ApiQuery({
+    name: 'units',
+    description: 'Unit system for values and reference ranges',
+    enum: UnitSystem,
+    required: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paired tests and per-result statistics',
+    schema: {
+      type: 'object',
+      properties: {
+        base: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            testDate: { type: 'string' },
+            testType: { type: 'string' },
+            statistics: { type: 'object', description: 'Same as the statistics of GET /results/:resultId' },
+          },
+        },
+        target: { type: 'object', description: 'Same shape as base' },
+        pairs: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              code: { type: 'string', example: 'LDL' },
+              name: { type: 'string', example: 'LDL Cholesterol' },
+              base: { type: 'object', description: 'Base test, converted to the target test\'s unit' },
+              target: { type: 'object', description: 'Target test' },
+              delta: { type: 'object', description: 'Same shape as a test\'s delta in GET /results/:resultId' },
+              statusChange: {
+                type: 'object',
+                properties: {
+                  from: { type: 'string', example: 'high' },
+                  to: { type: 'string', example: 'normal' },
+                },
+              },
+            },
+          },
+        },
+        baseOnly: { type: 'array', description: 'Tests only in the base result', items: { type: 'object' } },
+        targetOnly: { type: 'array', description: 'Tests only in the target result', items: { type: 'object' } },
+        summary: {
+          type: 'object',
+          properties: {
+            matchedCount: { type: 'number' },
+            significantCount: { type: 'number' },
+            improvedCount: { type: 'number' },
+            worsenedCount: { type: 'number' },
+            statusChangeCount: { type: 'number' },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing or invalid result IDs, or the same result twice',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Either result not found',
+  })
+  async compareResults(
+    @Query('base', ParseUUIDPipe) base: string,
+    @Query('target', ParseUUIDPipe) target: string,
+    @Query('units', new ParseEnumPipe(UnitSystem, { optional: true })) units?: UnitSystem,
+    // @CurrentUser() userId: string, // Temporarily disabled for testing
+  ): Promise<ApiResponseDto<ResultComparison>> {
+    const userId = 'test-user-id'; // Temporary for testing
+    return this.resultsService.compareResults(userId, base, target, units);
+  }
 
   /**
    * Get Enhanced Result by ID - Main endpoint for React Native
@@ -73,6 +273,12 @@ export class ResultsController {
     description: 'UUID of the analysis result',
     example: 'c3d4e5f6-g7h8-9012-cdef-345678901234',
   })
+  @ApiQuery({
+    name: 'units',
+    description: 'Unit system for values and reference ranges (defaults to the stored, conventional units)',
+    enum: UnitSystem,
+    required: false,
+  })
   @ApiResponse({
     status: 200,
     description: 'Result retrieved successfully with enhancements',
@@ -81,8 +287,52 @@ export class ResultsController {
       properties: {
         id: { type: 'string', example: 'c3d4e5f6-g7h8-9012-cdef-345678901234' },
         jobId: { type: 'string', example: 'b2c3d4e5-f6g7-8901-bcde-f23456789012' },
-        testType: { type: 'string', example: 'Complete Blood Count' },
-        testDate: { type: 'string', example: '2024-01-15T10:30:00Z' },
+        testType: { type: 'string', example: 'Complete Blood Count', description: 'Name of the best covered panel' },
+        panels: {
+          type: 'array',
+          description: 'Standard panels the report covers, best covered first',
+          items: {
+            type: 'object',
+            properties: {
+              code: { type: 'string', example: 'CBC' },
+              name: { type: 'string', example: 'Complete Blood Count' },
+              presentCodes: { type: 'array', items: { type: 'string' }, example: ['HGB', 'HCT', 'WBC', 'PLT'] },
+              missingCodes: { type: 'array', items: { type: 'string' }, example: ['RBC', 'MCV', 'MCH', 'MCHC', 'RDW'] },
+              completeness: { type: 'number', example: 44, description: 'Present members as a percentage of the panel' },
+            },
+          },
+        },
+        testDate: { type: 'string', example: '2024-01-15T10:30:00Z', description: 'Collection date - UTC timestamp when a time is printed, otherwise YYYY-MM-DD' },
+        collectedAt: { type: 'string', nullable: true, example: '2024-01-15T10:30:00Z' },
+        receivedAt: { type: 'string', nullable: true, example: '2024-01-15T14:02:00Z' },
+        reportedAt: { type: 'string', nullable: true, example: '2024-01-16' },
+        dateGuessed: { type: 'boolean', description: 'testDate is not an unambiguous collection date - ask the user to check it' },
+        patientInfo: {
+          type: 'object',
+          nullable: true,
+          properties: {
+            name: { type: 'string', nullable: true, example: 'Jane A Doe' },
+            birthDate: { type: 'string', nullable: true, example: '1985-03-22' },
+            sex: { type: 'string', nullable: true, enum: ['male', 'female'] },
+            mrn: { type: 'string', nullable: true },
+            accessionNumber: { type: 'string', nullable: true },
+            orderingPhysician: { type: 'string', nullable: true, example: 'John Smith, MD' },
+            labName: { type: 'string', nullable: true, example: 'Quest Diagnostics' },
+          },
+        },
+        identityCheck: {
+          type: 'object',
+          nullable: true,
+          properties: {
+            status: { type: 'string', enum: ['match', 'mismatch', 'unverified'] },
+            mismatchedFields: { type: 'array', items: { type: 'string', enum: ['name', 'birthDate', 'sex'] } },
+          },
+        },
+        enrichmentStatus: {
+          type: 'string',
+          enum: ['pending', 'done', 'failed', 'fallback'],
+          description: 'AI notes: pending, done, fallback (rule-based notes) or failed - results are usable in every state',
+        },
         results: {
           type: 'array',
           items: {
@@ -90,16 +340,79 @@ export class ResultsController {
             properties: {
               id: { type: 'string' },
               testName: { type: 'string' },
-              value: { type: 'number' },
+              value: { type: 'number', nullable: true, description: 'Null for qualitative results' },
+              comparator: { type: 'string', enum: ['<', '<=', '>', '>='], description: 'Set when the lab reported a bound, e.g. "<0.5"' },
+              qualitativeValue: { type: 'string', example: 'Negative' },
+              expectedQualitative: { type: 'string', example: 'Negative' },
+              valueText: { type: 'string', description: 'Result as printed when not a plain number', example: '<0.5' },
               unit: { type: 'string' },
+              originalValue: { type: 'number', description: 'Value as printed by the lab' },
+              originalUnit: { type: 'string', description: 'Unit as printed by the lab' },
               referenceRange: {
                 type: 'object',
                 properties: {
-                  min: { type: 'number' },
-                  max: { type: 'number' },
+                  min: { type: 'number', nullable: true },
+                  max: { type: 'number', nullable: true },
+                },
+              },
+              status: { type: 'string', enum: ['normal', 'high', 'low', 'critical', 'abnormal'] },
+              labFlag: { type: 'string', enum: ['H', 'L', 'HH', 'LL', 'A', 'C'], description: 'Flag printed by the lab' },
+              computedStatus: { type: 'string', enum: ['normal', 'high', 'low', 'critical', 'abnormal'] },
+              flagDiscrepancy: { type: 'boolean', description: 'Lab flag and computed status disagree' },
+              referenceRangeSource: { type: 'string', enum: ['lab', 'library', 'none'], description: 'Printed by the lab, filled from the profile-specific library, or unavailable' },
+              referenceRangeConflict: { type: 'boolean', description: 'Lab range does not overlap the expected range for the user profile' },
+              ocrConfidence: { type: 'number', description: 'OCR confidence (0-1) for rows read from a scanned page', example: 0.92 },
+              confidence: { type: 'number', description: 'Overall extraction confidence (0-1)', example: 0.92 },
+              source: {
+                type: 'object',
+                properties: {
+                  page: { type: 'number', description: 'Report page (or photo) the row was read from' },
+                  text: { type: 'string', description: 'Row text as extracted' },
+                },
+              },
+              reviewReasons: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  enum: ['low_ocr_confidence', 'missing_value', 'missing_unit', 'unknown_analyte', 'flag_discrepancy', 'reference_range_conflict'],
+                },
+              },
+              needsReview: { type: 'boolean', description: 'Value awaits the user\'s confirmation' },
+              calculated: { type: 'boolean', description: 'Calculated from other results, not printed by the lab' },
+              derivation: {
+                type: 'object',
+                description: 'How a calculated marker was worked out',
+                properties: {
+                  method: { type: 'string', example: 'CKD-EPI 2021' },
+                  formula: { type: 'string' },
+                  inputs: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: { name: { type: 'string' }, testId: { type: 'string' }, value: {}, unit: { type: 'string' } },
+                    },
+                  },
+                  assumptions: { type: 'array', items: { type: 'string' }, example: ['Albumin 4.3 g/dL'] },
+                },
+              },
+              aiNote: { type: 'string', description: 'One-sentence explanation, added by the AI enrichment stage' },
+              aiModel: { type: 'string', description: 'Model that wrote aiNote, or "fallback:rules"' },
+              delta: {
+                type: 'object',
+                description: 'Change since the previous value of this analyte, in this test\'s unit',
+                properties: {
+                  previousResultId: { type: 'string' },
+                  previousTestId: { type: 'string' },
+                  previousDate: { type: 'string' },
+                  previousValue: { type: 'number' },
+                  change: { type: 'number', example: -18 },
+                  percentChange: { type: 'number', nullable: true, example: -12.5 },
+                  referenceChangeValue: { type: 'number', nullable: true, description: 'Smallest significant change (%)', example: 10.3 },
+                  significant: { type: 'boolean', nullable: true },
+                  direction: { type: 'string', enum: ['increase', 'decrease', 'unchanged'] },
+                  assessment: { type: 'string', nullable: true, enum: ['improved', 'worsened', 'changed', 'not_significant'] },
                 },
               },
-              status: { type: 'string', enum: ['normal', 'high', 'low', 'critical'] },
             },
           },
         },
@@ -110,12 +423,94 @@ export class ResultsController {
             normalCount: { type: 'number' },
             abnormalCount: { type: 'number' },
             criticalCount: { type: 'number' },
+            qualitativeCount: { type: 'number' },
+            censoredCount: { type: 'number' },
+            discrepancyCount: { type: 'number' },
+            reviewCount: { type: 'number' },
+            panels: {
+              type: 'array',
+              description: 'Counts per covered panel; tests outside every panel are grouped as "Other Tests"',
+              items: {
+                type: 'object',
+                properties: {
+                  code: { type: 'string', nullable: true },
+                  name: { type: 'string' },
+                  completeness: { type: 'number', nullable: true },
+                  totalTests: { type: 'number' },
+                  normalCount: { type: 'number' },
+                  abnormalCount: { type: 'number' },
+                  criticalCount: { type: 'number' },
+                },
+              },
+            },
             overallStatus: { type: 'string', enum: ['normal', 'abnormal', 'critical'] },
           },
         },
-        recommendations: {
+        flagDiscrepancies: {
           type: 'array',
-          items: { type: 'string' },
+          description: 'Tests whose lab flag disagrees with the computed status',
+          items: { type: 'object' },
+        },
+        reviewTests: {
+          type: 'array',
+          description: 'Low-confidence or incomplete tests awaiting confirmation',
+          items: { type: 'object' },
+        },
+        significantChanges: {
+          type: 'array',
+          description: 'Tests that changed by more than their reference change value since the previous result',
+          items: { type: 'object' },
+        },
+        recommendations: {
+          type: 'object',
+          nullable: true,
+          description: 'AI-written report summary, null until enrichment finishes (rule-based when the model fails)',
+          properties: {
+            overview: { type: 'string' },
+            panels: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  panel: { type: 'string', example: 'Iron Studies' },
+                  summary: { type: 'string' },
+                  testIds: { type: 'array', items: { type: 'string' } },
+                },
+              },
+            },
+            patterns: {
+              type: 'array',
+              description: 'Groups of tests pointing the same way',
+              items: {
+                type: 'object',
+                properties: {
+                  title: { type: 'string', example: 'Iron studies out of range together' },
+                  explanation: { type: 'string' },
+                  testIds: { type: 'array', items: { type: 'string' } },
+                },
+              },
+            },
+            questionsForDoctor: { type: 'array', items: { type: 'string' } },
+            model: { type: 'string', example: 'openai:gpt-4o-mini' },
+            version: { type: 'string' },
+            generatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        aiInsights: {
+          type: 'object',
+          description: 'Derived by rules from statuses, critical values, changes and panels',
+          properties: {
+            severity: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+            followUpTimeframe: { type: 'string', example: 'Within 1-2 weeks' },
+            keyFindings: { type: 'array', items: { type: 'string' }, example: ['LDL Cholesterol is high (160 mg/dL, reference < 100)'] },
+            recommendations: {
+              type: 'array',
+              description: 'Rule-based next steps',
+              items: { type: 'string' },
+              example: ['Discuss the out-of-range results with your healthcare provider'],
+            },
+            medicalDisclaimer: { type: 'string' },
+          },
         },
       },
     },
@@ -126,6 +521,7 @@ export class ResultsController {
   })
   async getResult(
     @Param('resultId', ParseUUIDPipe) resultId: string,
+    @Query('units', new ParseEnumPipe(UnitSystem, { optional: true })) units?: UnitSystem,
     // @CurrentUser() userId: string, // Temporarily disabled for testing
   ): Promise<ApiResponseDto<EnhancedBloodworkResult>> {
     /**
@@ -136,7 +532,214 @@ export class ResultsController {
      * just handles HTTP concerns and returns the processed data.
      */
     const userId = 'test-user-id'; // Temporary for testing
-    return this.resultsService.findByIdWithEnhancements(resultId, userId);
+    return this.resultsService.findByIdWithEnhancements(resultId, userId, units);
+  }
+
+  /**
+   * Confirm Extracted Values
+   * 
+   * WHY: Results read with low confidence (blurry scans, missing units)
+   * are saved with status 'needs_review' and the analysis job stops in
+   * NEEDS_REVIEW. Your app shows the reviewTests list next to the source
+   * text, and once the user confirms, the result and job complete and AI
+   * notes can be generated from values the user has checked.
+   */
+  @Post(':resultId/confirm')
+  @ApiOperation({
+    summary: 'Confirm extracted values',
+    description: 'Marks a result awaiting review as confirmed by the user. Completes the result, and its analysis job once none of the job\'s results await review.',
+  })
+  @ApiParam({
+    name: 'resultId',
+    description: 'UUID of the analysis result',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Result confirmed - returns the enhanced result',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Result is not awaiting review',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Result not found',
+  })
+  async confirmResult(
+    @Param('resultId', ParseUUIDPipe) resultId: string,
+    // @CurrentUser() userId: string, // Temporarily disabled for testing
+  ): Promise<ApiResponseDto<EnhancedBloodworkResult>> {
+    const userId = 'test-user-id'; // Temporary for testing
+    return this.resultsService.confirmResult(resultId, userId);
+  }
+
+  /**
+   * Correct a Test Row
+   * 
+   * WHY: When the parser gets a value, unit or range wrong, the user
+   * fixes that row instead of re-uploading. Values are entered as printed
+   * on the report; status, statistics and the row's AI note are
+   * re-derived, and the original row is kept in the edit history.
+   */
+  @Patch(':resultId/tests/:testId')
+  @ApiOperation({
+    summary: 'Correct an extracted test result',
+    description: 'Updates the given fields of one test row (as printed on the report) and re-derives its status. The previous row is kept in the edit history.',
+  })
+  @ApiParam({ name: 'resultId', description: 'UUID of the analysis result' })
+  @ApiParam({ name: 'testId', description: 'Id of the test row within the result' })
+  @ApiResponse({ status: 200, description: 'Row corrected - returns the enhanced result' })
+  @ApiResponse({ status: 400, description: 'Invalid correction' })
+  @ApiResponse({ status: 404, description: 'Result or test row not found' })
+  async updateTestResult(
+    @Param('resultId', ParseUUIDPipe) resultId: string,
+    @Param('testId') testId: string,
+    @Body() changes: UpdateTestResultDto,
+    // @CurrentUser() userId: string, // Temporarily disabled for testing
+  ): Promise<ApiResponseDto<EnhancedBloodworkResult>> {
+    const userId = 'test-user-id'; // Temporary for testing
+    return this.resultsService.updateTestResult(resultId, testId, userId, changes);
+  }
+
+  /**
+   * Add a Missed Test Row
+   */
+  @Post(':resultId/tests')
+  @ApiOperation({
+    summary: 'Add a test result the parser missed',
+    description: 'Adds a test row entered by the user (as printed on the report).',
+  })
+  @ApiParam({ name: 'resultId', description: 'UUID of the analysis result' })
+  @ApiResponse({ status: 201, description: 'Row added - returns the enhanced result' })
+  @ApiResponse({ status: 400, description: 'Invalid test row' })
+  @ApiResponse({ status: 404, description: 'Result not found' })
+  async addTestResult(
+    @Param('resultId', ParseUUIDPipe) resultId: string,
+    @Body() row: CreateTestResultDto,
+    // @CurrentUser() userId: string, // Temporarily disabled for testing
+  ): Promise<ApiResponseDto<EnhancedBloodworkResult>> {
+    const userId = 'test-user-id'; // Temporary for testing
+    return this.resultsService.addTestResult(resultId, userId, row);
+  }
+
+  /**
+   * Delete a Test Row
+   * 
+   * WHY: Removes rows that aren't real results - a misread header or a
+   * line read twice.
+   */
+  @Delete(':resultId/tests/:testId')
+  @ApiOperation({
+    summary: 'Delete an extracted test result',
+    description: 'Removes one test row. The deleted row is kept in the edit history.',
+  })
+  @ApiParam({ name: 'resultId', description: 'UUID of the analysis result' })
+  @ApiParam({ name: 'testId', description: 'Id of the test row within the result' })
+  @ApiResponse({ status: 200, description: 'Row deleted - returns the enhanced result' })
+  @ApiResponse({ status: 404, description: 'Result or test row not found' })
+  async deleteTestResult(
+    @Param('resultId', ParseUUIDPipe) resultId: string,
+    @Param('testId') testId: string,
+    // @CurrentUser() userId: string, // Temporarily disabled for testing
+  ): Promise<ApiResponseDto<EnhancedBloodworkResult>> {
+    const userId = 'test-user-id'; // Temporary for testing
+    return this.resultsService.deleteTestResult(resultId, testId, userId);
+  }
+
+  /**
+   * Get Edit History
+   * 
+   * WHY: Shows what the parser originally read next to the user's
+   * corrections, so an edited value can always be traced back.
+   */
+  @Get(':resultId/edits')
+  @ApiOperation({
+    summary: 'Get correction history',
+    description: 'Lists every edit, addition and deletion of test rows in a result, oldest first, with the row before and after.',
+  })
+  @ApiParam({ name: 'resultId', description: 'UUID of the analysis result' })
+  @ApiResponse({ status: 200, description: 'Edit history retrieved successfully', type: [ResultEdit] })
+  @ApiResponse({ status: 404, description: 'Result not found' })
+  async getEditHistory(
+    @Param('resultId', ParseUUIDPipe) resultId: string,
+    // @CurrentUser() userId: string, // Temporarily disabled for testing
+  ): Promise<ApiResponseDto<ResultEdit[]>> {
+    const userId = 'test-user-id'; // Temporary for testing
+    return this.resultsService.getEditHistory(resultId, userId);
+  }
+
+  /**
+   * Ask About a Result
+   * 
+   * WHY: Users have follow-up questions the notes and summary don't
+   * answer. The answer is grounded in their results, trends and profile,
+   * and streamed as server-sent events so the chat screen can show it as
+   * it is written. Diagnosis and dosing questions get a fixed refusal.
+   */
+  @Post(':resultId/chat')
+  @ApiOperation({
+    summary: 'Ask a question about a result',
+    description: 'Answers a question using the result, trends of its analytes and the health profile. Streams server-sent events: "token" events with text, then "done" with the stored exchange id (or "error").',
+  })
+  @ApiParam({ name: 'resultId', description: 'UUID of the analysis result' })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({
+    status: 200,
+    description: 'Event stream - data: {"type":"token","content":"..."} ... data: {"type":"done","exchangeId":"...","refusalReason":null}',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid question, or result awaiting review' })
+  @ApiResponse({ status: 404, description: 'Result not found' })
+  async chat(
+    @Param('resultId', ParseUUIDPipe) resultId: string,
+    @Body() body: ChatQuestionDto,
+    @Res() res: Response,
+    // @CurrentUser() userId: string, // Temporarily disabled for testing
+  ): Promise<void> {
+    const userId = 'test-user-id'; // Temporary for testing
+    // Errors before the first event are ordinary HTTP errors
+    const events = await this.chatService.ask(resultId, userId, body.message);
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+
+    // Keep going if the client leaves - the answer is still stored for the history
+    try {
+      for await (const event of events) {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      }
+    } catch (error) {
+      // Headers are sent - the failure can only be reported as an event
+      this.logger.error(`Chat stream failed for result ${resultId}: ${error instanceof Error ? error.message : error}`);
+      const failed: ChatStreamEvent = { type: 'error', message: 'The answer could not be completed - please try again' };
+      res.write(`data: ${JSON.stringify(failed)}\n\n`);
+    } finally {
+      res.end();
+    }
+  }
+
+  /**
+   * Get Chat History
+   * 
+   * WHY: The chat screen shows earlier questions and answers when it opens.
+   */
+  @Get(':resultId/chat')
+  @ApiOperation({
+    summary: 'Get chat history',
+    description: 'Lists the questions asked about a result and their answers, oldest first.',
+  })
+  @ApiParam({ name: 'resultId', description: 'UUID of the analysis result' })
+  @ApiResponse({ status: 200, description: 'Chat history retrieved successfully', type: [ChatExchange] })
+  @ApiResponse({ status: 404, description: 'Result not found' })
+  async getChatHistory(
+    @Param('resultId', ParseUUIDPipe) resultId: string,
+    // @CurrentUser() userId: string, // Temporarily disabled for testing
+  ): Promise<ApiResponseDto<ChatExchange[]>> {
+    const userId = 'test-user-id'; // Temporary for testing
+    return this.chatService.getHistory(resultId, userId);
   }
 
   /**
@@ -158,6 +761,12 @@ export class ResultsController {
     name: 'resultId',
     description: 'UUID of the analysis result',
   })
+  @ApiQuery({
+    name: 'units',
+    description: 'Unit system for values and reference ranges (defaults to the stored, conventional units)',
+    enum: UnitSystem,
+    required: false,
+  })
   @ApiResponse({
     status: 200,
     description: 'Raw result data retrieved successfully',
@@ -168,8 +777,9 @@ export class ResultsController {
   })
   async getRawResult(
     @Param('resultId', ParseUUIDPipe) resultId: string,
+    @Query('units', new ParseEnumPipe(UnitSystem, { optional: true })) units?: UnitSystem,
   ): Promise<BloodworkResult> {
-    return this.resultsService.findById(resultId);
+    return this.resultsService.findById(resultId, units);
   }
 
   /**
@@ -209,6 +819,12 @@ export class ResultsController {
     required: false,
     example: 50,
   })
+  @ApiQuery({
+    name: 'units',
+    description: 'Unit system for values and reference ranges (defaults to the stored, conventional units)',
+    enum: UnitSystem,
+    required: false,
+  })
   @ApiResponse({
     status: 200,
     description: 'Results retrieved successfully',
@@ -218,12 +834,13 @@ export class ResultsController {
     @Query('startDate') startDate?: string,
     @Query('endDate') endDate?: string,
     @Query('limit') limit?: number,
+    @Query('units', new ParseEnumPipe(UnitSystem, { optional: true })) units?: UnitSystem,
   ): Promise<BloodworkResult[]> {
     // Default to last 30 days if no range specified
     const end = endDate ? new Date(endDate) : new Date();
     const start = startDate ? new Date(startDate) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
 
-    const results = await this.resultsService.getResultsByDateRange(start, end);
+    const results = await this.resultsService.getResultsByDateRange(start, end, units);
     
     // Apply limit if specified
     if (limit && limit > 0) {
@@ -233,6 +850,31 @@ export class ResultsController {
     return results;
   }
 
+  /**
+   * Export Parser Corrections
+   * 
+   * WHY: User corrections are labelled examples of parser mistakes. This
+   * export pairs each extracted row with the corrected one and the source
+   * text it came from, ready to become parser fixtures or training data.
+   * Source text is patient data, so only the user's own corrections are
+   * returned.
+   */
+  @Get('corrections/export')
+  @ApiOperation({
+    summary: 'Export the user\'s corrections as labelled parser data',
+    description: 'One record per corrected, missed or falsely extracted row in the user\'s results, with the source text, parser template and values as printed on the report.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Labelled corrections',
+  })
+  async exportCorrections(
+    // @CurrentUser() userId: string, // Temporarily disabled for testing
+  ): Promise<ApiResponseDto<ParserCorrection[]>> {
+    const userId = 'test-user-id'; // Temporary for testing
+    return this.resultsService.exportCorrections(userId);
+  }
+
   /**
    * Get System Statistics
    * 
@@ -20,10 +20,21 @@
 
 import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BullModule } from '@nestjs/bull';
 import { ResultsController } from './results.controller';
 import { ResultsService } from './results.service';
 import { AiRecommendationsService } from './ai-recommendations.service';
+import { EnrichmentProcessor } from './enrichment.processor';
+import { ChatService } from './chat.service';
+import { ENRICHMENT_QUEUE } from './enrichment.queue';
+import { LLM_PROVIDER, LlmConfig } from './llm/llm-provider.interface';
+import { createLlmProvider } from './llm/llm-provider.factory';
 import { BloodworkResult } from '../common/entities/bloodwork-result.entity';
+import { AnalysisJob } from '../common/entities/analysis-job.entity';
+import { ResultEdit } from '../common/entities/result-edit.entity';
+import { ChatExchange } from '../common/entities/chat-exchange.entity';
+import { ProfilesModule } from '../profiles/profiles.module';
 
 @Module({
   /**
@@ -46,8 +57,43 @@ import { BloodworkResult } from '../common/entities/bloodwork-result.entity';
      * - Retrieving results for React Native display
      * - Calculating statistics and enhancements
      * - Managing result lifecycle and cleanup
+     * - Keeping the history of user corrections (ResultEdit)
+     * - Keeping the conversation about each result (ChatExchange)
+     * 
+     * AnalysisJob is registered here too (rather than importing
+     * AnalysisModule, which already imports this module) so confirming a
+     * reviewed result can complete its job.
+     */
+    TypeOrmModule.forFeature([BloodworkResult, AnalysisJob, ResultEdit, ChatExchange]),
+
+    /**
+     * Bull queue for AI enrichment
+     * 
+     * WHY: AI notes are written after results are saved, in their own
+     * queue with their own retries, so a failing model never fails an
+     * analysis. Registered here because both the analysis pipeline and
+     * result confirmation queue work through ResultsService.
      */
-    TypeOrmModule.forFeature([BloodworkResult]),
+    BullModule.registerQueue({
+      name: ENRICHMENT_QUEUE,
+      defaultJobOptions: {
+        removeOnComplete: 10,
+        removeOnFail: 5,
+        attempts: 3,           // The last attempt falls back to rule-based notes
+        backoff: {
+          type: 'exponential',
+          delay: 5000,         // Give the model API time to recover
+        },
+      },
+    }),
+
+    /**
+     * Profiles module import for demographics
+     * 
+     * WHY: Ranges filled from the reference-range library are re-derived
+     * from the current profile each time a result is read.
+     */
+    ProfilesModule,
   ],
 
   /**
@@ -60,6 +106,11 @@ import { BloodworkResult } from '../common/entities/bloodwork-result.entity';
    * ENDPOINTS PROVIDED:
    * - GET /results/:resultId - Main endpoint for ResultSummary
    * - GET /results/:resultId/raw - Raw data without enhancements
+   * - POST /results/:resultId/confirm - Confirm values awaiting review
+   * - PATCH/POST/DELETE /results/:resultId/tests - Correct extracted rows
+   * - GET /results/:resultId/edits - Correction history
+   * - POST/GET /results/:resultId/chat - Questions about a result, streamed answers
+   * - GET /results/corrections/export - Labelled parser corrections
    * - GET /results?startDate&endDate - Range queries for analytics
    * - GET /results/system/statistics - System-wide statistics
    * - GET /results/health/status - Service health monitoring
@@ -80,8 +131,22 @@ import { BloodworkResult } from '../common/entities/bloodwork-result.entity';
    * - AI-powered recommendation generation (AiRecommendationsService)
    * - Medical context analysis (AiRecommendationsService)
    * - Performance optimization (ResultsService)
+   * - Background AI enrichment of saved results (EnrichmentProcessor)
+   * - Grounded, streamed answers to questions about a result (ChatService)
+   * - The configured language model (LLM_PROVIDER: OpenAI, a local
+   *   OpenAI-compatible server, or offline rules)
    */
-  providers: [ResultsService, AiRecommendationsService],
+  providers: [
+    ResultsService,
+    AiRecommendationsService,
+    EnrichmentProcessor,
+    ChatService,
+    {
+      provide: LLM_PROVIDER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => createLlmProvider(configService.get<LlmConfig>('llm')!),
+    },
+  ],
 
   /**
    * Services exported for use by other modules
@@ -91,7 +156,7 @@ import { BloodworkResult } from '../common/entities/bloodwork-result.entity';
    * AnalysisModule to import and use it for result creation.
    * 
    * USAGE BY OTHER MODULES:
-   * - AnalysisProcessor calls ResultsService.createResult()
+   * - AnalysisProcessor calls ResultsService.createResults()
    * - Future modules could access results for analytics
    * - Admin modules could use results for monitoring
    */
@@ -0,0 +1,218 @@
+import { BloodworkResult, EnrichmentStatus, TestResult } from '../common/entities/bloodwork-result.entity';
+import { ResultEdit, ResultEditAction } from '../common/entities/result-edit.entity';
+import { ResultsService } from './results.service';
+
+type Where = Record<string, unknown> | Array<Record<string, unknown>>;
+
+/**
+ * Just enough of a TypeORM repository, backed by an array
+ */
+function fakeRepository<T extends { id?: string }>(rows: T[]) {
+  const matches = (row: T, where: Where = {}) =>
+    (Array.isArray(where) ? where : [where]).some(condition =>
+      Object.entries(condition).every(([key, value]) => row[key as keyof T] === value),
+    );
+
+  return {
+    rows,
+    create: jest.fn((data: Partial<T>) => ({ ...data }) as T),
+    find: jest.fn(({ where }: { where?: Where } = {}) => Promise.resolve(structuredClone(rows.filter(row => matches(row, where))))),
+    findOne: jest.fn(({ where }: { where: Where }) => Promise.resolve(structuredClone(rows.find(row => matches(row, where)) ?? null))),
+    save: jest.fn((row: T) => {
+      const saved = { createdAt: new Date(), ...row, id: row.id ?? `edit-${rows.length + 1}` };
+      const index = rows.findIndex(existing => existing.id === saved.id);
+      rows.splice(index === -1 ? rows.length : index, index === -1 ? 0 : 1, saved);
+      return Promise.resolve(saved);
+    }),
+    update: jest.fn(() => Promise.resolve({})),
+  };
+}
+
+function test(id: string, testName: string, value: number, range: { min: number | null; max: number | null }, status: TestResult['status']): TestResult {
+  return {
+    id,
+    testName,
+    canonicalCode: { 'Total Cholesterol': 'CHOL', 'HDL Cholesterol': 'HDL', Triglycerides: 'TRIG' }[testName],
+    value,
+    unit: 'mg/dL',
+    referenceRange: range,
+    referenceRangeSource: 'lab',
+    status,
+    source: { text: `${testName} ${value} mg/dL`, page: 1 },
+  };
+}
+
+function lipidReport(overrides: Partial<BloodworkResult> = {}): BloodworkResult {
+  return {
+    id: 'result-1',
+    jobId: 'job-1',
+    userId: 'user',
+    testDate: '2025-03-01',
+    testType: 'Lipid Panel',
+    status: 'completed',
+    enrichmentStatus: EnrichmentStatus.DONE,
+    parserTemplateId: 'generic',
+    parserTemplateVersion: '1.2.0',
+    summary: { overview: 'Written from the old values' },
+    results: [
+      test('1', 'Total Cholesterol', 250, { min: null, max: 199 }, 'high'),
+      test('2', 'HDL Cholesterol', 40, { min: 39, max: null }, 'normal'),
+      test('3', 'Triglycerides', 150, { min: null, max: 149 }, 'high'),
+    ],
+    ...overrides,
+  } as BloodworkResult;
+}
+
+function setup(results: BloodworkResult[] = [lipidReport()]) {
+  const resultRepository = fakeRepository(results);
+  const editRepository = fakeRepository<ResultEdit>([]);
+  const enrichmentQueue = { add: jest.fn(() => Promise.resolve()) };
+  const dependencies = [
+    resultRepository,
+    fakeRepository([]),
+    editRepository,
+    enrichmentQueue,
+    { generateNotes: jest.fn() },
+    { findByUserId: jest.fn(() => Promise.resolve(null)) },
+    { get: jest.fn() },
+  ] as unknown as ConstructorParameters<typeof ResultsService>;
+  const service = new ResultsService(...dependencies);
+  return { service, resultRepository, editRepository, enrichmentQueue };
+}
+
+function stored(resultRepository: ReturnType<typeof fakeRepository<BloodworkResult>>): BloodworkResult {
+  return resultRepository.rows[0];
+}
+
+function valueOf(result: BloodworkResult, code: string): number | null | undefined {
+  return result.results.find(row => row.canonicalCode === code)?.value;
+}
+
+describe('ResultsService', () => {
+  describe('updateTestResult', () => {
+    it('should record the original row and re-derive status', async () => {
+      const { service, resultRepository, editRepository } = setup();
+
+      await service.updateTestResult('result-1', '1', 'user', { value: 180 });
+
+      const [edit] = editRepository.rows;
+      expect(edit).toMatchObject({ resultId: 'result-1', userId: 'user', testId: '1', action: ResultEditAction.UPDATE });
+      expect(edit.before).toMatchObject({ value: 250, status: 'high' });
+      expect(edit.after).toMatchObject({ value: 180, status: 'normal', userEdited: true, needsReview: false });
+      expect(stored(resultRepository).results.find(row => row.id === '1')).toMatchObject({ value: 180, status: 'normal' });
+    });
+
+    it('should recalculate derived markers from the corrected input', async () => {
+      const { service, resultRepository } = setup();
+      expect(valueOf(lipidReport(), 'LDL')).toBeUndefined();
+
+      await service.updateTestResult('result-1', '1', 'user', { value: 180 });
+
+      // Friedewald: 180 - 40 - 150 / 5
+      expect(valueOf(stored(resultRepository), 'LDL')).toBe(110);
+      expect(valueOf(stored(resultRepository), 'NON_HDL')).toBe(140);
+    });
+
+    it('should clear the summary and queue the result for enrichment', async () => {
+      const { service, resultRepository, enrichmentQueue } = setup();
+
+      await service.updateTestResult('result-1', '3', 'user', { value: 120 });
+
+      expect(stored(resultRepository)).toMatchObject({ summary: null, enrichmentStatus: EnrichmentStatus.PENDING });
+      expect(enrichmentQueue.add).toHaveBeenCalledWith('enrichResults', { jobId: 'job-1', resultIds: ['result-1'] });
+    });
+
+    it('should not let a calculated row be edited directly', async () => {
+      const { service } = setup();
+      await service.updateTestResult('result-1', '1', 'user', { value: 180 });
+      const ldl = (await service.findById('result-1')).results.find(row => row.canonicalCode === 'LDL')!;
+
+      await expect(service.updateTestResult('result-1', ldl.id, 'user', { value: 100 })).rejects.toThrow('calculated');
+    });
+
+    it('should not touch another user\'s result', async () => {
+      const { service, editRepository } = setup();
+
+      await expect(service.updateTestResult('result-1', '1', 'someone-else', { value: 180 })).rejects.toThrow('not found');
+      expect(editRepository.rows).toHaveLength(0);
+    });
+  });
+
+  describe('addTestResult', () => {
+    it('should record an added row with no original and re-match panels', async () => {
+      const { service, resultRepository, editRepository } = setup();
+
+      await service.addTestResult('result-1', 'user', { testName: 'LDL Cholesterol', value: 170, unit: 'mg/dL', referenceMax: 99 });
+
+      const [edit] = editRepository.rows;
+      expect(edit).toMatchObject({ testId: '4', action: ResultEditAction.ADD, before: null });
+      expect(edit.after).toMatchObject({ canonicalCode: 'LDL', value: 170, status: 'high' });
+      // The printed LDL replaces the calculated one
+      expect(stored(resultRepository).results.filter(row => row.canonicalCode === 'LDL').map(row => [row.id, !!row.calculated])).toEqual([
+        ['4', false],
+      ]);
+      expect(stored(resultRepository).panels?.map(panel => panel.code)).toContain('LIPID');
+    });
+
+    it('should never reuse the id of a deleted row', async () => {
+      const { service, resultRepository, editRepository } = setup();
+
+      await service.deleteTestResult('result-1', '3', 'user');
+      await service.addTestResult('result-1', 'user', { testName: 'Triglycerides', value: 140, unit: 'mg/dL' });
+
+      const addedId = editRepository.rows[1].testId;
+      expect(addedId).not.toBe('3');
+      expect(stored(resultRepository).results.filter(row => row.id === addedId)).toHaveLength(1);
+    });
+  });
+
+  describe('deleteTestResult', () => {
+    it('should record the deleted row and drop the markers calculated from it', async () => {
+      const { service, resultRepository, editRepository } = setup();
+      await service.updateTestResult('result-1', '1', 'user', { value: 180 });
+
+      await service.deleteTestResult('result-1', '2', 'user');
+
+      expect(editRepository.rows[1]).toMatchObject({ testId: '2', action: ResultEditAction.DELETE, after: null });
+      expect(editRepository.rows[1].before).toMatchObject({ testName: 'HDL Cholesterol', value: 40 });
+      expect(stored(resultRepository).results.map(row => row.canonicalCode)).toEqual(['CHOL', 'TRIG']);
+    });
+  });
+
+  describe('exportCorrections', () => {
+    it('should collapse a row\'s edits into one labelled correction', async () => {
+      const { service } = setup();
+      await service.updateTestResult('result-1', '1', 'user', { value: 180 });
+      await service.updateTestResult('result-1', '1', 'user', { value: 185 });
+      await service.deleteTestResult('result-1', '3', 'user');
+      await service.addTestResult('result-1', 'user', { testName: 'Glucose', value: 92, unit: 'mg/dL' });
+
+      const { data } = await service.exportCorrections('user');
+
+      expect(data.map(correction => [correction.label, correction.extracted?.testName, correction.corrected?.testName])).toEqual([
+        ['corrected', 'Total Cholesterol', 'Total Cholesterol'],
+        ['false_positive', 'Triglycerides', undefined],
+        ['missed', undefined, 'Glucose'],
+      ]);
+      expect(data[0]).toMatchObject({
+        parserTemplateId: 'generic',
+        sourceText: 'Total Cholesterol 250 mg/dL',
+        extracted: { value: 250 },
+        corrected: { value: 185 },
+      });
+    });
+
+    it('should only export the user\'s own corrections', async () => {
+      const { service, resultRepository } = setup([lipidReport(), lipidReport({ id: 'result-2', userId: 'other-user' })]);
+      await service.updateTestResult('result-2', '1', 'other-user', { value: 180 });
+
+      expect((await service.exportCorrections('user')).data).toEqual([]);
+
+      await service.updateTestResult('result-1', '2', 'user', { value: 45 });
+      const { data } = await service.exportCorrections('user');
+
+      expect(data.map(correction => correction.resultId)).toEqual(['result-1']);
+      expect(resultRepository.find).toHaveBeenLastCalledWith({ where: [{ id: 'result-1', userId: 'user' }] });
+    });
+  });
+});
@@ -18,12 +18,33 @@
  * Your app displays charts, insights, and recommendations based on this data
  */
 
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { BloodworkResult, TestResult } from '../common/entities/bloodwork-result.entity';
+import { InjectQueue } from '@nestjs/bull';
+import { In, Repository } from 'typeorm';
+import type { Queue } from 'bull';
+import { BloodworkResult, EnrichmentStatus, ReportSummary, TestResult } from '../common/entities/bloodwork-result.entity';
+import { AnalysisJob, ENRICHMENT_PROGRESS_START, JobStatus } from '../common/entities/analysis-job.entity';
+import { ResultEdit, ResultEditAction } from '../common/entities/result-edit.entity';
+import { CreateTestResultDto, UpdateTestResultDto } from '../common/dto/edit-test-result.dto';
 import { AiRecommendationsService } from './ai-recommendations.service';
 import { ApiResponseDto, createApiResponse } from '../common/dto/api-response.dto';
+import { UnitSystem, convertTestResult, toCanonicalUnit, toUnitSystem } from '../common/clinical/unit-conversion';
+import { findAnalyteByCode, normalizeAnalyte } from '../common/clinical/analyte-catalogue';
+import { AnalyteTrend, buildTrend } from '../common/clinical/trends';
+import { UserProfile } from '../common/entities/user-profile.entity';
+import { isPanelMember, matchPanels, panelNameFor, testTypeFromPanels, UNGROUPED_PANEL_NAME } from '../common/clinical/panel-catalogue';
+import { calculateDerivedMarkers } from '../common/clinical/derived-markers';
+import { annotateDeltas } from '../common/clinical/delta-checks';
+import { compareTests, TestComparison } from '../common/clinical/result-comparison';
+import { deriveInsights, InsightRules, ResultInsights } from '../common/clinical/result-insights';
+import { normalizeQualitative } from '../common/clinical/qualitative-results';
+import { applyReferenceRange, toDemographics } from '../common/clinical/reference-ranges';
+import { resolveTestStatus } from '../common/clinical/result-status';
+import { CriticalLimit } from '../common/clinical/critical-limits';
+import { ProfilesService } from '../profiles/profiles.service';
+import { ENRICHMENT_QUEUE, EnrichmentJobData } from './enrichment.queue';
 
 /**
  * Result statistics interface for frontend consumption
@@ -36,36 +57,147 @@ export interface ResultStatistics {
   normalCount: number;
   abnormalCount: number;
   criticalCount: number;
+  /**
+   * Tests reported as words ("Negative") rather than numbers
+   */
+  qualitativeCount: number;
+  /**
+   * Tests reported as a bound ("<0.5", ">1000")
+   */
+  censoredCount: number;
+  /**
+   * Tests where the lab's printed flag and our computed status disagree
+   */
+  discrepancyCount: number;
+  /**
+   * Tests whose extracted values still await the user's confirmation
+   */
+  reviewCount: number;
+  /**
+   * Counts per covered panel - a test in two panels counts in both
+   */
+  panels: PanelStatistics[];
   testDate: string;
   testType: string;
   overallStatus: 'normal' | 'abnormal' | 'critical';
 }
 
+/**
+ * Result counts for one panel, plus how complete the panel is
+ * 
+ * WHY: Lets the ResultSummary show "Lipid Panel - 1 of 5 abnormal" cards
+ * and point out panels that are missing tests. Tests outside every panel
+ * are grouped as "Other Tests" (completeness null).
+ */
+export interface PanelStatistics {
+  code: string | null;
+  name: string;
+  completeness: number | null;
+  totalTests: number;
+  normalCount: number;
+  abnormalCount: number;
+  criticalCount: number;
+}
+
 /**
  * Enhanced result response with computed fields
  * 
  * WHY: Adds calculated fields that your React Native app needs
  * without requiring complex calculations on the frontend.
  */
-export interface EnhancedBloodworkResult extends BloodworkResult {
+export interface EnhancedBloodworkResult extends Omit<BloodworkResult, 'summary'> {
   statistics: ResultStatistics;
   criticalTests: TestResult[];
   abnormalTests: TestResult[];
-  recommendations: string[];
-  aiInsights: {
-    severity: 'low' | 'medium' | 'high' | 'critical';
-    followUpTimeframe: string;
-    keyFindings: string[];
-    medicalDisclaimer: string;
+  flagDiscrepancies: TestResult[];
+  reviewTests: TestResult[];
+  significantChanges: TestResult[];
+  /**
+   * The AI-written report summary (the stored summary field) - null until
+   * enrichment finishes
+   */
+  recommendations: ReportSummary | null;
+  /**
+   * Rule-based severity, follow-up, key findings and next steps (see
+   * common/clinical/result-insights.ts) - per-test AI notes are embedded
+   * in each test result
+   */
+  aiInsights: ResultInsights;
+}
+
+/**
+ * One side of a comparison
+ */
+export interface ComparedResultSummary {
+  id: string;
+  testDate: string;
+  testType: string;
+  statistics: ResultStatistics;
+}
+
+/**
+ * Two results side by side
+ * 
+ * WHY: Lets your app render a before/after table without pairing rows or
+ * converting units itself. Deltas are target minus base.
+ */
+export interface ResultComparison extends TestComparison {
+  base: ComparedResultSummary;
+  target: ComparedResultSummary;
+  summary: {
+    matchedCount: number;
+    significantCount: number;
+    improvedCount: number;
+    worsenedCount: number;
+    statusChangeCount: number;
   };
 }
 
+/**
+ * A test row as the parser should have read it, for training and fixtures
+ */
+export type LabelledTestRow = Pick<
+  TestResult,
+  'testName' | 'value' | 'comparator' | 'qualitativeValue' | 'unit' | 'referenceRange' | 'labFlag'
+>;
+
+/**
+ * One user correction, labelled for parser training
+ * 
+ * LABELS:
+ * - corrected: the parser read the row wrongly (extracted vs corrected)
+ * - missed: the parser didn't find the row at all
+ * - false_positive: the parser produced a row that isn't a result
+ */
+export interface ParserCorrection {
+  label: 'corrected' | 'missed' | 'false_positive';
+  resultId: string;
+  testId: string;
+  parserTemplateId: string | null;
+  parserTemplateVersion: string | null;
+  sourceText: string | null;
+  sourcePage: number | null;
+  extracted: LabelledTestRow | null;
+  corrected: LabelledTestRow | null;
+  editedAt: string;
+}
+
 @Injectable()
 export class ResultsService {
+  private readonly logger = new Logger(ResultsService.name);
+
   constructor(
     @InjectRepository(BloodworkResult)
     private readonly resultRepository: Repository<BloodworkResult>,
+    @InjectRepository(AnalysisJob)
+    private readonly jobRepository: Repository<AnalysisJob>,
+    @InjectRepository(ResultEdit)
+    private readonly editRepository: Repository<ResultEdit>,
+    @InjectQueue(ENRICHMENT_QUEUE)
+    private readonly enrichmentQueue: Queue<EnrichmentJobData>,
     private readonly aiRecommendationsService: AiRecommendationsService,
+    private readonly profilesService: ProfilesService,
+    private readonly configService: ConfigService,
   ) {}
 
   /**
@@ -78,6 +210,33 @@ export class ResultsService {
    * USAGE: AnalysisProcessor calls this with generated/analyzed results
    */
   async createResult(resultData: Partial<BloodworkResult>): Promise<BloodworkResult> {
+    this.validateResultData(resultData);
+
+    // Create and save result entity
+    const result = this.resultRepository.create(resultData);
+    const savedResult = await this.resultRepository.save(result);
+
+    return savedResult;
+  }
+
+  /**
+   * Creates the results of one upload together
+   * 
+   * WHY: A history export holds several reports. They are saved in one
+   * transaction so a failure part-way leaves none behind, and a retried
+   * job never finds half of its reports already saved.
+   * 
+   * USAGE: AnalysisProcessor calls this with one entry per parsed report
+   */
+  async createResults(resultsData: Partial<BloodworkResult>[]): Promise<BloodworkResult[]> {
+    resultsData.forEach(resultData => this.validateResultData(resultData));
+
+    return this.resultRepository.manager.transaction(manager =>
+      manager.save(resultsData.map(resultData => manager.create(BloodworkResult, resultData))),
+    );
+  }
+
+  private validateResultData(resultData: Partial<BloodworkResult>): void {
     // Validate required fields
     if (!resultData.jobId) {
       throw new Error('Job ID is required for result creation');
@@ -86,12 +245,6 @@ export class ResultsService {
     if (!resultData.results || !Array.isArray(resultData.results)) {
       throw new Error('Test results array is required');
     }
-
-    // Create and save result entity
-    const result = this.resultRepository.create(resultData);
-    const savedResult = await this.resultRepository.save(result);
-
-    return savedResult;
   }
 
   /**
@@ -103,22 +256,37 @@ export class ResultsService {
    * 
    * USAGE: GET /results/:resultId endpoint calls this method
    */
-  async findByIdWithEnhancements(id: string, userId: string): Promise<ApiResponseDto<EnhancedBloodworkResult>> {
-    const result = await this.resultRepository.findOne({ where: { id, userId } });
+  async findByIdWithEnhancements(
+    id: string,
+    userId: string,
+    units?: UnitSystem,
+  ): Promise<ApiResponseDto<EnhancedBloodworkResult>> {
+    const stored = await this.resultRepository.findOne({ where: { id, userId } });
     
-    if (!result) {
+    if (!stored) {
       throw new NotFoundException(`Bloodwork result ${id} not found`);
     }
 
+    const result = await this.annotateDeltas(this.applyUnitSystem(await this.applyProfileRanges(stored), units));
+
     // Calculate statistics for frontend display
     const statistics = this.calculateStatistics(result);
     
     // Identify critical and abnormal tests for highlighting
     const criticalTests = result.results.filter(test => test.status === 'critical');
     const abnormalTests = result.results.filter(test => 
-      test.status === 'high' || test.status === 'low'
+      test.status === 'high' || test.status === 'low' || test.status === 'abnormal'
     );
 
+    // Lab flag vs computed status disagreements are surfaced, never hidden
+    const flagDiscrepancies = result.results.filter(test => test.flagDiscrepancy);
+
+    // Low-confidence or incomplete rows the user should check
+    const reviewTests = result.results.filter(test => test.needsReview);
+
+    // Changes since the previous result that exceed normal variation
+    const significantChanges = result.results.filter(test => test.delta?.significant);
+
     // AI recommendations are now generated per-test in the analysis processor
     // const aiRecommendations = await this.aiRecommendationsService.generateRecommendations({
     //   testResults: result.results,
@@ -126,35 +294,288 @@ export class ResultsService {
     //   testDate: result.testDate,
     // });
 
+    // Severity, follow-up, findings and next steps come from rules, never from the LLM
+    const aiInsights = deriveInsights(result, this.configService.get<InsightRules>('clinical.insightRules'));
+
+    // The AI-written summary is what the app shows as recommendations
+    const { summary, ...fields } = result;
+
     return createApiResponse({
-      ...result,
+      ...fields,
       statistics,
       criticalTests,
       abnormalTests,
-      recommendations: [], // AI insights are now embedded in each test result
-      aiInsights: {
-        severity: 'medium',
-        followUpTimeframe: '1-2 weeks',
-        keyFindings: criticalTests.length > 0 ? ['Critical values detected'] : ['Results within expected ranges'],
-        medicalDisclaimer: 'This analysis is for informational purposes only. Consult your healthcare provider for medical advice.',
-      },
+      flagDiscrepancies,
+      reviewTests,
+      significantChanges,
+      recommendations: summary,
+      aiInsights,
+    });
+  }
+
+  /**
+   * Confirms the extracted values of a result awaiting review
+   * 
+   * WHY: When extraction confidence is low or a value/unit is missing, the
+   * result is saved as 'needs_review' and nothing further (AI notes,
+   * trends) should be built on it until the user has checked the values
+   * against their report. Confirming clears every row's review flag,
+   * completes the result and its analysis job, and queues AI enrichment.
+   * 
+   * USAGE: POST /results/:resultId/confirm
+   */
+  async confirmResult(id: string, userId: string): Promise<ApiResponseDto<EnhancedBloodworkResult>> {
+    const result = await this.resultRepository.findOne({ where: { id, userId } });
+
+    if (!result) {
+      throw new NotFoundException(`Bloodwork result ${id} not found`);
+    }
+
+    if (result.status !== 'needs_review') {
+      throw new BadRequestException(`Bloodwork result ${id} is not awaiting review`);
+    }
+
+    result.results = result.results.map(test => ({ ...test, needsReview: false }));
+    result.status = 'completed';
+    result.confirmedAt = new Date();
+    await this.resultRepository.save(result);
+
+    // The job was parked in NEEDS_REVIEW - it completes once none of its results await review
+    const pendingCount = await this.resultRepository.count({ where: { jobId: result.jobId, status: 'needs_review' } });
+    if (pendingCount === 0) {
+      await this.jobRepository.update(
+        { id: result.jobId, status: JobStatus.NEEDS_REVIEW },
+        { status: JobStatus.COMPLETED },
+      );
+    }
+
+    // AI notes wait for confirmed values
+    await this.queueEnrichment(result.jobId, [result.id]);
+
+    return this.findByIdWithEnhancements(id, userId);
+  }
+
+  /**
+   * Queues AI enrichment of a job's results
+   * 
+   * WHY: AI notes are slow and depend on an external API, so they are a
+   * separate stage after the results are saved - the results are usable
+   * straight away and a failing model only delays (or drops) the notes.
+   * The stage is retried by the queue (see EnrichmentProcessor); results
+   * awaiting review are queued when the user confirms them.
+   */
+  async queueEnrichment(jobId: string, resultIds: string[]): Promise<void> {
+    try {
+      if (resultIds.length > 0) {
+        await this.enrichmentQueue.add('enrichResults', { jobId, resultIds });
+      }
+    } catch (error) {
+      // The results are saved either way - a queueing error only costs the notes
+      this.logger.error(`Could not queue AI enrichment for job ${jobId}:`, error);
+      await this.markEnrichmentFailed(resultIds);
+    }
+    await this.refreshJobEnrichment(jobId);
+  }
+
+  /**
+   * Marks results whose enrichment gave up as failed
+   */
+  async markEnrichmentFailed(resultIds: string[]): Promise<void> {
+    await this.resultRepository.update(
+      { id: In(resultIds), enrichmentStatus: EnrichmentStatus.PENDING, status: 'completed' },
+      { enrichmentStatus: EnrichmentStatus.FAILED },
+    );
+  }
+
+  /**
+   * Recomputes a job's enrichment state and progress from its results
+   * 
+   * WHY: A job's results are enriched at different times - straight away,
+   * or once the user confirms them - so the job's state is derived from
+   * all of them rather than set by whichever stage ran last. Progress runs
+   * from ENRICHMENT_PROGRESS_START to 100 as results finish.
+   */
+  async refreshJobEnrichment(jobId: string): Promise<void> {
+    const results = await this.resultRepository.find({ where: { jobId }, select: ['id', 'enrichmentStatus'] });
+    if (results.length === 0) {
+      return;
+    }
+
+    const statuses = results.map(result => result.enrichmentStatus);
+    const finished = statuses.filter(status => status !== EnrichmentStatus.PENDING).length;
+    const enrichmentStatus = [EnrichmentStatus.FAILED, EnrichmentStatus.FALLBACK, EnrichmentStatus.PENDING]
+      .find(status => statuses.includes(status)) ?? EnrichmentStatus.DONE;
+
+    await this.jobRepository.update(jobId, {
+      enrichmentStatus,
+      progress: Math.round(ENRICHMENT_PROGRESS_START + ((100 - ENRICHMENT_PROGRESS_START) * finished) / results.length),
     });
   }
 
+  /**
+   * Corrects one test row of a result
+   * 
+   * WHY: When the parser misreads a value, unit or range, the user fixes
+   * that row instead of re-uploading the report. Only the given fields
+   * change; the row is then converted, ranged and statused exactly like a
+   * parsed row, and its AI note is regenerated if the result has notes;
+   * the report summary is queued to be rewritten.
+   * The row before the change goes into the edit history.
+   * 
+   * USAGE: PATCH /results/:resultId/tests/:testId
+   */
+  async updateTestResult(
+    resultId: string,
+    testId: string,
+    userId: string,
+    changes: UpdateTestResultDto,
+  ): Promise<ApiResponseDto<EnhancedBloodworkResult>> {
+    const result = await this.findOwnedResult(resultId, userId);
+    const current = this.findEditableTest(result, testId);
+
+    const edited = await this.deriveEditedTest(current, changes, result);
+    result.results = result.results.map(test => (test.id === testId ? edited : test));
+
+    await this.saveWithEdit(result, userId, testId, ResultEditAction.UPDATE, current, edited);
+    return this.findByIdWithEnhancements(resultId, userId);
+  }
+
+  /**
+   * Adds a test row the parser missed
+   * 
+   * USAGE: POST /results/:resultId/tests
+   */
+  async addTestResult(
+    resultId: string,
+    userId: string,
+    row: CreateTestResultDto,
+  ): Promise<ApiResponseDto<EnhancedBloodworkResult>> {
+    const result = await this.findOwnedResult(resultId, userId);
+
+    // Row ids are sequential per result ("1", "2", ...); never reuse a deleted one
+    const history = await this.editRepository.find({ where: { resultId } });
+    const usedIds = [...result.results.map(test => test.id), ...history.map(edit => edit.testId)];
+    const testId = (Math.max(0, ...usedIds.map(id => parseInt(id, 10)).filter(Number.isFinite)) + 1).toString();
+
+    const blank: TestResult = {
+      id: testId,
+      testName: row.testName,
+      value: null,
+      unit: '',
+      referenceRange: { min: null, max: null },
+      status: 'normal',
+    };
+    const added = await this.deriveEditedTest(blank, row, result);
+    result.results = [...result.results, added];
+
+    await this.saveWithEdit(result, userId, testId, ResultEditAction.ADD, null, added);
+    return this.findByIdWithEnhancements(resultId, userId);
+  }
+
+  /**
+   * Removes a test row that isn't a real result (a misread header, a
+   * duplicated line)
+   * 
+   * USAGE: DELETE /results/:resultId/tests/:testId
+   */
+  async deleteTestResult(
+    resultId: string,
+    testId: string,
+    userId: string,
+  ): Promise<ApiResponseDto<EnhancedBloodworkResult>> {
+    const result = await this.findOwnedResult(resultId, userId);
+    const current = this.findEditableTest(result, testId);
+
+    result.results = result.results.filter(test => test.id !== testId);
+
+    await this.saveWithEdit(result, userId, testId, ResultEditAction.DELETE, current, null);
+    return this.findByIdWithEnhancements(resultId, userId);
+  }
+
+  /**
+   * Edit history of a result, oldest first
+   * 
+   * USAGE: GET /results/:resultId/edits
+   */
+  async getEditHistory(resultId: string, userId: string): Promise<ApiResponseDto<ResultEdit[]>> {
+    await this.findOwnedResult(resultId, userId);
+    return createApiResponse(await this.editRepository.find({ where: { resultId }, order: { createdAt: 'ASC' } }));
+  }
+
+  /**
+   * Exports user corrections as labelled parser examples
+   * 
+   * WHY: Every correction pairs what the parser read with what the report
+   * actually says, plus the source text it was read from - exactly what a
+   * parser fixture or training example needs. Edits to the same row are
+   * collapsed: the first "before" is the original extraction and the last
+   * "after" is the user's final answer. Values are expressed as printed
+   * on the report, not in storage units. Only the user's own edits are
+   * exported - source text is patient data.
+   * 
+   * USAGE: GET /results/corrections/export
+   */
+  async exportCorrections(userId: string): Promise<ApiResponseDto<ParserCorrection[]>> {
+    const edits = await this.editRepository.find({ where: { userId }, order: { createdAt: 'ASC' } });
+    if (edits.length === 0) {
+      return createApiResponse([]);
+    }
+
+    const rowEdits = new Map<string, ResultEdit[]>();
+    for (const edit of edits) {
+      const key = `${edit.resultId}:${edit.testId}`;
+      rowEdits.set(key, [...(rowEdits.get(key) ?? []), edit]);
+    }
+
+    const resultIds = [...new Set(edits.map(edit => edit.resultId))];
+    const results = await this.resultRepository.find({ where: resultIds.map(id => ({ id, userId })) });
+    const resultById = new Map(results.map(result => [result.id, result]));
+
+    const corrections: ParserCorrection[] = [];
+    for (const history of rowEdits.values()) {
+      const first = history[0];
+      const last = history[history.length - 1];
+      const extracted = first.action === ResultEditAction.ADD ? null : toLabelledRow(first.before);
+      const corrected = toLabelledRow(last.after);
+
+      // Added then deleted, or edited back to what was extracted
+      if ((!extracted && !corrected) || JSON.stringify(extracted) === JSON.stringify(corrected)) {
+        continue;
+      }
+
+      const result = resultById.get(first.resultId);
+      const source = first.before?.source ?? last.after?.source;
+      corrections.push({
+        label: !extracted ? 'missed' : !corrected ? 'false_positive' : 'corrected',
+        resultId: first.resultId,
+        testId: first.testId,
+        parserTemplateId: result?.parserTemplateId ?? null,
+        parserTemplateVersion: result?.parserTemplateVersion ?? null,
+        sourceText: source?.text ?? null,
+        sourcePage: source?.page ?? null,
+        extracted,
+        corrected,
+        editedAt: last.createdAt.toISOString(),
+      });
+    }
+
+    return createApiResponse(corrections);
+  }
+
   /**
    * Simple result retrieval without enhancements
    * 
    * WHY: For cases where you just need the raw data without
    * additional calculations. Used by other services or admin endpoints.
    */
-  async findById(id: string): Promise<BloodworkResult> {
+  async findById(id: string, units?: UnitSystem): Promise<BloodworkResult> {
     const result = await this.resultRepository.findOne({ where: { id } });
     
     if (!result) {
       throw new NotFoundException(`Bloodwork result ${id} not found`);
     }
 
-    return result;
+    return this.applyUnitSystem(await this.applyProfileRanges(result), units);
   }
 
   /**
@@ -167,6 +588,226 @@ export class ResultsService {
     return this.resultRepository.findOne({ where: { jobId } });
   }
 
+  /**
+   * Retrieves every result saved for a job, oldest report first
+   * 
+   * WHY: A history export produces several results per job. A retried
+   * analysis uses this to reuse the results an earlier attempt saved.
+   */
+  async findAllByJobId(jobId: string): Promise<BloodworkResult[]> {
+    return this.resultRepository.find({ where: { jobId }, order: { testDate: 'ASC' } });
+  }
+
+  private async findOwnedResult(id: string, userId: string): Promise<BloodworkResult> {
+    const result = await this.resultRepository.findOne({ where: { id, userId } });
+
+    if (!result) {
+      throw new NotFoundException(`Bloodwork result ${id} not found`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Applies user changes to a row and re-derives everything computed from it
+   * 
+   * WHY: Users type what their report says, so changes are applied to the
+   * row as printed (original value and unit), then converted to storage
+   * units, ranged and statused the same way the parser does it. A lab
+   * range is only kept while its unit stays the same; otherwise the
+   * reference-range library fills it again. User-entered values are fully
+   * trusted, so the row leaves review.
+   */
+  private async deriveEditedTest(
+    current: TestResult,
+    changes: UpdateTestResultDto,
+    result: BloodworkResult,
+  ): Promise<TestResult> {
+    const printed = asPrinted(current);
+    const unit = changes.unit ?? printed.unit;
+    const keepLabRange = current.referenceRangeSource !== 'library' && unit === printed.unit;
+    const baseRange = keepLabRange ? printed.referenceRange : { min: null, max: null };
+
+    const value = changes.value !== undefined ? changes.value : printed.value;
+    const qualitativeValue = changes.qualitativeValue !== undefined
+      ? normalizeQualitative(changes.qualitativeValue ?? undefined) ?? changes.qualitativeValue?.trim() ?? undefined
+      // A numeric value replaces a qualitative one
+      : changes.value != null ? undefined : printed.qualitativeValue;
+    const comparator = changes.comparator !== undefined ? changes.comparator ?? undefined : printed.comparator;
+
+    if (value === null && !qualitativeValue) {
+      throw new BadRequestException('A test result needs a numeric or qualitative value');
+    }
+
+    const valueUnchanged = value === printed.value && comparator === printed.comparator && qualitativeValue === printed.qualitativeValue;
+    const testName = changes.testName?.trim() ?? current.testName;
+
+    const canonical = toCanonicalUnit({
+      id: current.id,
+      testName,
+      canonicalCode: normalizeAnalyte(testName, unit)?.code,
+      value: qualitativeValue && changes.value === undefined ? null : value,
+      comparator,
+      qualitativeValue,
+      expectedQualitative: current.expectedQualitative,
+      valueText: valueUnchanged ? current.valueText : comparator && value !== null ? `${comparator}${value}` : undefined,
+      unit,
+      referenceRange: {
+        min: changes.referenceMin !== undefined ? changes.referenceMin : baseRange.min,
+        max: changes.referenceMax !== undefined ? changes.referenceMax : baseRange.max,
+      },
+      labFlag: changes.labFlag !== undefined ? changes.labFlag ?? undefined : current.labFlag,
+      source: current.source,
+      status: 'normal',
+    });
+
+    const profile = await this.profilesService.findByUserId(result.userId);
+    const ranged = applyReferenceRange(canonical, toDemographics(profile, result.testDate));
+    const criticalLimits = this.configService.get<Record<string, CriticalLimit>>('clinical.criticalLimits');
+    const reportUsesFlags = result.results.some(test => test.labFlag);
+
+    const edited: TestResult = {
+      ...ranged,
+      ...resolveTestStatus(ranged, { criticalLimits, reportUsesFlags }),
+      confidence: 1,
+      reviewReasons: [],
+      needsReview: false,
+      userEdited: true,
+    };
+
+    // Keep AI notes in step with the corrected value once a result has them
+    const hasAiNotes = result.results.some(test => 'aiNote' in test);
+    return hasAiNotes ? (await this.aiRecommendationsService.generateNotes([edited]))[0] : edited;
+  }
+
+  /**
+   * A row of the result the user may change - calculated rows follow their inputs
+   */
+  private findEditableTest(result: BloodworkResult, testId: string): TestResult {
+    const test = result.results.find(row => row.id === testId);
+
+    if (!test) {
+      throw new NotFoundException(`Test ${testId} not found in result ${result.id}`);
+    }
+
+    if (test.calculated) {
+      throw new BadRequestException(`Test ${testId} is calculated from other results - correct its inputs instead`);
+    }
+
+    return test;
+  }
+
+  private async saveWithEdit(
+    result: BloodworkResult,
+    userId: string,
+    testId: string,
+    action: ResultEditAction,
+    before: TestResult | null,
+    after: TestResult | null,
+  ): Promise<void> {
+    // Calculated markers follow their corrected inputs
+    const profile = await this.profilesService.findByUserId(result.userId);
+    const criticalLimits = this.configService.get<Record<string, CriticalLimit>>('clinical.criticalLimits');
+    result.results = [
+      ...result.results.filter(test => !test.calculated),
+      ...calculateDerivedMarkers(result.results, toDemographics(profile, result.testDate), { criticalLimits }),
+    ];
+
+    // Adding, renaming or removing rows can change which panels the report covers
+    result.panels = matchPanels(result.results);
+    result.testType = testTypeFromPanels(result.panels);
+
+    // The report summary was written from the old values - enrichment writes a new one
+    const reEnrich = result.status === 'completed';
+    if (reEnrich) {
+      result.summary = null;
+      result.enrichmentStatus = EnrichmentStatus.PENDING;
+    }
+
+    await this.resultRepository.save(result);
+    await this.editRepository.save(this.editRepository.create({ resultId: result.id, userId, testId, action, before, after }));
+
+    if (reEnrich) {
+      await this.queueEnrichment(result.jobId, [result.id]);
+    }
+  }
+
+  /**
+   * Re-derives library reference ranges from the user's current profile
+   * 
+   * WHY: A user may save their birth date or sex after uploading. Ranges
+   * the lab printed never change, but ranges we filled in from the
+   * reference-range library (or couldn't fill at all) are looked up again
+   * so older reports benefit from the profile. Status is recomputed for
+   * those tests since it depends on the range.
+   * 
+   * Callers handling many results of one user pass the profile in.
+   */
+  private async applyProfileRanges(
+    result: BloodworkResult,
+    userProfile?: UserProfile | null,
+  ): Promise<BloodworkResult> {
+    const profile = userProfile === undefined ? await this.profilesService.findByUserId(result.userId) : userProfile;
+    if (!profile) {
+      return result;
+    }
+
+    const demographics = toDemographics(profile, result.testDate);
+    const criticalLimits = this.configService.get<Record<string, CriticalLimit>>('clinical.criticalLimits');
+    const reportUsesFlags = result.results.some(test => test.labFlag);
+
+    return {
+      ...result,
+      results: result.results.map(test => {
+        if (test.referenceRangeSource !== 'library' && test.referenceRangeSource !== 'none') {
+          return test;
+        }
+        const refreshed = applyReferenceRange({ ...test, referenceRangeSource: undefined, referenceRange: { min: null, max: null } }, demographics);
+        return { ...refreshed, ...resolveTestStatus(refreshed, { criticalLimits, reportUsesFlags }) };
+      }),
+    };
+  }
+
+  /**
+   * Re-expresses every test in the requested unit system
+   * 
+   * WHY: Results are stored in each analyte's preferred unit so they can be
+   * compared across labs. Users outside the US expect SI units, so the API
+   * converts on the way out instead of storing several copies. Without a
+   * units parameter the stored values are returned unchanged.
+   */
+  private applyUnitSystem(result: BloodworkResult, units?: UnitSystem): BloodworkResult {
+    if (!units) {
+      return result;
+    }
+
+    return {
+      ...result,
+      results: result.results.map(test => toUnitSystem(test, units)),
+    };
+  }
+
+  /**
+   * Compares each test with the user's previous value for the analyte
+   * 
+   * WHY: Worked out on read rather than stored, so the comparison follows
+   * corrections to either result and reports uploaded out of date order.
+   * Runs after unit conversion - previous values are converted to the
+   * unit each test is shown in.
+   */
+  private async annotateDeltas(result: BloodworkResult): Promise<BloodworkResult> {
+    const others = (await this.resultRepository.find({ where: { userId: result.userId } }))
+      .filter(other => other.id !== result.id);
+    if (others.length === 0) {
+      return result;
+    }
+
+    return {
+      ...result,
+      results: annotateDeltas(result.results, result.testDate, others),
+    };
+  }
+
   /**
    * Calculates result statistics for frontend display
    * 
@@ -187,8 +828,14 @@ export class ResultsService {
     const highCount = results.filter(test => test.status === 'high').length;
     const lowCount = results.filter(test => test.status === 'low').length;
     const criticalCount = results.filter(test => test.status === 'critical').length;
+    // Qualitative mismatches ("Positive" where "Negative" is expected)
+    const qualitativeAbnormalCount = results.filter(test => test.status === 'abnormal').length;
     
-    const abnormalCount = highCount + lowCount;
+    const abnormalCount = highCount + lowCount + qualitativeAbnormalCount;
+    const qualitativeCount = results.filter(test => test.value === null).length;
+    const censoredCount = results.filter(test => test.comparator !== undefined).length;
+    const discrepancyCount = results.filter(test => test.flagDiscrepancy).length;
+    const reviewCount = results.filter(test => test.needsReview).length;
     
     // Determine overall status based on worst finding
     let overallStatus: 'normal' | 'abnormal' | 'critical';
@@ -205,12 +852,46 @@ export class ResultsService {
       normalCount,
       abnormalCount,
       criticalCount,
+      qualitativeCount,
+      censoredCount,
+      discrepancyCount,
+      reviewCount,
+      panels: this.calculatePanelStatistics(result),
       testDate: result.testDate,
       testType: result.testType,
       overallStatus,
     };
   }
 
+  /**
+   * Groups the result's tests by the panels it covers
+   * 
+   * Results saved before panels were recorded are matched on the fly.
+   */
+  private calculatePanelStatistics(result: BloodworkResult): PanelStatistics[] {
+    const panels = result.panels ?? matchPanels(result.results);
+    const countTests = (tests: TestResult[]) => ({
+      totalTests: tests.length,
+      normalCount: tests.filter(test => test.status === 'normal').length,
+      abnormalCount: tests.filter(test => ['high', 'low', 'abnormal'].includes(test.status)).length,
+      criticalCount: tests.filter(test => test.status === 'critical').length,
+    });
+
+    const panelStatistics: PanelStatistics[] = panels.map(panel => ({
+      code: panel.code,
+      name: panel.name,
+      completeness: panel.completeness,
+      ...countTests(result.results.filter(test => isPanelMember(panel, test.canonicalCode))),
+    }));
+
+    const ungrouped = result.results.filter(test => panelNameFor(test.canonicalCode, panels) === UNGROUPED_PANEL_NAME);
+    if (ungrouped.length > 0) {
+      panelStatistics.push({ code: null, name: UNGROUPED_PANEL_NAME, completeness: null, ...countTests(ungrouped) });
+    }
+
+    return panelStatistics;
+  }
+
   /**
    * DEPRECATED: Replaced with AI-powered recommendations
    * 
@@ -228,14 +909,109 @@ export class ResultsService {
    * AiRecommendationsService to call OpenAI or other medical AI APIs.
    */
 
+  /**
+   * Time series of one or more analytes across all of a user's results
+   * 
+   * WHY: Trend charts need a handful of values per analyte, not every full
+   * result. Points are converted to one unit per analyte (the requested
+   * system, conventional by default) and carry the reference range that
+   * applied on their date; each series gets a slope and direction.
+   * 
+   * Analytes are catalogue codes ("LDL") or any label the catalogue knows
+   * ("Haemoglobin").
+   * 
+   * USAGE: GET /results/trends/:analytes
+   */
+  async getTrends(
+    userId: string,
+    analyteLabels: string[],
+    options: { units?: UnitSystem; from?: Date; to?: Date } = {},
+  ): Promise<ApiResponseDto<AnalyteTrend[]>> {
+    const analytes = analyteLabels.map(label => {
+      const analyte = findAnalyteByCode(label.toUpperCase()) ?? normalizeAnalyte(label);
+      if (!analyte) {
+        throw new BadRequestException(`Unknown analyte: ${label}`);
+      }
+      return analyte;
+    });
+    const unique = [...new Map(analytes.map(analyte => [analyte.code, analyte])).values()];
+
+    const profile = await this.profilesService.findByUserId(userId);
+    const stored = await this.resultRepository.find({ where: { userId }, order: { testDate: 'ASC' } });
+    const inWindow = stored.filter(result => {
+      // Day precision, so a date-only "to" includes reports timed later that day
+      const date = Date.parse(result.testDate.slice(0, 10));
+      return (!options.from || date >= options.from.getTime()) && (!options.to || date <= options.to.getTime());
+    });
+    const results = await Promise.all(inWindow.map(result => this.applyProfileRanges(result, profile)));
+
+    return createApiResponse(
+      unique.map(analyte => buildTrend(analyte, results, options.units ?? UnitSystem.CONVENTIONAL)),
+    );
+  }
+
+  /**
+   * Compares two of a user's results analyte by analyte
+   * 
+   * WHY: The ResultSummary answers "how am I doing?" for one report; this
+   * answers "what changed?" between two. Both results get the same profile
+   * ranges and unit system as GET /results/:resultId, then their tests are
+   * paired with unit-normalised deltas and status transitions. Each side
+   * keeps its own statistics for the header cards.
+   * 
+   * USAGE: GET /results/compare?base=:id&target=:id
+   */
+  async compareResults(
+    userId: string,
+    baseId: string,
+    targetId: string,
+    units?: UnitSystem,
+  ): Promise<ApiResponseDto<ResultComparison>> {
+    if (baseId === targetId) {
+      throw new BadRequestException('base and target must be different results');
+    }
+
+    const profile = await this.profilesService.findByUserId(userId);
+    const [base, target] = await Promise.all(
+      [baseId, targetId].map(async id =>
+        this.applyUnitSystem(await this.applyProfileRanges(await this.findOwnedResult(id, userId), profile), units),
+      ),
+    );
+    const { pairs, baseOnly, targetOnly } = compareTests(base, target);
+
+    return createApiResponse({
+      base: this.comparedResultSummary(base),
+      target: this.comparedResultSummary(target),
+      pairs,
+      baseOnly,
+      targetOnly,
+      summary: {
+        matchedCount: pairs.length,
+        significantCount: pairs.filter(pair => pair.delta?.significant).length,
+        improvedCount: pairs.filter(pair => pair.delta?.assessment === 'improved').length,
+        worsenedCount: pairs.filter(pair => pair.delta?.assessment === 'worsened').length,
+        statusChangeCount: pairs.filter(pair => pair.statusChange).length,
+      },
+    });
+  }
+
+  private comparedResultSummary(result: BloodworkResult): ComparedResultSummary {
+    return {
+      id: result.id,
+      testDate: result.testDate,
+      testType: result.testType,
+      statistics: this.calculateStatistics(result),
+    };
+  }
+
   /**
    * Retrieves all results for a specific time period
    * 
    * WHY: Useful for analytics, trend analysis, or admin dashboards.
    * Could power a "results history" feature in your React Native app.
    */
-  async getResultsByDateRange(startDate: Date, endDate: Date): Promise<BloodworkResult[]> {
-    return this.resultRepository
+  async getResultsByDateRange(startDate: Date, endDate: Date, units?: UnitSystem): Promise<BloodworkResult[]> {
+    const results = await this.resultRepository
       .createQueryBuilder('result')
       .where('result.createdAt BETWEEN :startDate AND :endDate', {
         startDate,
@@ -243,6 +1019,8 @@ export class ResultsService {
       })
       .orderBy('result.createdAt', 'DESC')
       .getMany();
+
+    return results.map(result => this.applyUnitSystem(result, units));
   }
 
   /**
@@ -306,3 +1084,26 @@ export class ResultsService {
     return result.affected || 0;
   }
 }
+
+/**
+ * A row's value, unit and range as printed on the report
+ */
+function asPrinted(test: TestResult): TestResult {
+  const printed = test.originalUnit ? convertTestResult(test, test.originalUnit) : test;
+  return {
+    ...printed,
+    value: test.originalValue ?? printed.value,
+    unit: test.originalUnit ?? printed.unit,
+    originalValue: undefined,
+    originalUnit: undefined,
+  };
+}
+
+function toLabelledRow(test: TestResult | null): LabelledTestRow | null {
+  if (!test) return null;
+
+  const { testName, value, comparator, qualitativeValue, unit, referenceRange, labFlag } = asPrinted(test);
+  // Library ranges were never on the report, so they aren't part of the label
+  const printedRange = test.referenceRangeSource === 'library' ? { min: null, max: null } : referenceRange;
+  return { testName, value, comparator, qualitativeValue, unit, referenceRange: printedRange, labFlag };
+}
@@ -0,0 +1,15 @@
+/**
+ * heic-convert ships without type declarations - this covers the single-image
+ * converter used by the image preprocessor.
+ */
+declare module 'heic-convert' {
+  interface HeicConvertOptions {
+    buffer: Buffer | ArrayBufferLike;
+    format: 'JPEG' | 'PNG';
+    quality?: number;
+  }
+
+  function heicConvert(options: HeicConvertOptions): Promise<ArrayBuffer>;
+
+  export = heicConvert;
+}
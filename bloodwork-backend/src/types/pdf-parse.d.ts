@@ -0,0 +1,39 @@
+/**
+ * pdf-parse ships without type declarations - this covers the options and
+ * page data the PDF parser's per-page renderer relies on.
+ */
+declare module 'pdf-parse' {
+  namespace pdfParse {
+    interface TextItem {
+      str: string;
+      /**
+       * Text matrix - index 5 is the baseline's y position
+       */
+      transform: number[];
+    }
+
+    interface PageData {
+      pageIndex: number;
+      getTextContent(options?: { normalizeWhitespace?: boolean; disableCombineTextItems?: boolean }): Promise<{ items: TextItem[] }>;
+    }
+
+    interface Options {
+      pagerender?: (pageData: PageData) => Promise<string>;
+      max?: number;
+      version?: string;
+    }
+
+    interface Result {
+      numpages: number;
+      numrender: number;
+      info: unknown;
+      metadata: unknown;
+      text: string;
+      version: string | null;
+    }
+  }
+
+  function pdfParse(dataBuffer: Buffer, options?: pdfParse.Options): Promise<pdfParse.Result>;
+
+  export = pdfParse;
+}
@@ -0,0 +1,43 @@
+/**
+ * Upload File Types - Which report files the API accepts
+ * 
+ * WHY: Most users photograph the paper report instead of downloading a
+ * PDF. Phones produce JPEG, PNG or (on iOS) HEIC, and some clients send
+ * HEIC as application/octet-stream, so the extension is checked too.
+ * 
+ * RELATIONSHIP TO YOUR APP:
+ * UploadsController fileFilter / UploadsService validation -> These helpers
+ * AnalysisProcessor -> isImageMimeType() -> OCR path for photos
+ */
+
+import { extname } from 'path';
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+export const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/heic', 'image/heif'];
+
+const HEIC_EXTENSIONS = ['.heic', '.heif'];
+
+/**
+ * Effective MIME type of an uploaded file, or null if it isn't accepted
+ */
+export function resolveUploadMimeType(file: Pick<Express.Multer.File, 'mimetype' | 'originalname'>): string | null {
+  if (file.mimetype === PDF_MIME_TYPE || IMAGE_MIME_TYPES.includes(file.mimetype)) {
+    return file.mimetype;
+  }
+
+  const extension = extname(file.originalname ?? '').toLowerCase();
+  if (file.mimetype === 'application/octet-stream' && HEIC_EXTENSIONS.includes(extension)) {
+    return 'image/heic';
+  }
+
+  return null;
+}
+
+export function isImageMimeType(mimetype: string): boolean {
+  return IMAGE_MIME_TYPES.includes(mimetype);
+}
+
+export function isHeicMimeType(mimetype: string): boolean {
+  return mimetype === 'image/heic' || mimetype === 'image/heif';
+}
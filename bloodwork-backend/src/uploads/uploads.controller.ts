@@ -7,13 +7,15 @@
  * 
  * FUNCTIONALITY:
  * - Receives multipart file uploads from React Native
+ * - Accepts PDFs and photos; several photos of one report form one upload
  * - Configures multer for secure file handling
  * - Validates file type and size before processing
  * - Returns uploadId for subsequent analysis requests
  * - Handles upload errors with specific error messages
  * 
  * RELATIONSHIP TO YOUR APP:
- * React Native UploadCard -> FormData with PDF -> POST /uploads -> This controller
+ * React Native UploadCard -> FormData with PDF or photo -> POST /uploads -> This controller
+ * React Native camera flow -> FormData with photos -> POST /uploads/images
  * Controller -> UploadsService -> Database -> Returns UploadResponseDto
  * React Native receives { uploadId, fileUrl } -> Stores in Zustand -> Triggers analysis
  */
@@ -23,13 +25,14 @@ import {
   Post,
   UseInterceptors,
   UploadedFile,
+  UploadedFiles,
   ParseFilePipeBuilder,
   HttpStatus,
   BadRequestException,
   UseGuards,
   Get,
 } from '@nestjs/common';
-import { FileInterceptor } from '@nestjs/platform-express';
+import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
 import { ApiTags, ApiOperation, ApiResponse, ApiConsumes } from '@nestjs/swagger';
 import { diskStorage } from 'multer';
 import { extname } from 'path';
@@ -39,6 +42,43 @@ import { UploadResponseDto } from '../common/dto/upload-response.dto';
 import { ApiResponseDto } from '../common/dto/api-response.dto';
 import { ConfigService } from '@nestjs/config';
 import { ClerkAuthGuard, CurrentUser, Public } from '../auth';
+import { resolveUploadMimeType } from './upload-file-types';
+
+/**
+ * Upper bound for photos in one multipart request
+ * UploadsService applies the configured (possibly lower) limit
+ */
+const MAX_REPORT_IMAGES = 10;
+
+/**
+ * Disk storage shared by the PDF and photo endpoints
+ */
+const reportStorage = diskStorage({
+  // Destination folder for uploaded files
+  destination: (req, file, cb) => {
+    const uploadPath = req['configService']?.get('upload.path') || './uploads';
+    cb(null, uploadPath);
+  },
+  
+  // Generate unique filename to prevent conflicts
+  filename: (req, file, cb) => {
+    const uniqueSuffix = uuidv4();
+    const extension = extname(file.originalname);
+    cb(null, `${uniqueSuffix}${extension}`);
+  },
+});
+
+/**
+ * File filter for security and validation
+ * Accepts PDFs and report photos (JPEG, PNG, HEIC)
+ */
+const reportFileFilter = (req, file: Express.Multer.File, cb: (error: Error | null, accept: boolean) => void) => {
+  if (resolveUploadMimeType(file)) {
+    cb(null, true);
+  } else {
+    cb(new BadRequestException('Only PDF files or JPEG, PNG and HEIC images are allowed'), false);
+  }
+};
 
 @ApiTags('uploads')
 @Controller('uploads')
@@ -59,15 +99,15 @@ export class UploadsController {
    * REQUEST FORMAT (from your React Native app):
    * POST /uploads
    * Content-Type: multipart/form-data
-   * Body: FormData with 'file' field containing PDF
+   * Body: FormData with 'file' field containing a PDF or one photo
    * 
    * RESPONSE FORMAT (to your React Native app):
    * { uploadId: "uuid", fileUrl: "uploads/filename.pdf" }
    */
   @Post()
   @ApiOperation({ 
-    summary: 'Upload bloodwork PDF file',
-    description: 'Accepts PDF files for bloodwork analysis. Returns upload ID for subsequent analysis requests.',
+    summary: 'Upload bloodwork PDF or photo',
+    description: 'Accepts a PDF or a single photo (JPEG, PNG, HEIC) for bloodwork analysis. Returns upload ID for subsequent analysis requests.',
   })
   @ApiConsumes('multipart/form-data')
   @ApiResponse({
@@ -85,31 +125,8 @@ export class UploadsController {
   })
   @UseInterceptors(
     FileInterceptor('file', {
-      // Disk storage configuration
-      storage: diskStorage({
-        // Destination folder for uploaded files
-        destination: (req, file, cb) => {
-          const uploadPath = req['configService']?.get('upload.path') || './uploads';
-          cb(null, uploadPath);
-        },
-        
-        // Generate unique filename to prevent conflicts
-        filename: (req, file, cb) => {
-          const uniqueSuffix = uuidv4();
-          const extension = extname(file.originalname);
-          cb(null, `${uniqueSuffix}${extension}`);
-        },
-      }),
-      
-      // File filter for security and validation
-      fileFilter: (req, file, cb) => {
-        // Only allow PDF files
-        if (file.mimetype === 'application/pdf') {
-          cb(null, true);
-        } else {
-          cb(new BadRequestException('Only PDF files are allowed'), false);
-        }
-      },
+      storage: reportStorage,
+      fileFilter: reportFileFilter,
       
       // File size limits (also enforced by ParseFilePipeBuilder)
       limits: {
@@ -141,6 +158,52 @@ export class UploadsController {
     return this.uploadsService.saveUpload(file, userId);
   }
 
+  /**
+   * Upload several photos of one report
+   * 
+   * WHY: Multi-page paper reports are photographed page by page. Sending
+   * all photos in one request groups them into a single upload, so the
+   * analysis sees one report rather than several partial ones.
+   * 
+   * REQUEST FORMAT:
+   * POST /uploads/images
+   * Content-Type: multipart/form-data
+   * Body: FormData with repeated 'files' fields, in page order
+   */
+  @Post('images')
+  @ApiOperation({
+    summary: 'Upload photos of a bloodwork report',
+    description: 'Accepts up to 10 photos (JPEG, PNG, HEIC) of one report, in page order, as a single upload.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiResponse({
+    status: 201,
+    description: 'Images uploaded successfully',
+    type: ApiResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No images, too many images, or a non-image file',
+  })
+  @UseInterceptors(
+    FilesInterceptor('files', MAX_REPORT_IMAGES, {
+      storage: reportStorage,
+      fileFilter: reportFileFilter,
+      limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB per photo
+        files: MAX_REPORT_IMAGES,
+      },
+    }),
+  )
+  async uploadImages(
+    @UploadedFiles()
+    files: Express.Multer.File[],
+    // @CurrentUser() userId: string, // Temporarily disabled for testing
+  ): Promise<ApiResponseDto<UploadResponseDto>> {
+    const userId = 'test-user-id'; // Temporary for testing
+    return this.uploadsService.saveImageUpload(files, userId);
+  }
+
   /**
    * Health check endpoint for upload functionality
    * 
@@ -22,10 +22,12 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { Upload } from '../common/entities/upload.entity';
+import { Upload, UploadPage } from '../common/entities/upload.entity';
+import { isImageMimeType, resolveUploadMimeType } from './upload-file-types';
 import { UploadResponseDto } from '../common/dto/upload-response.dto';
 import { ApiResponseDto, createApiResponse } from '../common/dto/api-response.dto';
 import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
 
 @Injectable()
 export class UploadsService {
@@ -49,16 +51,22 @@ export class UploadsService {
    */
   async saveUpload(file: Express.Multer.File, userId: string): Promise<ApiResponseDto<UploadResponseDto>> {
     // Business validation beyond multer's basic checks
-    this.validateUploadedFile(file);
+    const mimetype = this.validateUploadedFile(file);
+
+    // A single photo is a one-page photographed report
+    if (isImageMimeType(mimetype)) {
+      return this.saveImageUpload([file], userId);
+    }
 
     // Create database entity with file metadata
     const upload = this.uploadRepository.create({
       userId,                        // Associate with authenticated user
       filename: file.filename,        // UUID-based filename from multer
       originalName: file.originalname, // User's original filename
-      mimetype: file.mimetype,        // Should be 'application/pdf'
+      mimetype,                       // 'application/pdf'
       size: file.size,               // File size in bytes
       path: file.path,               // Full file system path
+      pages: null,
     });
 
     // Persist to database - this generates the UUID primary key
@@ -68,6 +76,58 @@ export class UploadsService {
     return createApiResponse({
       uploadId: savedUpload.id,      // UUID that your app will use for analysis
       fileUrl: `uploads/${savedUpload.filename}`, // Relative path for future access
+      pageCount: 1,
+    });
+  }
+
+  /**
+   * Saves several photos of one report as a single upload
+   * 
+   * WHY: A two-page report photographed page by page is still one report
+   * with one test date. Keeping the photos on one Upload means one
+   * analysis job and one result, with pages OCR'd in the order sent.
+   */
+  async saveImageUpload(files: Express.Multer.File[], userId: string): Promise<ApiResponseDto<UploadResponseDto>> {
+    const maxImages = this.configService.get<number>('upload.maxImages') || 10;
+
+    if (!files || files.length === 0) {
+      throw new BadRequestException('At least one image is required');
+    }
+    if (files.length > maxImages) {
+      throw new BadRequestException(`A report can have at most ${maxImages} images`);
+    }
+
+    const pages: UploadPage[] = files.map(file => {
+      const mimetype = this.validateUploadedFile(file);
+      if (!isImageMimeType(mimetype)) {
+        throw new BadRequestException(`Invalid file type. Expected JPEG, PNG or HEIC images, received ${file.mimetype}`);
+      }
+      return {
+        filename: file.filename,
+        originalName: file.originalname,
+        mimetype,
+        size: file.size,
+        path: file.path,
+      };
+    });
+
+    const [firstPage] = pages;
+    const upload = this.uploadRepository.create({
+      userId,
+      filename: firstPage.filename,
+      originalName: firstPage.originalName,
+      mimetype: firstPage.mimetype,
+      size: pages.reduce((total, page) => total + page.size, 0),
+      path: firstPage.path,
+      pages,
+    });
+
+    const savedUpload = await this.uploadRepository.save(upload);
+
+    return createApiResponse({
+      uploadId: savedUpload.id,
+      fileUrl: `uploads/${savedUpload.filename}`,
+      pageCount: pages.length,
     });
   }
 
@@ -98,9 +158,9 @@ export class UploadsService {
   async findByIdWithFileCheck(id: string, userId: string): Promise<Upload> {
     const upload = await this.findById(id, userId);
     
-    // Check if physical file still exists
-    const fs = require('fs');
-    if (!fs.existsSync(upload.path)) {
+    // Check if physical file(s) still exist - every photo of a report
+    const paths = upload.pages ? upload.pages.map(page => page.path) : [upload.path];
+    if (paths.some(path => !fs.existsSync(path))) {
       throw new NotFoundException(`File for upload ${id} no longer exists on disk`);
     }
 
@@ -115,10 +175,12 @@ export class UploadsService {
    * 
    * VALIDATION RULES:
    * - File size within configured limits
-   * - PDF format validation
+   * - PDF or image (JPEG, PNG, HEIC) format validation
    * - Filename safety checks
+   * 
+   * RETURNS: The effective MIME type (HEIC sent as octet-stream is resolved)
    */
-  private validateUploadedFile(file: Express.Multer.File): void {
+  private validateUploadedFile(file: Express.Multer.File): string {
     const maxSize = this.configService.get<number>('upload.maxSize') || 10485760;
 
     // Validate file size against business limits
@@ -129,9 +191,10 @@ export class UploadsService {
     }
 
     // Validate MIME type (should already be checked by multer)
-    if (file.mimetype !== 'application/pdf') {
+    const mimetype = resolveUploadMimeType(file);
+    if (!mimetype) {
       throw new BadRequestException(
-        `Invalid file type. Expected PDF, received ${file.mimetype}`
+        `Invalid file type. Expected PDF or JPEG/PNG/HEIC image, received ${file.mimetype}`
       );
     }
 
@@ -144,6 +207,8 @@ export class UploadsService {
     if (!file.originalname || file.originalname.length > 255) {
       throw new BadRequestException('Invalid filename');
     }
+
+    return mimetype;
   }
 
   /**
@@ -167,13 +232,15 @@ export class UploadsService {
       .getMany();
 
     let deletedCount = 0;
-    const fs = require('fs');
 
     for (const upload of oldUploads) {
       try {
-        // Delete physical file
-        if (fs.existsSync(upload.path)) {
-          fs.unlinkSync(upload.path);
+        // Delete physical file(s)
+        const paths = upload.pages ? upload.pages.map(page => page.path) : [upload.path];
+        for (const path of paths) {
+          if (fs.existsSync(path)) {
+            fs.unlinkSync(path);
+          }
         }
 
         // Delete database record